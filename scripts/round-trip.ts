@@ -0,0 +1,208 @@
+/**
+ * Script de test aller-retour : vérifie que parseFacturXXml(generateFacturX(x)) restitue x pour chaque profil,
+ * chaque facture du corpus étant d'abord validée (modèle et XML généré)
+ * Usage : tsx scripts/round-trip.ts (lancé par npm test)
+ */
+import { generateFacturX } from '../src/facturx/generator.js';
+import { parseFacturXXml } from '../src/facturx/parser.js';
+import { getDroppedFields, profileAllows } from '../src/facturx/profiles.js';
+import type { FacturXProfile, Invoice } from '../src/facturx/types.js';
+import { validateInvoice } from '../src/facturx/validator.js';
+import { validateFacturXXml } from '../src/facturx/xml-validator.js';
+
+// ── Corpus ──────────────────────────────────────────────────────────────
+// Chaque facture n'utilise que les champs émis par son profil, sous forme canonique :
+// notes en tableau, schémas d'identifiants explicites, montants de ligne et remises déjà calculés.
+
+const minimum: Invoice = {
+  number: 'MIN-2026-001',
+  typeCode: '380',
+  date: '2026-10-01',
+  currency: 'EUR',
+  profile: 'MINIMUM',
+  seller: {
+    name: 'ACME SAS',
+    vatNumber: 'FR44732829320',
+    legalId: '732829320',
+    legalIdScheme: '0002',
+    address: { street: '', city: '', postalCode: '', countryCode: 'FR' },
+  },
+  buyer: {
+    name: 'CLIENT SA',
+    legalId: '356000000',
+    legalIdScheme: '0002',
+    address: { street: '', city: '', postalCode: '', countryCode: '' },
+  },
+  lines: [
+    { id: '1', description: 'Prestation', quantity: 1, unitCode: 'C62', unitPrice: 1000, totalAmount: 1000, vatRate: 20, vatCategory: 'S' },
+  ],
+  purchaseOrderRef: 'PO-4521',
+  buyerRef: 'SERVICE-ACHATS',
+};
+
+const basicWl: Invoice = {
+  ...minimum,
+  number: 'BWL-2026-001',
+  profile: 'BASIC_WL',
+  dueDate: '2026-10-31',
+  deliveryDate: '2026-09-30',
+  billingPeriod: { startDate: '2026-09-01', endDate: '2026-09-30' },
+  seller: {
+    ...minimum.seller,
+    id: '73282932000074',
+    idScheme: '0009',
+    address: { street: '10 rue de la Paix', additionalStreet: 'Bâtiment B', city: 'Paris', postalCode: '75001', countryCode: 'FR' },
+    contact: { email: 'factures@acme.fr' },
+  },
+  buyer: {
+    ...minimum.buyer,
+    id: '35600000000048',
+    idScheme: '0009',
+    vatNumber: 'FR39356000000',
+    address: { street: '5 av. des Champs', city: 'Lyon', postalCode: '06000', countryCode: 'FR', stateOrProvince: 'Rhône' },
+  },
+  payee: { name: 'ACME Affacturage', id: '44229377500031', idScheme: '0009', legalId: '442293775', legalIdScheme: '0002' },
+  shipTo: {
+    name: 'Entrepôt Lyon',
+    locationId: '3012345000003',
+    address: { street: '12 quai Perrache', city: 'Lyon', postalCode: '69002', countryCode: 'FR' },
+  },
+  allowances: [{ amount: 50, baseAmount: 1000, percentage: 5, reason: 'Remise commerciale', reasonCode: '95', vatCategory: 'S', vatRate: 20 }],
+  charges: [{ amount: 15, reason: 'Frais de port', reasonCode: 'FC', vatCategory: 'S', vatRate: 20 }],
+  prepaidAmount: 100,
+  payment: {
+    meansCode: '58',
+    iban: 'FR7630006000011234567890189',
+    reference: 'MIN-2026-001',
+    terms: 'Paiement à 30 jours',
+  },
+  contractRef: 'CTR-2026-07',
+  precedingInvoices: [{ number: 'F-2026-000', issueDate: '2026-09-01' }],
+  notes: [
+    { content: 'Merci de votre confiance' },
+    { content: 'Pénalités de retard : 3 fois le taux d\'intérêt légal', subjectCode: 'PMD' },
+    { content: 'Indemnité forfaitaire pour frais de recouvrement : 40 €', subjectCode: 'PMT' },
+  ],
+};
+
+const basic: Invoice = {
+  ...basicWl,
+  number: 'BAS-2026-001',
+  profile: 'BASIC',
+  lines: [
+    { id: '1', description: 'Développement', quantity: 10, unitCode: 'HUR', unitPrice: 95, totalAmount: 950, vatRate: 20, vatCategory: 'S' },
+    { id: '2', description: 'Livre technique', quantity: 3, unitCode: 'C62', unitPrice: 12.5, totalAmount: 37.5, vatRate: 5.5, vatCategory: 'S' },
+    { id: '3', description: 'Formation', quantity: 1, unitCode: 'C62', unitPrice: 500, totalAmount: 450, vatRate: 0, vatCategory: 'E',
+      allowances: [{ amount: 50, reason: 'Remise fidélité', reasonCode: '95' }] },
+  ],
+  vatExemptions: [{ categoryCode: 'E', reason: 'Exonération de TVA, article 261-4-4° du CGI', reasonCode: 'VATEX-FR-FRANCHISE' }],
+};
+
+const en16931: Invoice = {
+  ...basic,
+  number: 'EN-2026-001',
+  profile: 'EN_16931',
+  currency: 'GBP',
+  taxCurrency: 'EUR',
+  taxTotalInTaxCurrency: 230.16,
+  seller: {
+    ...basic.seller,
+    contact: { name: 'Service facturation', email: 'factures@acme.fr', phone: '0102030405' },
+  },
+  buyer: {
+    ...basic.buyer,
+    contact: { name: 'Jeanne Martin', email: 'compta@client.fr', phone: '+33 4 72 00 00 00' },
+  },
+  sellerTaxRepresentative: {
+    name: 'Fiscal Rep Ltd',
+    vatNumber: 'GB123456789',
+    address: { street: '1 King Street', city: 'London', postalCode: 'EC2V 8AU', countryCode: 'GB' },
+  },
+  lines: [
+    { id: '1', description: 'Développement', quantity: 10, unitCode: 'HUR', unitPrice: 95, grossPrice: 100, priceDiscount: 5,
+      totalAmount: 950, vatRate: 20, vatCategory: 'S', productId: 'DEV-H', buyerProductId: 'ACH-778',
+      note: 'Sprint de septembre', billingPeriod: { startDate: '2026-09-01', endDate: '2026-09-15' } },
+    { id: '2', description: 'Papier A4', quantity: 500, unitCode: 'C62', unitPrice: 4.2, priceBaseQuantity: 100,
+      totalAmount: 21, vatRate: 5.5, vatCategory: 'S' },
+    { id: '3', description: 'Formation', quantity: 1, unitCode: 'C62', unitPrice: 500, totalAmount: 460, vatRate: 0, vatCategory: 'E',
+      allowances: [{ amount: 50, baseAmount: 500, percentage: 10, reason: 'Remise fidélité', reasonCode: '95' }],
+      charges: [{ amount: 10, reason: 'Emballage', reasonCode: 'ABL' }] },
+  ],
+  roundingAmount: 0.01,
+  payment: { ...basic.payment!, bic: 'AGRIFRPP' },
+  supportingDocuments: [
+    { id: 'TS-09', description: 'Feuille de temps', uri: 'https://acme.fr/ts/09' },
+    { id: 'BL-77', description: 'Bon de livraison', attachment: { content: 'SGVsbG8gRmFjdHVyLVg=', mimeCode: 'application/pdf', filename: 'bl-77.pdf' } },
+  ],
+};
+
+const extended: Invoice = { ...en16931, number: 'EXT-2026-001', profile: 'EXTENDED' };
+
+// Spécifications CIUS : adresses électroniques obligatoires, sans devise de comptabilisation ni pièce jointe
+const cius: Invoice = {
+  ...en16931,
+  currency: 'EUR',
+  taxCurrency: undefined,
+  taxTotalInTaxCurrency: undefined,
+  sellerTaxRepresentative: undefined,
+  seller: { ...en16931.seller, electronicAddress: '73282932000074', electronicAddressScheme: '0009' },
+  buyer: { ...en16931.buyer, electronicAddress: '991-12345-67', electronicAddressScheme: '0204' },
+};
+
+const xrechnung: Invoice = { ...cius, number: 'XR-2026-001', profile: 'XRECHNUNG', buyerRef: '991-12345-67' };
+const peppol: Invoice = { ...cius, number: 'PB-2026-001', profile: 'PEPPOL_BIS' };
+
+const CORPUS: Invoice[] = [minimum, basicWl, basic, en16931, extended, xrechnung, peppol];
+
+// ── Comparaison ─────────────────────────────────────────────────────────
+
+// Forme JSON : les clés absentes et undefined sont équivalentes
+function canonical(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Chemins des valeurs différentes entre attendu et obtenu
+function differences(expected: unknown, actual: unknown, path = ''): string[] {
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap(key => differences(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      Array.isArray(expected) ? `${path}[${key}]` : path ? `${path}.${key}` : key,
+    ));
+  }
+  return expected === actual ? [] : [`${path} : attendu ${JSON.stringify(expected)}, obtenu ${JSON.stringify(actual)}`];
+}
+
+// ── Exécution ───────────────────────────────────────────────────────────
+
+let failures = 0;
+for (const invoice of CORPUS) {
+  const profile: FacturXProfile = invoice.profile;
+  // MINIMUM et BASIC_WL ne détaillent pas les lignes : seuls les totaux en sont conservés
+  const expected = profileAllows(profile, 'BASIC') ? invoice : { ...invoice, lines: [] };
+  const dropped = getDroppedFields(expected);
+  const xml = generateFacturX(invoice);
+  // Un corpus invalide ne prouverait rien : la facture et le XML produit doivent être conformes
+  const invalid = [
+    ...validateInvoice(invoice).errors.map(e => `Facture du corpus invalide : ${e}`),
+    ...validateFacturXXml(xml).errors.map(e => `XML généré invalide : ${e}`),
+  ];
+  const diffs = invalid.length ? [] : differences(canonical(expected), canonical(parseFacturXXml(xml)));
+
+  if (!dropped.length && !invalid.length && !diffs.length) {
+    console.log(`✅ ${profile.padEnd(10)} ${invoice.number}`);
+    continue;
+  }
+  failures++;
+  console.error(`❌ ${profile.padEnd(10)} ${invoice.number}`);
+  for (const field of dropped) console.error(`   Champ hors profil dans le corpus : ${field}`);
+  for (const error of invalid) console.error(`   ${error}`);
+  for (const diff of diffs) console.error(`   ${diff}`);
+}
+
+if (failures) {
+  console.error(`\n${failures}/${CORPUS.length} profil(s) en échec`);
+  process.exit(1);
+}
+console.log(`\n✅ Aller-retour sans perte pour les ${CORPUS.length} profils`);
@@ -1,8 +1,9 @@
-import type {
-  ChorusConfig,
-  ChorusUploadResult,
-  ChorusInvoiceStatus,
-  ChorusInvoiceList,
+import {
+  CHORUS_SYNTAX_CODES,
+  type ChorusConfig,
+  type ChorusUploadResult,
+  type ChorusInvoiceStatus,
+  type ChorusInvoiceList,
 } from './types.js';
 
 // URLs PISTE (API gateway officiel du gouvernement français)
@@ -81,15 +82,15 @@ export class ChorusClient {
   }
 
   /**
-   * Dépose une facture Factur-X sur Chorus Pro.
+   * Dépose une facture (XML CII ou UBL) sur Chorus Pro.
    * @param xmlContent  Contenu XML de la facture
    * @param filename    Nom du fichier (ex: "facture-2024-001.xml")
-   * @param syntax      Syntaxe du flux (défaut: EN16931)
+   * @param syntax      Code syntaxe du flux (défaut: IN_DP_E1_CII_16B)
    */
   async uploadInvoice(
     xmlContent: string,
     filename: string,
-    syntax = 'EN16931'
+    syntax: string = CHORUS_SYNTAX_CODES.CII
   ): Promise<ChorusUploadResult> {
     const base64 = Buffer.from(xmlContent, 'utf-8').toString('base64');
     return this.post<ChorusUploadResult>('/deposerFluxFacture', {
@@ -49,3 +49,9 @@ export interface ChorusInvoiceList {
   nbFacturesParPage?: number;
   numeroPage?: number;
 }
+
+/** Code syntaxe du flux (syntaxeFlux) selon la syntaxe du XML déposé. */
+export const CHORUS_SYNTAX_CODES = {
+  CII: 'IN_DP_E1_CII_16B',
+  UBL: 'IN_DP_E1_UBL_INVOICE',
+} as const;
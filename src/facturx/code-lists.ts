@@ -0,0 +1,66 @@
+/**
+ * Listes de codes EN 16931 (BR-CL-*) utilisées pour contrôler un document XML reçu.
+ * Sources : ISO 4217, ISO 3166-1 alpha-2, UNTDID 1001, 4461, 5189, 5305 (sous-ensembles retenus par la norme).
+ */
+
+const codes = (list: string) => new Set(list.trim().split(/\s+/));
+
+// Types de document (BT-3, BR-CL-01)
+export const INVOICE_TYPE_CODES = codes(`
+  71 80 81 82 83 84 102 130 202 203 204 211 218 219 261 262 295 296 308 325 326 331
+  380 381 382 383 384 385 386 387 388 389 390 393 394 395 396 420 456 457 458 527 532
+  553 575 623 633 751 780 817 870 875 876 877 935
+`);
+
+// Devises (BT-5, BT-6, BR-CL-03 / BR-CL-05)
+export const CURRENCY_CODES = codes(`
+  AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BOV BRL BSD BTN BWP BYN BZD
+  CAD CDF CHE CHF CHW CLF CLP CNY COP COU CRC CUC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP
+  GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR KMF KPW KRW
+  KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN
+  NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG SEK SGD SHP SLE SLL
+  SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN UYI UYU UYW UZS VED VES
+  VND VUV WST XAF XAG XAU XBA XBB XBC XBD XCD XDR XOF XPD XPF XPT XSU XUA YER ZAR ZMW ZWL
+`);
+
+// Pays (BT-40, BT-55, BT-69, BT-80, BR-CL-14) — 1A : Kosovo
+export const COUNTRY_CODES = codes(`
+  1A AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV
+  BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET
+  FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM
+  IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD
+  ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE
+  PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST
+  SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS
+  XI YE YT ZA ZM ZW
+`);
+
+// Catégories de TVA (BT-95, BT-102, BT-118, BT-151, BR-CL-17 / BR-CL-18)
+export const VAT_CATEGORY_CODES = codes('S Z E AE K G O L M');
+
+// Moyens de paiement (BT-81, BR-CL-16)
+export const PAYMENT_MEANS_CODES = codes(`
+  1 2 3 4 5 6 7 8 9 10 11 12 13 14 15 16 17 18 19 20 21 22 23 24 25 26 27 28 29 30 31 32 33 34 35 36 37
+  38 39 40 41 42 43 44 45 46 47 48 49 50 51 52 53 54 55 56 57 58 59 60 61 62 63 64 65 66 67 68 70 74 75
+  76 77 78 91 92 93 94 95 96 97 ZZZ
+`);
+
+// Motifs de remise (BT-98, BT-140, BR-CL-19)
+export const ALLOWANCE_REASON_CODES = codes(`
+  41 42 60 62 63 64 65 66 67 68 70 71 88 95 100 102 103 104 105
+`);
+
+// Motifs de charge (BT-105, BT-145, BR-CL-20) : UNTDID 7161, deux lettres
+export const CHARGE_REASON_CODE_RE = /^[A-Z]{2,3}$/;
+
+// Code d'exonération VATEX (BT-121, BR-CL-22)
+export const VATEX_CODE_RE = /^VATEX-(EU|FR)-[A-Z0-9-]+$/i;
+
+// Schémas d'adresse électronique EAS (BT-34-1, BT-49-1, BR-CL-25)
+export const EAS_CODES = codes(`
+  0002 0007 0009 0037 0060 0088 0096 0097 0106 0130 0135 0142 0147 0151 0170 0183 0184 0188 0190 0191
+  0192 0193 0194 0195 0196 0198 0199 0200 0201 0202 0203 0204 0205 0208 0209 0210 0211 0212 0213 0215
+  0216 0217 0218 0219 0220 0221 0225 0230 0235 0240 9901 9910 9913 9914 9915 9918 9919 9920 9922 9923
+  9924 9925 9926 9927 9928 9929 9930 9931 9932 9933 9934 9935 9936 9937 9938 9939 9940 9941 9942 9943
+  9944 9945 9946 9947 9948 9949 9950 9951 9952 9953 9957 9959 AN AQ AS AU EM
+`);
@@ -0,0 +1,62 @@
+import { normalizeNotes } from './mentions.js';
+import type { Invoice } from './types.js';
+
+export interface CreditNoteOptions {
+  number: string;       // Numéro de l'avoir
+  date: string;         // Date d'émission de l'avoir (YYYY-MM-DD)
+  lineIds?: string[];   // Lignes à créditer (toutes si absent → avoir total)
+  reason?: string;      // Motif de l'avoir, ajouté en note
+}
+
+/**
+ * Construit un avoir (TypeCode 381) à partir d'une facture existante.
+ * Avoir total : reprend toutes les lignes, remises et charges globales.
+ * Avoir partiel : ne reprend que les lignes sélectionnées, sans remises ni charges globales.
+ * Les montants restent positifs, le type 381 portant le sens du document (EN 16931).
+ * La facture d'origine doit détailler ses lignes (profil BASIC ou supérieur).
+ */
+export function createCreditNote(original: Invoice, options: CreditNoteOptions): Invoice {
+  // MINIMUM / BASIC WL : sans lignes, les montants de l'avoir ne peuvent pas être recalculés
+  if (!original.lines.length) {
+    throw new Error(
+      `La facture ${original.number} (profil ${original.profile}) ne détaille pas ses lignes : ` +
+      'avoir impossible à déduire, fournir une facture BASIC ou supérieure'
+    );
+  }
+  const partial = !!options.lineIds?.length;
+  let lines = original.lines;
+
+  if (partial) {
+    const wanted = new Set(options.lineIds);
+    const unknown = [...wanted].filter(id => !original.lines.some(l => l.id === id));
+    if (unknown.length) {
+      throw new Error(`Ligne(s) introuvable(s) dans la facture ${original.number} : ${unknown.join(', ')}`);
+    }
+    lines = original.lines.filter(l => wanted.has(l.id));
+  }
+
+  return {
+    ...original,
+    number: options.number,
+    typeCode: '381',
+    date: options.date,
+    // Sans moyen de paiement pour porter des conditions de paiement (BT-20), l'avoir est échu à sa date (BR-CO-25)
+    dueDate: original.payment ? undefined : options.date,
+    lines,
+    allowances: partial ? undefined : original.allowances,
+    charges: partial ? undefined : original.charges,
+    prepaidAmount: undefined,
+    roundingAmount: undefined,
+    // Sans date d'échéance, des conditions de paiement sont requises (BR-CO-25)
+    payment: original.payment && {
+      ...original.payment,
+      terms: original.payment.terms ?? `Avoir à imputer sur la facture ${original.number} ou à rembourser`,
+    },
+    // Motif de l'avoir, suivi des notes codifiées de la facture (mentions légales)
+    notes: [
+      { content: options.reason ?? `Avoir ${partial ? 'partiel' : 'total'} sur facture ${original.number}` },
+      ...normalizeNotes(original.notes).filter(n => n.subjectCode),
+    ],
+    precedingInvoices: [{ number: original.number, issueDate: original.date }],
+  };
+}
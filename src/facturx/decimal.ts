@@ -0,0 +1,157 @@
+/**
+ * Arithmétique décimale exacte pour les montants, prix unitaires et quantités.
+ * Une valeur est un entier BigInt accompagné d'une échelle : 12.345 → (12345n, 3).
+ * Évite les écarts d'un centime dus aux flottants binaires (ex: 1.005 × 100 = 100.49999…).
+ * Arrondi commercial : demi-unité arrondie en s'éloignant de zéro (0.125 → 0.13, -0.125 → -0.13).
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number,
+  ) {}
+
+  static from(value: number | string | Decimal): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new Error(`Valeur décimale invalide : ${value}`);
+    }
+    // String(number) donne la plus courte écriture décimale, c'est-à-dire la valeur saisie
+    const text = String(value).trim();
+    const m = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+    if (!m || (!m[2] && !m[3])) throw new Error(`Valeur décimale invalide : ${value}`);
+
+    const [, sign, int, frac = '', exp = '0'] = m;
+    let digits = (int || '0') + frac;
+    let scale = frac.length - parseInt(exp, 10);
+    if (scale < 0) {
+      digits += '0'.repeat(-scale);
+      scale = 0;
+    }
+    return new Decimal(BigInt(digits) * (sign === '-' ? -1n : 1n), scale);
+  }
+
+  static sum(values: Array<number | Decimal>): Decimal {
+    return values.reduce<Decimal>((acc, v) => acc.plus(v), Decimal.ZERO);
+  }
+
+  plus(other: number | Decimal): Decimal {
+    const o = Decimal.from(other);
+    const scale = Math.max(this.scale, o.scale);
+    return new Decimal(this.rescaled(scale) + o.rescaled(scale), scale);
+  }
+
+  minus(other: number | Decimal): Decimal {
+    return this.plus(Decimal.from(other).negated());
+  }
+
+  times(other: number | Decimal): Decimal {
+    const o = Decimal.from(other);
+    return new Decimal(this.units * o.units, this.scale + o.scale);
+  }
+
+  /** Division arrondie à `scale` décimales. */
+  dividedBy(other: number | Decimal, scale = 10): Decimal {
+    const o = Decimal.from(other);
+    if (o.units === 0n) throw new Error('Division par zéro');
+    // this / o = (this.units × 10^(scale + o.scale − this.scale)) / o.units, à l'échelle `scale`
+    const shift = scale + o.scale - this.scale;
+    const numerator = shift >= 0 ? this.units * 10n ** BigInt(shift) : this.units;
+    const denominator = shift >= 0 ? o.units : o.units * 10n ** BigInt(-shift);
+    return new Decimal(divideRounded(numerator, denominator), scale);
+  }
+
+  /** Applique un pourcentage : this × rate / 100, sans perte. */
+  percent(rate: number | Decimal): Decimal {
+    const product = this.times(rate);
+    return new Decimal(product.units, product.scale + 2);
+  }
+
+  round(scale = 2): Decimal {
+    if (this.scale <= scale) return this;
+    return new Decimal(divideRounded(this.units, 10n ** BigInt(this.scale - scale)), scale);
+  }
+
+  negated(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.negated() : this;
+  }
+
+  compare(other: number | Decimal): -1 | 0 | 1 {
+    const o = Decimal.from(other);
+    const scale = Math.max(this.scale, o.scale);
+    const a = this.rescaled(scale);
+    const b = o.rescaled(scale);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  equals(other: number | Decimal): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /** Nombre de décimales significatives (zéros de fin exclus). */
+  decimalPlaces(): number {
+    return this.trimmed().scale;
+  }
+
+  /** Écriture à exactement `scale` décimales, après arrondi. */
+  toFixed(scale = 2): string {
+    const rounded = this.round(scale);
+    return format(rounded.rescaled(scale), scale);
+  }
+
+  /** Écriture sans zéros de fin, avec au moins `minScale` décimales. */
+  toString(minScale = 0): string {
+    const t = this.trimmed();
+    const scale = Math.max(t.scale, minScale);
+    return format(t.rescaled(scale), scale);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  private rescaled(scale: number): bigint {
+    return this.units * 10n ** BigInt(scale - this.scale);
+  }
+
+  private trimmed(): Decimal {
+    let { units, scale } = this;
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    return new Decimal(units, scale);
+  }
+}
+
+// Division entière arrondie à la demi-unité en s'éloignant de zéro
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  let q = n / d;
+  if ((n % d) * 2n >= d) q += 1n;
+  return negative ? -q : q;
+}
+
+function format(units: bigint, scale: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const int = digits.slice(0, digits.length - scale);
+  const frac = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+  return `${negative ? '-' : ''}${int}${frac}`;
+}
+
+/** Montant monétaire arrondi au centime. */
+export function money(value: number | Decimal): Decimal {
+  return Decimal.from(value).round(2);
+}
@@ -1,5 +1,22 @@
 import { create } from 'xmlbuilder2';
-import type { Invoice, InvoiceTotals, VatSummary } from './types.js';
+import { Decimal, money } from './decimal.js';
+import { frenchIdentifierScheme, normalizeIdentifier } from './identifiers.js';
+import { normalizeNotes } from './mentions.js';
+import { CIUS_GUIDELINES, PEPPOL_BUSINESS_PROCESS, profileAllows } from './profiles.js';
+import type {
+  AllowanceCharge,
+  BillingPeriod,
+  FacturXProfile,
+  Invoice,
+  InvoiceLine,
+  InvoiceTotals,
+  LineAllowanceCharge,
+  TradeParty,
+  TradePartyAddress,
+  VatSummary,
+} from './types.js';
+
+type XmlNode = ReturnType<typeof create>;
 
 const PROFILE_URNS: Record<string, string> = {
   MINIMUM:  'urn:factur-x.eu:1p0:minimum',
@@ -7,6 +24,7 @@ const PROFILE_URNS: Record<string, string> = {
   BASIC:    'urn:factur-x.eu:1p0:basic',
   EN_16931: 'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:en16931',
   EXTENDED: 'urn:cen.eu:en16931:2017#conformant#urn:factur-x.eu:1p0:extended',
+  ...CIUS_GUIDELINES,
 };
 
 // YYYYMMDD
@@ -14,52 +32,286 @@ function toDate8(iso: string): string {
   return iso.replace(/-/g, '');
 }
 
-function fmt(n: number): string {
-  return n.toFixed(2);
+// Montant : 2 décimales
+function fmt(n: number | Decimal): string {
+  return Decimal.from(n).toFixed(2);
 }
 
-export function calculateTotals(invoice: Invoice): InvoiceTotals {
-  const vatMap = new Map<string, VatSummary>();
-  let lineTotalAmount = 0;
+// Prix unitaire : 2 à 4 décimales
+function fmtPrice(n: number): string {
+  return Decimal.from(n).round(4).toString(2);
+}
 
-  for (const line of invoice.lines) {
-    const lineTotal = Math.round(line.totalAmount * 100) / 100;
-    lineTotalAmount += lineTotal;
+// Quantité : jusqu'à 4 décimales
+function fmtQuantity(n: number): string {
+  return Decimal.from(n).round(4).toString();
+}
+
+/** Montant d'une remise/charge : montant explicite, sinon assiette × pourcentage. */
+export function allowanceChargeAmount(ac: LineAllowanceCharge): Decimal {
+  if (typeof ac.amount === 'number') return money(ac.amount);
+  return money(Decimal.from(ac.baseAmount ?? 0).percent(ac.percentage ?? 0));
+}
+
+/** Montant net attendu d'une ligne : quantité × prix net / quantité de base − remises + charges. */
+export function computeLineNetAmount(line: InvoiceLine): Decimal {
+  const base = money(
+    Decimal.from(line.quantity).times(line.unitPrice).dividedBy(line.priceBaseQuantity || 1)
+  );
+  return base
+    .minus(Decimal.sum((line.allowances ?? []).map(allowanceChargeAmount)))
+    .plus(Decimal.sum((line.charges ?? []).map(allowanceChargeAmount)));
+}
+
+/**
+ * Complète le montant net (BT-131) des lignes qui ne le fournissent pas,
+ * calculé à partir de la quantité, du prix et des remises / charges de ligne.
+ */
+export function withLineNetAmounts(invoice: Invoice): Invoice {
+  const missing = (line: InvoiceLine) =>
+    typeof line.totalAmount !== 'number' && typeof line.quantity === 'number' && typeof line.unitPrice === 'number';
+  if (!invoice.lines?.some(missing)) return invoice;
+  return {
+    ...invoice,
+    lines: invoice.lines.map(line =>
+      missing(line) ? { ...line, totalAmount: computeLineNetAmount(line).toNumber() } : line
+    ),
+  };
+}
+
+function appendAllowanceCharge(
+  parent: XmlNode,
+  ac: LineAllowanceCharge | AllowanceCharge,
+  isCharge: boolean,
+): void {
+  const el = parent.ele('ram:SpecifiedTradeAllowanceCharge');
+  el.ele('ram:ChargeIndicator')
+    .ele('udt:Indicator').txt(String(isCharge)).up()
+  .up();
+  if (typeof ac.percentage === 'number') el.ele('ram:CalculationPercent').txt(String(ac.percentage)).up();
+  if (typeof ac.baseAmount === 'number') el.ele('ram:BasisAmount').txt(fmt(ac.baseAmount)).up();
+  el.ele('ram:ActualAmount').txt(fmt(allowanceChargeAmount(ac))).up();
+  if (ac.reasonCode) el.ele('ram:ReasonCode').txt(ac.reasonCode).up();
+  if (ac.reason)     el.ele('ram:Reason').txt(ac.reason).up();
+  if ('vatCategory' in ac) {
+    const tax = el.ele('ram:CategoryTradeTax');
+    tax.ele('ram:TypeCode').txt('VAT').up();
+    tax.ele('ram:CategoryCode').txt(ac.vatCategory).up();
+    if (ac.vatCategory !== 'O') tax.ele('ram:RateApplicablePercent').txt(String(ac.vatRate)).up();
+    tax.up();
+  }
+  el.up();
+}
+
+function appendBillingPeriod(parent: XmlNode, period: BillingPeriod): void {
+  const el = parent.ele('ram:BillingSpecifiedPeriod');
+  if (period.startDate) {
+    el.ele('ram:StartDateTime')
+      .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(period.startDate)).up()
+    .up();
+  }
+  if (period.endDate) {
+    el.ele('ram:EndDateTime')
+      .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(period.endDate)).up()
+    .up();
+  }
+  el.up();
+}
+
+function appendAddress(parent: XmlNode, address: TradePartyAddress): void {
+  const el = parent.ele('ram:PostalTradeAddress');
+  el.ele('ram:PostcodeCode').txt(address.postalCode).up();
+  el.ele('ram:LineOne').txt(address.street).up();
+  if (address.additionalStreet) el.ele('ram:LineTwo').txt(address.additionalStreet).up();
+  el.ele('ram:CityName').txt(address.city).up();
+  el.ele('ram:CountryID').txt(address.countryCode).up();
+  if (address.stateOrProvince) el.ele('ram:CountrySubDivisionName').txt(address.stateOrProvince).up();
+  el.up();
+}
+
+// Schéma explicite, sinon SIREN (0002) / SIRET (0009) reconnu pour un acteur français
+function identifierScheme(value: string, scheme: string | undefined, french: boolean): string | undefined {
+  return scheme || (french ? frenchIdentifierScheme(value) : undefined);
+}
+
+// Identifiant de l'acteur : GlobalID qualifié par son schéma, sinon ID simple
+function appendPartyId(parent: XmlNode, id: string, scheme: string | undefined): void {
+  if (scheme) parent.ele('ram:GlobalID', { schemeID: scheme }).txt(normalizeIdentifier(id)).up();
+  else parent.ele('ram:ID').txt(id).up();
+}
+
+function appendLegalOrganization(parent: XmlNode, legalId: string, scheme: string | undefined): void {
+  parent.ele('ram:SpecifiedLegalOrganization')
+    .ele('ram:ID', scheme ? { schemeID: scheme } : {}).txt(scheme ? normalizeIdentifier(legalId) : legalId).up()
+  .up();
+}
+
+/** Adresse électronique de l'acteur et son schéma EAS, l'email du contact à défaut. */
+function electronicAddress(party: TradeParty): { value: string; scheme?: string } | undefined {
+  if (party.electronicAddress) return { value: party.electronicAddress, scheme: party.electronicAddressScheme };
+  if (party.contact?.email) return { value: party.contact.email, scheme: 'EM' };
+  return undefined;
+}
+
+// Contact du vendeur (BG-6) ou de l'acheteur (BG-9)
+function appendContact(parent: XmlNode, contact: NonNullable<TradeParty['contact']>): void {
+  const el = parent.ele('ram:DefinedTradeContact');
+  if (contact.name) el.ele('ram:PersonName').txt(contact.name).up();
+  if (contact.phone) {
+    el.ele('ram:TelephoneUniversalCommunication')
+      .ele('ram:CompleteNumber').txt(contact.phone).up()
+    .up();
+  }
+  if (contact.email) {
+    el.ele('ram:EmailURIUniversalCommunication')
+      .ele('ram:URIID').txt(contact.email).up()
+    .up();
+  }
+  el.up();
+}
+
+/**
+ * Émet un acteur (vendeur, acheteur…) avec le niveau de détail autorisé par le profil.
+ * MINIMUM : nom, identifiant légal, pays et TVA (vendeur uniquement).
+ */
+function appendParty(
+  parent: XmlNode,
+  tag: string,
+  party: TradeParty,
+  profile: FacturXProfile,
+  role: 'seller' | 'buyer',
+): void {
+  const full = profileAllows(profile, 'BASIC_WL');
+  const french = party.address?.countryCode === 'FR';
+  const el = parent.ele(tag);
+  if (full && party.id) appendPartyId(el, party.id, identifierScheme(party.id, party.idScheme, french));
+  el.ele('ram:Name').txt(party.name).up();
+  if (party.legalId) {
+    appendLegalOrganization(el, party.legalId, identifierScheme(party.legalId, party.legalIdScheme, french));
+  }
+  if (profileAllows(profile, 'EN_16931') && party.contact && (party.contact.name || party.contact.phone || party.contact.email)) {
+    appendContact(el, party.contact);
+  }
+  if (full) {
+    appendAddress(el, party.address);
+  } else if (role === 'seller') {
+    el.ele('ram:PostalTradeAddress')
+      .ele('ram:CountryID').txt(party.address.countryCode).up()
+    .up();
+  }
+  // Adresse électronique (BT-34 / BT-49) : à défaut, l'email du contact
+  const address = electronicAddress(party);
+  if (full && address) {
+    el.ele('ram:URIUniversalCommunication')
+      .ele('ram:URIID', address.scheme ? { schemeID: address.scheme } : {}).txt(address.value).up()
+    .up();
+  }
+  if (party.vatNumber && (full || role === 'seller')) {
+    el.ele('ram:SpecifiedTaxRegistration')
+      .ele('ram:ID', { schemeID: 'VA' }).txt(party.vatNumber).up()
+    .up();
+  }
+  el.up();
+}
+
+interface VatAccumulator {
+  summary: VatSummary;
+  basis: Decimal;
+  lineTax: Decimal; // Somme des TVA arrondies par ligne (mode 'line')
+}
 
-    const key = `${line.vatCategory}-${line.vatRate}`;
+/**
+ * Calcule les totaux en arithmétique décimale exacte.
+ * TVA arrondie par catégorie (défaut, EN 16931 BR-CO-17) ou par ligne selon `vatRoundingMode`.
+ */
+export function calculateTotals(invoice: Invoice): InvoiceTotals {
+  const perLine = invoice.vatRoundingMode === 'line';
+  const vatMap = new Map<string, VatAccumulator>();
+
+  const addToVat = (categoryCode: VatSummary['categoryCode'], rate: number, amount: Decimal) => {
+    const key = `${categoryCode}-${rate}`;
     if (!vatMap.has(key)) {
       vatMap.set(key, {
-        categoryCode: line.vatCategory,
-        rate: line.vatRate,
-        taxableAmount: 0,
-        taxAmount: 0,
+        summary: { categoryCode, rate, taxableAmount: 0, taxAmount: 0 },
+        basis: Decimal.ZERO,
+        lineTax: Decimal.ZERO,
       });
     }
-    vatMap.get(key)!.taxableAmount += lineTotal;
+    const entry = vatMap.get(key)!;
+    entry.basis = entry.basis.plus(amount);
+    if (perLine) entry.lineTax = entry.lineTax.plus(money(amount.percent(rate)));
+  };
+
+  let lineTotal = Decimal.ZERO;
+  for (const line of invoice.lines) {
+    const amount = money(line.totalAmount);
+    lineTotal = lineTotal.plus(amount);
+    addToVat(line.vatCategory, line.vatRate, amount);
   }
 
-  for (const vat of vatMap.values()) {
-    vat.taxableAmount = Math.round(vat.taxableAmount * 100) / 100;
-    vat.taxAmount = Math.round(vat.taxableAmount * vat.rate / 100 * 100) / 100;
+  // Remises et charges globales : ajustent l'assiette de leur catégorie TVA
+  let allowanceTotal = Decimal.ZERO;
+  for (const allowance of invoice.allowances ?? []) {
+    const amount = allowanceChargeAmount(allowance);
+    allowanceTotal = allowanceTotal.plus(amount);
+    addToVat(allowance.vatCategory, allowance.vatRate, amount.negated());
+  }
+  let chargeTotal = Decimal.ZERO;
+  for (const charge of invoice.charges ?? []) {
+    const amount = allowanceChargeAmount(charge);
+    chargeTotal = chargeTotal.plus(amount);
+    addToVat(charge.vatCategory, charge.vatRate, amount);
   }
 
-  const taxTotal = [...vatMap.values()].reduce((s, v) => s + v.taxAmount, 0);
-  lineTotalAmount = Math.round(lineTotalAmount * 100) / 100;
-  const grandTotal = Math.round((lineTotalAmount + taxTotal) * 100) / 100;
+  let taxTotal = Decimal.ZERO;
+  for (const { summary, basis, lineTax } of vatMap.values()) {
+    const taxable = money(basis);
+    const tax = perLine ? lineTax : money(taxable.percent(summary.rate));
+    taxTotal = taxTotal.plus(tax);
+    summary.taxableAmount = taxable.toNumber();
+    summary.taxAmount = tax.toNumber();
+    const exemption = invoice.vatExemptions?.find(e => e.categoryCode === summary.categoryCode);
+    if (exemption?.reason)     summary.exemptionReason = exemption.reason;
+    if (exemption?.reasonCode) summary.exemptionReasonCode = exemption.reasonCode;
+  }
+
+  const taxBasisTotal = lineTotal.minus(allowanceTotal).plus(chargeTotal);
+  const grandTotal = taxBasisTotal.plus(taxTotal);
+  // Acompte et arrondi ne sont retenus que si le profil permet de les émettre
+  const prepaid = profileAllows(invoice.profile, 'BASIC_WL') ? money(invoice.prepaidAmount ?? 0) : Decimal.ZERO;
+  const rounding = profileAllows(invoice.profile, 'EN_16931') ? money(invoice.roundingAmount ?? 0) : Decimal.ZERO;
+
+  // Total TVA en devise de comptabilisation (BT-111)
+  let taxTotalAmountInTaxCurrency: number | undefined;
+  if (invoice.taxCurrency && invoice.taxCurrency !== invoice.currency) {
+    if (typeof invoice.taxTotalInTaxCurrency === 'number') {
+      taxTotalAmountInTaxCurrency = money(invoice.taxTotalInTaxCurrency).toNumber();
+    } else if (invoice.exchangeRate) {
+      taxTotalAmountInTaxCurrency = money(taxTotal.times(invoice.exchangeRate)).toNumber();
+    }
+  }
 
   return {
-    lineTotalAmount,
-    taxBasisTotalAmount: lineTotalAmount,
-    taxTotalAmount: Math.round(taxTotal * 100) / 100,
-    grandTotalAmount: grandTotal,
-    duePayableAmount: grandTotal,
-    vatSummaries: [...vatMap.values()],
+    lineTotalAmount: lineTotal.toNumber(),
+    allowanceTotalAmount: allowanceTotal.toNumber(),
+    chargeTotalAmount: chargeTotal.toNumber(),
+    taxBasisTotalAmount: taxBasisTotal.toNumber(),
+    taxTotalAmount: taxTotal.toNumber(),
+    taxTotalAmountInTaxCurrency,
+    grandTotalAmount: grandTotal.toNumber(),
+    prepaidAmount: prepaid.toNumber(),
+    roundingAmount: rounding.toNumber(),
+    duePayableAmount: grandTotal.minus(prepaid).plus(rounding).toNumber(),
+    vatSummaries: [...vatMap.values()].map(e => e.summary),
   };
 }
 
 export function generateFacturX(invoice: Invoice): string {
   const totals = calculateTotals(invoice);
-  const profileUrn = PROFILE_URNS[invoice.profile] ?? PROFILE_URNS.EN_16931;
+  const profile = invoice.profile;
+  const profileUrn = PROFILE_URNS[profile] ?? PROFILE_URNS.EN_16931;
+  const basicWl = profileAllows(profile, 'BASIC_WL');
+  const en16931 = profileAllows(profile, 'EN_16931');
 
   const root = create({ version: '1.0', encoding: 'UTF-8' })
     .ele('rsm:CrossIndustryInvoice', {
@@ -71,11 +323,16 @@ export function generateFacturX(invoice: Invoice): string {
     });
 
   // ── ExchangedDocumentContext ──────────────────────────────────────────
-  root.ele('rsm:ExchangedDocumentContext')
-    .ele('ram:GuidelineSpecifiedDocumentContextParameter')
-      .ele('ram:ID').txt(profileUrn).up()
-    .up()
+  const context = root.ele('rsm:ExchangedDocumentContext');
+  if (profile === 'PEPPOL_BIS') {
+    context.ele('ram:BusinessProcessSpecifiedDocumentContextParameter')
+      .ele('ram:ID').txt(PEPPOL_BUSINESS_PROCESS).up()
+    .up();
+  }
+  context.ele('ram:GuidelineSpecifiedDocumentContextParameter')
+    .ele('ram:ID').txt(profileUrn).up()
   .up();
+  context.up();
 
   // ── ExchangedDocument ─────────────────────────────────────────────────
   const doc = root.ele('rsm:ExchangedDocument');
@@ -84,18 +341,20 @@ export function generateFacturX(invoice: Invoice): string {
   doc.ele('ram:IssueDateTime')
     .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(invoice.date)).up()
   .up();
-  if (invoice.notes) {
-    doc.ele('ram:IncludedNote')
-      .ele('ram:Content').txt(invoice.notes).up()
-    .up();
+  for (const note of basicWl ? normalizeNotes(invoice.notes) : []) {
+    const el = doc.ele('ram:IncludedNote');
+    el.ele('ram:Content').txt(note.content).up();
+    if (note.subjectCode) el.ele('ram:SubjectCode').txt(note.subjectCode).up();
+    el.up();
   }
   doc.up();
 
   // ── SupplyChainTradeTransaction ───────────────────────────────────────
   const trx = root.ele('rsm:SupplyChainTradeTransaction');
 
-  // Lignes de facture
-  for (const line of invoice.lines) {
+  // Lignes de facture (absentes des profils MINIMUM et BASIC_WL)
+  const lines = profileAllows(profile, 'BASIC') ? invoice.lines : [];
+  for (const line of lines) {
     const li = trx.ele('ram:IncludedSupplyChainTradeLineItem');
 
     li.ele('ram:AssociatedDocumentLineDocument')
@@ -103,33 +362,51 @@ export function generateFacturX(invoice: Invoice): string {
     .up();
 
     const product = li.ele('ram:SpecifiedTradeProduct');
-    if (line.productId)      product.ele('ram:SellerAssignedID').txt(line.productId).up();
-    if (line.buyerProductId) product.ele('ram:BuyerAssignedID').txt(line.buyerProductId).up();
+    if (en16931 && line.productId)      product.ele('ram:SellerAssignedID').txt(line.productId).up();
+    if (en16931 && line.buyerProductId) product.ele('ram:BuyerAssignedID').txt(line.buyerProductId).up();
     product.ele('ram:Name').txt(line.description).up();
-    if (line.note) product.ele('ram:Description').txt(line.note).up();
+    if (en16931 && line.note) product.ele('ram:Description').txt(line.note).up();
     product.up();
 
-    li.ele('ram:SpecifiedLineTradeAgreement')
-      .ele('ram:NetPriceProductTradePrice')
-        .ele('ram:ChargeAmount').txt(fmt(line.unitPrice)).up()
-        .ele('ram:BasisQuantity', { unitCode: line.unitCode }).txt('1').up()
-      .up()
+    const basisQuantity = fmtQuantity(line.priceBaseQuantity ?? 1);
+    const lineAgreement = li.ele('ram:SpecifiedLineTradeAgreement');
+    if (typeof line.grossPrice === 'number') {
+      const gross = lineAgreement.ele('ram:GrossPriceProductTradePrice');
+      gross.ele('ram:ChargeAmount').txt(fmtPrice(line.grossPrice)).up();
+      gross.ele('ram:BasisQuantity', { unitCode: line.unitCode }).txt(basisQuantity).up();
+      if (line.priceDiscount) {
+        gross.ele('ram:AppliedTradeAllowanceCharge')
+          .ele('ram:ChargeIndicator')
+            .ele('udt:Indicator').txt('false').up()
+          .up()
+          .ele('ram:ActualAmount').txt(fmtPrice(line.priceDiscount)).up()
+        .up();
+      }
+      gross.up();
+    }
+    lineAgreement.ele('ram:NetPriceProductTradePrice')
+      .ele('ram:ChargeAmount').txt(fmtPrice(line.unitPrice)).up()
+      .ele('ram:BasisQuantity', { unitCode: line.unitCode }).txt(basisQuantity).up()
     .up();
+    lineAgreement.up();
 
     li.ele('ram:SpecifiedLineTradeDelivery')
-      .ele('ram:BilledQuantity', { unitCode: line.unitCode }).txt(String(line.quantity)).up()
+      .ele('ram:BilledQuantity', { unitCode: line.unitCode }).txt(fmtQuantity(line.quantity)).up()
     .up();
 
-    li.ele('ram:SpecifiedLineTradeSettlement')
-      .ele('ram:ApplicableTradeTax')
-        .ele('ram:TypeCode').txt('VAT').up()
-        .ele('ram:CategoryCode').txt(line.vatCategory).up()
-        .ele('ram:RateApplicablePercent').txt(String(line.vatRate)).up()
-      .up()
-      .ele('ram:SpecifiedTradeSettlementLineMonetarySummation')
-        .ele('ram:LineTotalAmount').txt(fmt(line.totalAmount)).up()
-      .up()
+    const lineSettlement = li.ele('ram:SpecifiedLineTradeSettlement');
+    const lineTax = lineSettlement.ele('ram:ApplicableTradeTax');
+    lineTax.ele('ram:TypeCode').txt('VAT').up();
+    lineTax.ele('ram:CategoryCode').txt(line.vatCategory).up();
+    if (line.vatCategory !== 'O') lineTax.ele('ram:RateApplicablePercent').txt(String(line.vatRate)).up();
+    lineTax.up();
+    if (line.billingPeriod) appendBillingPeriod(lineSettlement, line.billingPeriod);
+    for (const a of line.allowances ?? []) appendAllowanceCharge(lineSettlement, a, false);
+    for (const c of line.charges ?? [])    appendAllowanceCharge(lineSettlement, c, true);
+    lineSettlement.ele('ram:SpecifiedTradeSettlementLineMonetarySummation')
+      .ele('ram:LineTotalAmount').txt(fmt(line.totalAmount)).up()
     .up();
+    lineSettlement.up();
 
     li.up();
   }
@@ -139,75 +416,60 @@ export function generateFacturX(invoice: Invoice): string {
 
   if (invoice.buyerRef) agreement.ele('ram:BuyerReference').txt(invoice.buyerRef).up();
 
-  // Vendeur
-  const seller = agreement.ele('ram:SellerTradeParty');
-  if (invoice.seller.id) seller.ele('ram:ID').txt(invoice.seller.id).up();
-  seller.ele('ram:Name').txt(invoice.seller.name).up();
-  if (invoice.seller.legalId) {
-    seller.ele('ram:SpecifiedLegalOrganization')
-      .ele('ram:ID').txt(invoice.seller.legalId).up()
+  appendParty(agreement, 'ram:SellerTradeParty', invoice.seller, profile, 'seller');
+  appendParty(agreement, 'ram:BuyerTradeParty', invoice.buyer, profile, 'buyer');
+
+  // Représentant fiscal du vendeur
+  const taxRep = basicWl ? invoice.sellerTaxRepresentative : undefined;
+  if (taxRep) {
+    const rep = agreement.ele('ram:SellerTaxRepresentativeTradeParty');
+    rep.ele('ram:Name').txt(taxRep.name).up();
+    appendAddress(rep, taxRep.address);
+    rep.ele('ram:SpecifiedTaxRegistration')
+      .ele('ram:ID', { schemeID: 'VA' }).txt(taxRep.vatNumber).up()
     .up();
+    rep.up();
   }
-  if (invoice.seller.vatNumber) {
-    seller.ele('ram:SpecifiedTaxRegistration')
-      .ele('ram:ID', { schemeID: 'VA' }).txt(invoice.seller.vatNumber).up()
-    .up();
-  }
-  seller.ele('ram:PostalTradeAddress')
-    .ele('ram:PostcodeCode').txt(invoice.seller.address.postalCode).up()
-    .ele('ram:LineOne').txt(invoice.seller.address.street).up()
-    .ele('ram:CityName').txt(invoice.seller.address.city).up()
-    .ele('ram:CountryID').txt(invoice.seller.address.countryCode).up()
-  .up();
-  if (invoice.seller.contact?.email) {
-    seller.ele('ram:URIUniversalCommunication')
-      .ele('ram:URIID', { schemeID: 'EM' }).txt(invoice.seller.contact.email).up()
-    .up();
-  }
-  seller.up();
-
-  // Acheteur
-  const buyer = agreement.ele('ram:BuyerTradeParty');
-  if (invoice.buyer.id) buyer.ele('ram:ID').txt(invoice.buyer.id).up();
-  buyer.ele('ram:Name').txt(invoice.buyer.name).up();
-  if (invoice.buyer.legalId) {
-    buyer.ele('ram:SpecifiedLegalOrganization')
-      .ele('ram:ID').txt(invoice.buyer.legalId).up()
-    .up();
-  }
-  if (invoice.buyer.vatNumber) {
-    buyer.ele('ram:SpecifiedTaxRegistration')
-      .ele('ram:ID', { schemeID: 'VA' }).txt(invoice.buyer.vatNumber).up()
-    .up();
-  }
-  buyer.ele('ram:PostalTradeAddress')
-    .ele('ram:PostcodeCode').txt(invoice.buyer.address.postalCode).up()
-    .ele('ram:LineOne').txt(invoice.buyer.address.street).up()
-    .ele('ram:CityName').txt(invoice.buyer.address.city).up()
-    .ele('ram:CountryID').txt(invoice.buyer.address.countryCode).up()
-  .up();
-  if (invoice.buyer.contact?.email) {
-    buyer.ele('ram:URIUniversalCommunication')
-      .ele('ram:URIID', { schemeID: 'EM' }).txt(invoice.buyer.contact.email).up()
-    .up();
-  }
-  buyer.up();
 
   if (invoice.purchaseOrderRef) {
     agreement.ele('ram:BuyerOrderReferencedDocument')
       .ele('ram:IssuerAssignedID').txt(invoice.purchaseOrderRef).up()
     .up();
   }
-  if (invoice.contractRef) {
+  if (basicWl && invoice.contractRef) {
     agreement.ele('ram:ContractReferencedDocument')
       .ele('ram:IssuerAssignedID').txt(invoice.contractRef).up()
     .up();
   }
+
+  // Justificatifs additionnels (TypeCode 916 = document de référence)
+  for (const doc of en16931 ? invoice.supportingDocuments ?? [] : []) {
+    const ref = agreement.ele('ram:AdditionalReferencedDocument');
+    ref.ele('ram:IssuerAssignedID').txt(doc.id).up();
+    if (doc.uri) ref.ele('ram:URIID').txt(doc.uri).up();
+    ref.ele('ram:TypeCode').txt('916').up();
+    if (doc.description) ref.ele('ram:Name').txt(doc.description).up();
+    if (doc.attachment) {
+      ref.ele('ram:AttachmentBinaryObject', {
+        mimeCode: doc.attachment.mimeCode,
+        filename: doc.attachment.filename,
+      }).txt(doc.attachment.content.replace(/\s+/g, '')).up();
+    }
+    ref.up();
+  }
   agreement.up();
 
   // ── ApplicableHeaderTradeDelivery ─────────────────────────────────────
   const delivery = trx.ele('ram:ApplicableHeaderTradeDelivery');
-  if (invoice.deliveryDate) {
+  const shipTo = basicWl ? invoice.shipTo : undefined;
+  if (shipTo) {
+    const party = delivery.ele('ram:ShipToTradeParty');
+    if (shipTo.locationId) party.ele('ram:ID').txt(shipTo.locationId).up();
+    if (shipTo.name)       party.ele('ram:Name').txt(shipTo.name).up();
+    if (shipTo.address)    appendAddress(party, shipTo.address);
+    party.up();
+  }
+  if (basicWl && invoice.deliveryDate) {
     delivery.ele('ram:ActualDeliverySupplyChainEvent')
       .ele('ram:OccurrenceDateTime')
         .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(invoice.deliveryDate)).up()
@@ -219,19 +481,32 @@ export function generateFacturX(invoice: Invoice): string {
   // ── ApplicableHeaderTradeSettlement ───────────────────────────────────
   const settlement = trx.ele('ram:ApplicableHeaderTradeSettlement');
 
-  if (invoice.payment?.reference) {
+  if (basicWl && invoice.payment?.reference) {
     settlement.ele('ram:PaymentReference').txt(invoice.payment.reference).up();
   }
+  const taxCurrency = basicWl && totals.taxTotalAmountInTaxCurrency !== undefined ? invoice.taxCurrency : undefined;
+  if (taxCurrency) settlement.ele('ram:TaxCurrencyCode').txt(taxCurrency).up();
   settlement.ele('ram:InvoiceCurrencyCode').txt(invoice.currency).up();
 
-  if (invoice.payment) {
+  // Bénéficiaire du paiement (si différent du vendeur)
+  const payee = basicWl ? invoice.payee : undefined;
+  if (payee) {
+    const party = settlement.ele('ram:PayeeTradeParty');
+    // Bénéficiaire sans adresse ni pays : schémas des identifiants seulement s'ils sont fournis
+    if (payee.id) appendPartyId(party, payee.id, payee.idScheme);
+    party.ele('ram:Name').txt(payee.name).up();
+    if (payee.legalId) appendLegalOrganization(party, payee.legalId, payee.legalIdScheme);
+    party.up();
+  }
+
+  if (basicWl && invoice.payment) {
     const means = settlement.ele('ram:SpecifiedTradeSettlementPaymentMeans');
     means.ele('ram:TypeCode').txt(invoice.payment.meansCode).up();
     if (invoice.payment.iban) {
       means.ele('ram:PayeePartyCreditorFinancialAccount')
         .ele('ram:IBANID').txt(invoice.payment.iban.replace(/\s/g, '')).up()
       .up();
-      if (invoice.payment.bic) {
+      if (en16931 && invoice.payment.bic) {
         means.ele('ram:PayeeSpecifiedCreditorFinancialInstitution')
           .ele('ram:BICID').txt(invoice.payment.bic).up()
         .up();
@@ -240,40 +515,80 @@ export function generateFacturX(invoice: Invoice): string {
     means.up();
   }
 
-  // Ventilation TVA par taux
-  for (const vat of totals.vatSummaries) {
-    settlement.ele('ram:ApplicableTradeTax')
-      .ele('ram:CalculatedAmount').txt(fmt(vat.taxAmount)).up()
-      .ele('ram:TypeCode').txt('VAT').up()
-      .ele('ram:BasisAmount').txt(fmt(vat.taxableAmount)).up()
-      .ele('ram:CategoryCode').txt(vat.categoryCode).up()
-      .ele('ram:RateApplicablePercent').txt(String(vat.rate)).up()
-    .up();
-  }
+  if (basicWl) {
+    // Ventilation TVA par catégorie et taux
+    for (const vat of totals.vatSummaries) {
+      const tax = settlement.ele('ram:ApplicableTradeTax');
+      tax.ele('ram:CalculatedAmount').txt(fmt(vat.taxAmount)).up();
+      tax.ele('ram:TypeCode').txt('VAT').up();
+      if (vat.exemptionReason) tax.ele('ram:ExemptionReason').txt(vat.exemptionReason).up();
+      tax.ele('ram:BasisAmount').txt(fmt(vat.taxableAmount)).up();
+      tax.ele('ram:CategoryCode').txt(vat.categoryCode).up();
+      if (vat.exemptionReasonCode) tax.ele('ram:ExemptionReasonCode').txt(vat.exemptionReasonCode).up();
+      // Hors champ (O) : pas de taux (BR-O-05)
+      if (vat.categoryCode !== 'O') tax.ele('ram:RateApplicablePercent').txt(String(vat.rate)).up();
+      tax.up();
+    }
 
-  // Conditions de paiement / échéance
-  if (invoice.dueDate || invoice.payment?.terms) {
-    const terms = settlement.ele('ram:SpecifiedTradePaymentTerms');
-    if (invoice.payment?.terms) terms.ele('ram:Description').txt(invoice.payment.terms).up();
-    if (invoice.dueDate) {
-      terms.ele('ram:DueDateDateTime')
-        .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(invoice.dueDate)).up()
-      .up();
+    if (invoice.billingPeriod) appendBillingPeriod(settlement, invoice.billingPeriod);
+
+    // Remises et charges globales
+    const allowanceCharges: Array<[AllowanceCharge, boolean]> = [
+      ...(invoice.allowances ?? []).map((a): [AllowanceCharge, boolean] => [a, false]),
+      ...(invoice.charges ?? []).map((c): [AllowanceCharge, boolean] => [c, true]),
+    ];
+    for (const [ac, isCharge] of allowanceCharges) appendAllowanceCharge(settlement, ac, isCharge);
+
+    // Conditions de paiement / échéance
+    if (invoice.dueDate || invoice.payment?.terms) {
+      const terms = settlement.ele('ram:SpecifiedTradePaymentTerms');
+      if (invoice.payment?.terms) terms.ele('ram:Description').txt(invoice.payment.terms).up();
+      if (invoice.dueDate) {
+        terms.ele('ram:DueDateDateTime')
+          .ele('udt:DateTimeString', { format: '102' }).txt(toDate8(invoice.dueDate)).up()
+        .up();
+      }
+      terms.up();
     }
-    terms.up();
   }
 
-  // Totaux
-  settlement.ele('ram:SpecifiedTradeSettlementHeaderMonetarySummation')
-    .ele('ram:LineTotalAmount').txt(fmt(totals.lineTotalAmount)).up()
+  // Totaux (MINIMUM : uniquement les montants obligatoires)
+  const summation = settlement.ele('ram:SpecifiedTradeSettlementHeaderMonetarySummation');
+  if (basicWl) {
+    summation.ele('ram:LineTotalAmount').txt(fmt(totals.lineTotalAmount)).up();
+    if (invoice.charges?.length)    summation.ele('ram:ChargeTotalAmount').txt(fmt(totals.chargeTotalAmount)).up();
+    if (invoice.allowances?.length) summation.ele('ram:AllowanceTotalAmount').txt(fmt(totals.allowanceTotalAmount)).up();
+  }
+  summation
     .ele('ram:TaxBasisTotalAmount').txt(fmt(totals.taxBasisTotalAmount)).up()
-    .ele('ram:TaxTotalAmount', { currencyID: invoice.currency }).txt(fmt(totals.taxTotalAmount)).up()
-    .ele('ram:GrandTotalAmount').txt(fmt(totals.grandTotalAmount)).up()
-    .ele('ram:DuePayableAmount').txt(fmt(totals.duePayableAmount)).up()
-  .up();
+    .ele('ram:TaxTotalAmount', { currencyID: invoice.currency }).txt(fmt(totals.taxTotalAmount)).up();
+  if (taxCurrency) {
+    summation.ele('ram:TaxTotalAmount', { currencyID: taxCurrency }).txt(fmt(totals.taxTotalAmountInTaxCurrency!)).up();
+  }
+  if (en16931 && invoice.roundingAmount) summation.ele('ram:RoundingAmount').txt(fmt(totals.roundingAmount)).up();
+  summation.ele('ram:GrandTotalAmount').txt(fmt(totals.grandTotalAmount)).up();
+  if (basicWl && invoice.prepaidAmount) summation.ele('ram:TotalPrepaidAmount').txt(fmt(totals.prepaidAmount)).up();
+  summation.ele('ram:DuePayableAmount').txt(fmt(totals.duePayableAmount)).up();
+  summation.up();
+
+  // Factures antérieures référencées (avoirs)
+  const precedingInvoices = basicWl ? invoice.precedingInvoices ?? [] : [];
+  for (const ref of precedingInvoices) {
+    const refDoc = settlement.ele('ram:InvoiceReferencedDocument');
+    refDoc.ele('ram:IssuerAssignedID').txt(ref.number).up();
+    if (ref.issueDate) {
+      refDoc.ele('ram:FormattedIssueDateTime')
+        .ele('qdt:DateTimeString', { format: '102' }).txt(toDate8(ref.issueDate)).up()
+      .up();
+    }
+    refDoc.up();
+  }
 
   settlement.up();
   trx.up();
 
   return root.end({ prettyPrint: true });
 }
+
+// Formats, schémas d'identifiants et adresse électronique partagés avec la syntaxe UBL (ubl.ts)
+export { fmt as formatAmount, fmtPrice as formatPrice, fmtQuantity as formatQuantity, identifierScheme, electronicAddress };
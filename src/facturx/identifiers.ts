@@ -0,0 +1,61 @@
+/**
+ * Identifiants d'entreprise français : SIREN (9 chiffres) et SIRET (14 chiffres).
+ * Codes de schéma ISO 6523 utilisés par le CIUS français : 0002 = SIREN, 0009 = SIRET.
+ */
+export const SCHEME_SIREN = '0002';
+export const SCHEME_SIRET = '0009';
+
+// SIREN du groupe La Poste : ses SIRET ne respectent pas la clé de Luhn
+const LA_POSTE_SIREN = '356000000';
+
+/** Retire les espaces et points de mise en forme (ex: "732 829 320"). */
+export function normalizeIdentifier(value: string): string {
+  return value.replace(/[\s.]/g, '');
+}
+
+/** Clé de Luhn : SIREN, SIRET et numéros de TVA IT / SE. */
+export function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+export function isValidSiren(value: string): boolean {
+  const siren = normalizeIdentifier(value);
+  return /^\d{9}$/.test(siren) && luhn(siren);
+}
+
+export function isValidSiret(value: string): boolean {
+  const siret = normalizeIdentifier(value);
+  if (!/^\d{14}$/.test(siret)) return false;
+  // Établissements La Poste : somme des chiffres multiple de 5
+  if (siret.startsWith(LA_POSTE_SIREN) && siret !== `${LA_POSTE_SIREN}00048`) {
+    const sum = [...siret].reduce((s, d) => s + Number(d), 0);
+    return sum % 5 === 0;
+  }
+  return luhn(siret);
+}
+
+/** Clé du numéro de TVA français : (12 + 3 × (SIREN mod 97)) mod 97, sur 2 chiffres. */
+export function frenchVatKey(siren: string): string {
+  const key = (12 + 3 * (Number(normalizeIdentifier(siren)) % 97)) % 97;
+  return String(key).padStart(2, '0');
+}
+
+/**
+ * Code de schéma d'un identifiant français, déduit de sa forme :
+ * 9 chiffres → SIREN (0002), 14 chiffres → SIRET (0009). undefined sinon (RCS, identifiant étranger…).
+ */
+export function frenchIdentifierScheme(value: string): string | undefined {
+  const id = normalizeIdentifier(value);
+  if (/^\d{9}$/.test(id)) return SCHEME_SIREN;
+  if (/^\d{14}$/.test(id)) return SCHEME_SIRET;
+  return undefined;
+}
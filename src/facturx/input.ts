@@ -0,0 +1,44 @@
+import { withLineNetAmounts } from './generator.js';
+import { addFrenchLegalMentions } from './mentions.js';
+import { profileAllows } from './profiles.js';
+import { convertTtcPrices, type TtcConversion } from './ttc.js';
+import type { Invoice, InvoiceNote, ValidationResult } from './types.js';
+import { validateInvoice } from './validator.js';
+
+/** Options de saisie des données de facture communes aux outils de validation et de génération. */
+export interface InvoiceInputOptions {
+  priceMode?: 'HT' | 'TTC';
+  addLegalMentions?: boolean;
+}
+
+/** Facture saisie complétée, avec le résultat de sa validation. */
+export interface CompletedInvoice {
+  invoice: Invoice;
+  validation: ValidationResult;
+  ttc?: TtcConversion;           // Conversion des prix saisis TTC
+  addedMentions: InvoiceNote[];  // Mentions légales ajoutées
+}
+
+/**
+ * Complète une facture saisie comme pour sa génération : type et profil par défaut,
+ * prix TTC convertis ou montants de ligne calculés, mentions légales françaises ; puis la valide.
+ * Une facture TTC sans lignes n'est pas convertie : la validation signale l'absence de lignes.
+ */
+export function completeInvoice(input: Invoice, { priceMode, addLegalMentions = true }: InvoiceInputOptions = {}): CompletedInvoice {
+  let invoice: Invoice = { ...input, typeCode: input.typeCode ?? '380', profile: input.profile ?? 'EN_16931' };
+
+  let ttc: TtcConversion | undefined;
+  if (priceMode === 'TTC' && invoice.lines?.length) {
+    ttc = convertTtcPrices(invoice);
+    invoice = ttc.invoice;
+  } else if (priceMode !== 'TTC') {
+    invoice = withLineNetAmounts(invoice);
+  }
+
+  let addedMentions: InvoiceNote[] = [];
+  if (addLegalMentions && profileAllows(invoice.profile, 'BASIC_WL')) {
+    ({ invoice, added: addedMentions } = addFrenchLegalMentions(invoice));
+  }
+
+  return { invoice, validation: validateInvoice(invoice), ttc, addedMentions };
+}
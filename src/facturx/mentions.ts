@@ -0,0 +1,66 @@
+import type { Invoice, InvoiceNote } from './types.js';
+
+/**
+ * Mentions obligatoires des factures B2B françaises (art. L441-9 et L441-10 du Code de commerce),
+ * portées par des notes codifiées UNTDID 4451.
+ */
+export const FRENCH_LEGAL_MENTIONS = [
+  { subjectCode: 'PMD', label: 'pénalités de retard',            pattern: /p[ée]nalit[ée]s?\s+de\s+retard/i },
+  { subjectCode: 'PMT', label: 'indemnité forfaitaire de 40 €', pattern: /indemnit[ée]\s+forfaitaire|(^|[^\d.,])40\s*(€|eur)/i },
+  { subjectCode: 'AAB', label: 'conditions d\'escompte',         pattern: /escompte/i },
+] as const;
+
+type LegalMentionCode = typeof FRENCH_LEGAL_MENTIONS[number]['subjectCode'];
+
+const DEFAULT_MENTIONS: Record<LegalMentionCode, string> = {
+  PMD: 'En cas de retard de paiement, pénalités de retard au taux directeur de la BCE majoré de 10 points (art. L441-10 du Code de commerce).',
+  PMT: 'Indemnité forfaitaire pour frais de recouvrement en cas de retard de paiement : 40 € (art. D441-5 du Code de commerce).',
+  AAB: 'Pas d\'escompte pour paiement anticipé.',
+};
+
+/** Notes de la facture sous forme de liste (une chaîne libre devient une note sans code sujet). */
+export function normalizeNotes(notes: Invoice['notes']): InvoiceNote[] {
+  if (!notes) return [];
+  if (typeof notes === 'string') return notes.trim() ? [{ content: notes }] : [];
+  return notes;
+}
+
+/**
+ * Facture entre professionnels établis en France.
+ * Factur-X ne couvre que les échanges B2B/B2G : tout acheteur est considéré comme professionnel.
+ */
+export function isFrenchB2B(invoice: Invoice): boolean {
+  return invoice.seller?.address?.countryCode === 'FR' && invoice.buyer?.address?.countryCode === 'FR';
+}
+
+/** Mentions obligatoires absentes : ni note codifiée, ni texte libre équivalent. */
+export function getMissingLegalMentions(invoice: Invoice): LegalMentionCode[] {
+  const notes = normalizeNotes(invoice.notes);
+  return FRENCH_LEGAL_MENTIONS
+    .filter(m => !notes.some(n => n.subjectCode === m.subjectCode || m.pattern.test(n.content)))
+    .map(m => m.subjectCode);
+}
+
+/**
+ * Complète une facture B2B française avec les mentions obligatoires manquantes,
+ * rédigées à partir des conditions du vendeur (`seller.legalMentions`) ou des valeurs légales par défaut.
+ * Retourne la facture complétée et les notes ajoutées.
+ */
+export function addFrenchLegalMentions(invoice: Invoice): { invoice: Invoice; added: InvoiceNote[] } {
+  if (!isFrenchB2B(invoice)) return { invoice, added: [] };
+
+  const settings = invoice.seller.legalMentions ?? {};
+  const texts: Record<LegalMentionCode, string> = {
+    PMD: settings.latePaymentPenalty ?? DEFAULT_MENTIONS.PMD,
+    PMT: settings.recoveryIndemnity ?? DEFAULT_MENTIONS.PMT,
+    AAB: settings.earlyPaymentDiscount ?? DEFAULT_MENTIONS.AAB,
+  };
+  const added: InvoiceNote[] = getMissingLegalMentions(invoice).map(code => ({ subjectCode: code, content: texts[code] }));
+  // Forme juridique, capital, RCS : pas de valeur par défaut, repris uniquement s'ils sont fournis
+  if (settings.companyDetails && !normalizeNotes(invoice.notes).some(n => n.subjectCode === 'REG')) {
+    added.push({ subjectCode: 'REG', content: settings.companyDetails });
+  }
+  if (!added.length) return { invoice, added };
+
+  return { invoice: { ...invoice, notes: [...normalizeNotes(invoice.notes), ...added] }, added };
+}
@@ -1,5 +1,26 @@
 import { XMLParser } from 'fast-xml-parser';
-import type { Invoice, InvoiceLine, TradeParty } from './types.js';
+import { Decimal } from './decimal.js';
+import { profileFromGuideline } from './profiles.js';
+import { fromZugferd1 } from './zugferd.js';
+import type {
+  AllowanceCharge,
+  BillingPeriod,
+  Invoice,
+  InvoiceLine,
+  InvoiceTotals,
+  InvoiceTypeCode,
+  LineAllowanceCharge,
+  PayeeParty,
+  PaymentMeansCode,
+  ShipToParty,
+  SupportingDocument,
+  TaxRepresentativeParty,
+  TradeParty,
+  TradePartyAddress,
+  VatCategoryCode,
+  VatExemption,
+  VatSummary,
+} from './types.js';
 
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
@@ -7,13 +28,17 @@ const xmlParser = new XMLParser({
   removeNSPrefix: true,
   textNodeName: '#text',
   parseAttributeValue: false,
+  parseTagValue: false, // Textes conservés tels quels : codes postaux, SIRET et téléphones gardent leurs zéros
   allowBooleanAttributes: true,
 });
 
+/** Nœud XML analysé : éléments sans préfixe d'espace de noms, attributs préfixés par "@_". */
+export type XmlRecord = Record<string, unknown>;
+
 function str(node: unknown): string {
   if (node == null) return '';
   if (typeof node === 'string') return node;
-  if (typeof node === 'number') return String(node);
+  if (typeof node === 'number' || typeof node === 'boolean') return String(node);
   if (typeof node === 'object') {
     const n = node as Record<string, unknown>;
     if ('#text' in n) return str(n['#text']);
@@ -25,37 +50,209 @@ function num(node: unknown): number {
   return parseFloat(str(node)) || 0;
 }
 
+function optNum(node: unknown): number | undefined {
+  const s = str(node);
+  return s === '' ? undefined : parseFloat(s);
+}
+
+function list(node: unknown): Record<string, unknown>[] {
+  if (node == null) return [];
+  return (Array.isArray(node) ? node : [node]) as Record<string, unknown>[];
+}
+
 function toIsoDate(node: unknown): string {
   const s = str(node);
   if (s.length === 8) return `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}`;
   return s;
 }
 
+function parseBillingPeriod(raw: unknown): BillingPeriod | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const period = raw as Record<string, unknown>;
+  const start = period['StartDateTime'] as Record<string, unknown> | undefined;
+  const end   = period['EndDateTime'] as Record<string, unknown> | undefined;
+  if (!start && !end) return undefined;
+  return {
+    startDate: start ? toIsoDate(start['DateTimeString']) : undefined,
+    endDate:   end ? toIsoDate(end['DateTimeString']) : undefined,
+  };
+}
+
+function parseAddress(raw: Record<string, unknown>): TradePartyAddress {
+  return {
+    street: str(raw['LineOne']),
+    additionalStreet: str(raw['LineTwo']) || undefined,
+    city: str(raw['CityName']),
+    postalCode: str(raw['PostcodeCode']),
+    countryCode: str(raw['CountryID']),
+    stateOrProvince: str(raw['CountrySubDivisionName']) || undefined,
+  };
+}
+
+// Schéma ISO 6523 d'un identifiant (attribut schemeID)
+function scheme(node: unknown): string | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  return str((node as Record<string, unknown>)['@_schemeID']) || undefined;
+}
+
+// Identifiant de l'acteur : ID simple, sinon premier GlobalID qualifié
+function parsePartyId(raw: Record<string, unknown>): { id?: string; idScheme?: string } {
+  const id = list(raw['ID'])[0];
+  if (id !== undefined) return { id: str(id) || undefined };
+  const globalId = list(raw['GlobalID'])[0];
+  return { id: str(globalId) || undefined, idScheme: scheme(globalId) };
+}
+
+function parseLegalId(raw: Record<string, unknown>): { legalId?: string; legalIdScheme?: string } {
+  const legalOrg = raw['SpecifiedLegalOrganization'] as Record<string, unknown> | undefined;
+  if (!legalOrg) return {};
+  return { legalId: str(legalOrg['ID']) || undefined, legalIdScheme: scheme(legalOrg['ID']) };
+}
+
+// Contact de l'acteur (BG-6 / BG-9)
+function parseContact(raw: Record<string, unknown> | undefined): TradeParty['contact'] {
+  if (!raw) return undefined;
+  const phone = (raw['TelephoneUniversalCommunication'] as Record<string, unknown> | undefined)?.['CompleteNumber'];
+  const email = (raw['EmailURIUniversalCommunication'] as Record<string, unknown> | undefined)?.['URIID'];
+  return {
+    name:  str(raw['PersonName']) || undefined,
+    phone: str(phone) || undefined,
+    email: str(email) || undefined,
+  };
+}
+
 function parseParty(raw: Record<string, unknown>): TradeParty {
   const addr = (raw['PostalTradeAddress'] ?? {}) as Record<string, unknown>;
   const taxReg = raw['SpecifiedTaxRegistration'] as Record<string, unknown> | undefined;
-  const legalOrg = raw['SpecifiedLegalOrganization'] as Record<string, unknown> | undefined;
+  const { id, idScheme } = parsePartyId(raw);
+  const { legalId, legalIdScheme } = parseLegalId(raw);
+  const contact = parseContact(raw['DefinedTradeContact'] as Record<string, unknown> | undefined);
+  // Adresse électronique (BT-34 / BT-49) ; une adresse EM reprenant l'email du contact n'en est que le repli
+  const uri = (raw['URIUniversalCommunication'] as Record<string, unknown> | undefined)?.['URIID'];
+  const uriScheme = scheme(uri);
+  const emailUri = uriScheme === 'EM' && (!contact?.email || contact.email === str(uri));
+  const email = contact?.email ?? (emailUri ? str(uri) || undefined : undefined);
 
   return {
     name: str(raw['Name']),
-    id: str(raw['ID']) || undefined,
+    id,
+    idScheme,
     vatNumber: taxReg ? str(taxReg['ID']) || undefined : undefined,
-    legalId: legalOrg ? str(legalOrg['ID']) || undefined : undefined,
-    address: {
-      street: str(addr['LineOne']),
-      city: str(addr['CityName']),
-      postalCode: str(addr['PostcodeCode']),
-      countryCode: str(addr['CountryID']),
-    },
+    legalId,
+    legalIdScheme,
+    electronicAddress: uri !== undefined && !emailUri ? str(uri) || undefined : undefined,
+    electronicAddressScheme: uri !== undefined && !emailUri ? uriScheme : undefined,
+    address: parseAddress(addr),
+    contact: contact || email ? { ...contact, email } : undefined,
   };
 }
 
-export function parseFacturXXml(xmlContent: string): Invoice {
-  const parsed = xmlParser.parse(xmlContent) as Record<string, unknown>;
+function parsePayee(raw: Record<string, unknown>): PayeeParty {
+  return {
+    name: str(raw['Name']),
+    ...parsePartyId(raw),
+    ...parseLegalId(raw),
+  };
+}
+
+function parseTaxRepresentative(raw: Record<string, unknown>): TaxRepresentativeParty {
+  const taxReg = raw['SpecifiedTaxRegistration'] as Record<string, unknown> | undefined;
+  return {
+    name:      str(raw['Name']),
+    vatNumber: taxReg ? str(taxReg['ID']) : '',
+    address:   parseAddress((raw['PostalTradeAddress'] ?? {}) as Record<string, unknown>),
+  };
+}
+
+function parseShipTo(raw: Record<string, unknown>): ShipToParty {
+  const addr = raw['PostalTradeAddress'] as Record<string, unknown> | undefined;
+  return {
+    name:       str(raw['Name']) || undefined,
+    locationId: str(raw['ID']) || undefined,
+    address:    addr ? parseAddress(addr) : undefined,
+  };
+}
+
+function parseLineAllowanceCharge(raw: Record<string, unknown>): LineAllowanceCharge {
+  return {
+    amount:      num(raw['ActualAmount']),
+    baseAmount:  optNum(raw['BasisAmount']),
+    percentage:  optNum(raw['CalculationPercent']),
+    reason:      str(raw['Reason']) || undefined,
+    reasonCode:  str(raw['ReasonCode']) || undefined,
+  };
+}
 
-  const root =
-    (parsed['CrossIndustryInvoice'] ?? parsed['rsm:CrossIndustryInvoice']) as Record<string, unknown>;
-  if (!root) throw new Error('Document XML invalide : balise CrossIndustryInvoice introuvable');
+function parseAllowanceCharge(raw: Record<string, unknown>): AllowanceCharge {
+  const tax = (raw['CategoryTradeTax'] ?? {}) as Record<string, unknown>;
+  return {
+    ...parseLineAllowanceCharge(raw),
+    vatCategory: str(tax['CategoryCode']) as VatCategoryCode,
+    vatRate:     num(tax['RateApplicablePercent']),
+  };
+}
+
+function parseSupportingDocument(raw: Record<string, unknown>): SupportingDocument {
+  const binary = raw['AttachmentBinaryObject'] as Record<string, unknown> | undefined;
+  return {
+    id:          str(raw['IssuerAssignedID']),
+    description: str(raw['Name']) || undefined,
+    uri:         str(raw['URIID']) || undefined,
+    attachment:  binary ? {
+      content:  str(binary).replace(/\s+/g, ''),
+      mimeCode: str(binary['@_mimeCode']),
+      filename: str(binary['@_filename']),
+    } : undefined,
+  };
+}
+
+function isCharge(raw: Record<string, unknown>): boolean {
+  return str((raw['ChargeIndicator'] as Record<string, unknown>)?.['Indicator']) === 'true';
+}
+
+// Lecture d'un nœud analysé, pour les contrôles du document brut (xml-validator.ts) et la syntaxe UBL (ubl-parser.ts)
+export {
+  xmlParser,
+  str as xmlText,
+  num as xmlNumber,
+  optNum as xmlOptionalNumber,
+  list as xmlList,
+  scheme as xmlScheme,
+  isCharge as isChargeNode,
+};
+
+// Racine CrossIndustryInvoice, ou erreur explicite pour un document d'une autre norme
+function crossIndustryInvoiceOf(parsed: XmlRecord): XmlRecord {
+  const root = (parsed['CrossIndustryInvoice'] ?? parsed['rsm:CrossIndustryInvoice']) as XmlRecord | undefined;
+  if (root) return root;
+  if (parsed['SCRDMCCBDACIOMessageStructure']) {
+    throw new Error('Document Order-X (commande, réponse ou modification de commande) : ce n\'est pas une facture');
+  }
+  if (parsed['CrossIndustryDocument']) {
+    throw new Error('Document ZUGFeRD 1.0 (CrossIndustryDocument) : convertissez-le en Factur-X avec facturx_convert');
+  }
+  throw new Error('Document XML invalide : balise CrossIndustryInvoice introuvable');
+}
+
+/** Racine CrossIndustryInvoice d'un document CII. */
+export function readCrossIndustryInvoice(xmlContent: string): XmlRecord {
+  return crossIndustryInvoiceOf(xmlParser.parse(xmlContent) as XmlRecord);
+}
+
+// Racine d'une facture CII D16B, ZUGFeRD 1.0 renommé
+function invoiceRootOf(xmlContent: string): XmlRecord {
+  const parsed = xmlParser.parse(xmlContent) as XmlRecord;
+  const legacy = parsed['CrossIndustryDocument'] as XmlRecord | undefined;
+  return legacy ? fromZugferd1(legacy) : crossIndustryInvoiceOf(parsed);
+}
+
+/**
+ * Convertit un document CII (Factur-X, ZUGFeRD 1.0 et 2.x) en facture. Les données absentes ne sont pas complétées
+ * (catégorie TVA, unité, type de document, moyen de paiement restent vides) :
+ * facturx_validate_xml les signale au lieu de les masquer.
+ */
+export function parseFacturXXml(xmlContent: string): Invoice {
+  const root = invoiceRootOf(xmlContent);
 
   const doc = (root['ExchangedDocument'] ?? root['rsm:ExchangedDocument']) as Record<string, unknown>;
   const trx = (root['SupplyChainTradeTransaction'] ?? root['rsm:SupplyChainTradeTransaction']) as Record<string, unknown>;
@@ -78,11 +275,19 @@ export function parseFacturXXml(xmlContent: string): Invoice {
     const lineSettlement= (l['SpecifiedLineTradeSettlement'] ?? {}) as Record<string, unknown>;
 
     const price = (lineAgreement['NetPriceProductTradePrice'] ?? {}) as Record<string, unknown>;
+    const grossPrice = lineAgreement['GrossPriceProductTradePrice'] as Record<string, unknown> | undefined;
+    const grossDiscount = list(grossPrice?.['AppliedTradeAllowanceCharge'])
+      .filter(ac => !isCharge(ac))
+      .reduce((s, ac) => s + num(ac['ActualAmount']), 0);
+    const basisQuantity = optNum(price['BasisQuantity']);
+    const lineAllowanceCharges = list(lineSettlement['SpecifiedTradeAllowanceCharge']);
+    const lineAllowances = lineAllowanceCharges.filter(ac => !isCharge(ac)).map(parseLineAllowanceCharge);
+    const lineCharges    = lineAllowanceCharges.filter(isCharge).map(parseLineAllowanceCharge);
     const tax   = (lineSettlement['ApplicableTradeTax'] ?? {}) as Record<string, unknown>;
     const billed= lineDelivery['BilledQuantity'] as Record<string, unknown> | string | number;
 
-    const billedQty  = typeof billed === 'object' ? str(billed) : str(billed);
-    const billedUnit = typeof billed === 'object' ? str((billed as Record<string, unknown>)['@_unitCode']) : 'C62';
+    const billedQty  = str(billed);
+    const billedUnit = typeof billed === 'object' ? str((billed as Record<string, unknown>)['@_unitCode']) : '';
 
     const lineSummation = (lineSettlement['SpecifiedTradeSettlementLineMonetarySummation'] ?? {}) as Record<string, unknown>;
 
@@ -90,19 +295,67 @@ export function parseFacturXXml(xmlContent: string): Invoice {
       id:          str(lineDoc['LineID']),
       description: str(product['Name']),
       quantity:    parseFloat(billedQty) || 0,
-      unitCode:    billedUnit || 'C62',
+      unitCode:    billedUnit,
       unitPrice:   num(price['ChargeAmount']),
+      grossPrice:  grossPrice ? num(grossPrice['ChargeAmount']) : undefined,
+      priceDiscount: grossDiscount || undefined,
+      priceBaseQuantity: basisQuantity && basisQuantity !== 1 ? basisQuantity : undefined,
       totalAmount: num(lineSummation['LineTotalAmount']),
       vatRate:     num(tax['RateApplicablePercent']),
-      vatCategory: (str(tax['CategoryCode']) || 'S') as 'S',
+      vatCategory: str(tax['CategoryCode']) as VatCategoryCode,
       productId:   str(product['SellerAssignedID']) || undefined,
+      buyerProductId: str(product['BuyerAssignedID']) || undefined,
       note:        str(product['Description']) || undefined,
+      billingPeriod: parseBillingPeriod(lineSettlement['BillingSpecifiedPeriod']),
+      allowances:  lineAllowances.length ? lineAllowances : undefined,
+      charges:     lineCharges.length ? lineCharges : undefined,
     };
   });
 
+  // Remises et charges globales
+  const allowanceCharges = list(settlement['SpecifiedTradeAllowanceCharge']);
+  const allowances = allowanceCharges.filter(ac => !isCharge(ac)).map(parseAllowanceCharge);
+  const charges    = allowanceCharges.filter(isCharge).map(parseAllowanceCharge);
+
+  // Motifs d'exonération TVA (un par catégorie)
+  const vatExemptions: VatExemption[] = [];
+  for (const tax of list(settlement['ApplicableTradeTax'])) {
+    const categoryCode = str(tax['CategoryCode']) as VatCategoryCode;
+    const reason = str(tax['ExemptionReason']) || undefined;
+    const reasonCode = str(tax['ExemptionReasonCode']) || undefined;
+    if ((reason || reasonCode) && !vatExemptions.some(e => e.categoryCode === categoryCode)) {
+      vatExemptions.push({ categoryCode, reason, reasonCode });
+    }
+  }
+
+  // Acomptes et arrondi
+  const summation = (settlement['SpecifiedTradeSettlementHeaderMonetarySummation'] ?? {}) as Record<string, unknown>;
+  const prepaidAmount  = optNum(summation['TotalPrepaidAmount']);
+
+  // Devise de comptabilisation TVA : second TaxTotalAmount exprimé dans cette devise
+  const taxCurrency = str(settlement['TaxCurrencyCode']) || undefined;
+  const taxTotalInTaxCurrency = taxCurrency
+    ? optNum(list(summation['TaxTotalAmount']).find(t => str(t['@_currencyID']) === taxCurrency))
+    : undefined;
+  const roundingAmount = optNum(summation['RoundingAmount']);
+
+  // Factures antérieures référencées
+  // Justificatifs (916) — les autres types (appel d'offres, objet facturé) ne sont pas repris
+  const supportingDocuments = list(agreement['AdditionalReferencedDocument'])
+    .filter(ref => str(ref['TypeCode']) === '916')
+    .map(parseSupportingDocument);
+
+  const precedingInvoices = list(settlement['InvoiceReferencedDocument']).map(ref => ({
+    number:    str(ref['IssuerAssignedID']),
+    issueDate: ref['FormattedIssueDateTime']
+      ? toIsoDate((ref['FormattedIssueDateTime'] as Record<string, unknown>)['DateTimeString'])
+      : undefined,
+  }));
+
   // Paiement
   const paymentMeans = settlement['SpecifiedTradeSettlementPaymentMeans'] as Record<string, unknown> | undefined;
   const creditorAccount = paymentMeans?.['PayeePartyCreditorFinancialAccount'] as Record<string, unknown> | undefined;
+  const creditorInstitution = paymentMeans?.['PayeeSpecifiedCreditorFinancialInstitution'] as Record<string, unknown> | undefined;
   const paymentTerms = settlement['SpecifiedTradePaymentTerms'] as Record<string, unknown> | undefined;
 
   // Date livraison
@@ -114,36 +367,110 @@ export function parseFacturXXml(xmlContent: string): Invoice {
   const guidelineId = str(
     ((ctx?.['GuidelineSpecifiedDocumentContextParameter'] as Record<string, unknown>)?.['ID'])
   );
-  const profile = guidelineId.includes('en16931') ? 'EN_16931'
+  const profile = profileFromGuideline(guidelineId) ?? (guidelineId.includes('en16931') ? 'EN_16931'
     : guidelineId.includes('extended') ? 'EXTENDED'
-    : guidelineId.includes('basic')    ? 'BASIC'
     : guidelineId.includes('basicwl')  ? 'BASIC_WL'
+    : guidelineId.includes('basic')    ? 'BASIC'
     : guidelineId.includes('minimum')  ? 'MINIMUM'
-    : 'EN_16931';
+    : 'EN_16931');
 
-  const note = doc['IncludedNote'];
-  const noteText = note ? str((note as Record<string, unknown>)['Content']) : undefined;
+  const notes = list(doc['IncludedNote']).map(note => ({
+    content:     str(note['Content']),
+    subjectCode: str(note['SubjectCode']) || undefined,
+  }));
 
   return {
     number:      str(doc['ID']),
-    typeCode:    (str(doc['TypeCode']) || '380') as '380',
+    typeCode:    str(doc['TypeCode']) as InvoiceTypeCode,
     date:        toIsoDate((doc['IssueDateTime'] as Record<string, unknown>)?.['DateTimeString']),
     dueDate:     dueDateTime ? toIsoDate(dueDateTime) : undefined,
     deliveryDate:deliveryEvent ? toIsoDate(deliveryEvent['DateTimeString']) : undefined,
+    billingPeriod: parseBillingPeriod(settlement['BillingSpecifiedPeriod']),
     currency:    str(settlement['InvoiceCurrencyCode']),
-    profile:     profile as 'EN_16931',
+    taxCurrency,
+    taxTotalInTaxCurrency,
+    profile,
     seller:      parseParty(agreement['SellerTradeParty'] as Record<string, unknown>),
     buyer:       parseParty(agreement['BuyerTradeParty'] as Record<string, unknown>),
+    payee:       settlement['PayeeTradeParty']
+      ? parsePayee(settlement['PayeeTradeParty'] as Record<string, unknown>)
+      : undefined,
+    sellerTaxRepresentative: agreement['SellerTaxRepresentativeTradeParty']
+      ? parseTaxRepresentative(agreement['SellerTaxRepresentativeTradeParty'] as Record<string, unknown>)
+      : undefined,
+    shipTo:      delivery?.['ShipToTradeParty']
+      ? parseShipTo(delivery['ShipToTradeParty'] as Record<string, unknown>)
+      : undefined,
     lines,
+    allowances:  allowances.length ? allowances : undefined,
+    charges:     charges.length ? charges : undefined,
+    vatExemptions:  vatExemptions.length ? vatExemptions : undefined,
+    prepaidAmount:  prepaidAmount || undefined,
+    roundingAmount: roundingAmount || undefined,
     payment: paymentMeans ? {
-      meansCode:  (str(paymentMeans['TypeCode']) || '30') as '30',
+      meansCode:  str(paymentMeans['TypeCode']) as PaymentMeansCode,
       iban:       creditorAccount ? str(creditorAccount['IBANID']) || undefined : undefined,
+      bic:        creditorInstitution ? str(creditorInstitution['BICID']) || undefined : undefined,
       reference:  str(settlement['PaymentReference']) || undefined,
       terms:      paymentTerms ? str(paymentTerms['Description']) || undefined : undefined,
     } : undefined,
     purchaseOrderRef: str((agreement['BuyerOrderReferencedDocument'] as Record<string, unknown>)?.['IssuerAssignedID']) || undefined,
     contractRef:      str((agreement['ContractReferencedDocument'] as Record<string, unknown>)?.['IssuerAssignedID']) || undefined,
     buyerRef:         str(agreement['BuyerReference']) || undefined,
-    notes:            noteText || undefined,
+    precedingInvoices: precedingInvoices.length ? precedingInvoices : undefined,
+    supportingDocuments: supportingDocuments.length ? supportingDocuments : undefined,
+    notes:            notes.length ? notes : undefined,
+  };
+}
+
+/**
+ * Totaux d'en-tête (BG-22) et ventilation TVA (BG-23) tels que déclarés par un document CII, sans recalcul :
+ * un document MINIMUM ou BASIC WL ne détaille pas ses lignes, et l'arrondi de la TVA dépend de l'émetteur.
+ */
+export function parseFacturXTotals(xmlContent: string): InvoiceTotals {
+  const root = invoiceRootOf(xmlContent);
+  const trx = (root['SupplyChainTradeTransaction'] ?? root['rsm:SupplyChainTradeTransaction'] ?? {}) as Record<string, unknown>;
+  const settlement = (trx['ApplicableHeaderTradeSettlement'] ?? {}) as Record<string, unknown>;
+  const summation = (settlement['SpecifiedTradeSettlementHeaderMonetarySummation'] ?? {}) as Record<string, unknown>;
+
+  // TaxTotalAmount peut figurer deux fois : devise de facture et devise de comptabilisation (BT-111)
+  const currency = str(settlement['InvoiceCurrencyCode']);
+  const taxCurrency = str(settlement['TaxCurrencyCode']) || undefined;
+  const taxTotals = list(summation['TaxTotalAmount']);
+  const taxTotal = taxTotals.find(t => str(t['@_currencyID']) === currency)
+    ?? taxTotals.find(t => !str(t['@_currencyID']))
+    ?? taxTotals[0];
+  const taxTotalInTaxCurrency = taxCurrency && taxCurrency !== currency
+    ? taxTotals.find(t => str(t['@_currencyID']) === taxCurrency)
+    : undefined;
+
+  const allowanceTotal = num(summation['AllowanceTotalAmount']);
+  const chargeTotal    = num(summation['ChargeTotalAmount']);
+  const taxBasisTotal  = num(summation['TaxBasisTotalAmount']);
+  // MINIMUM : pas de total des lignes, déduit du total HT
+  const lineTotal = optNum(summation['LineTotalAmount'])
+    ?? Decimal.from(taxBasisTotal).plus(allowanceTotal).minus(chargeTotal).toNumber();
+
+  const vatSummaries: VatSummary[] = list(settlement['ApplicableTradeTax']).map(tax => ({
+    categoryCode:        str(tax['CategoryCode']) as VatCategoryCode,
+    rate:                num(tax['RateApplicablePercent']),
+    taxableAmount:       num(tax['BasisAmount']),
+    taxAmount:           num(tax['CalculatedAmount']),
+    exemptionReason:     str(tax['ExemptionReason']) || undefined,
+    exemptionReasonCode: str(tax['ExemptionReasonCode']) || undefined,
+  }));
+
+  return {
+    lineTotalAmount:      lineTotal,
+    allowanceTotalAmount: allowanceTotal,
+    chargeTotalAmount:    chargeTotal,
+    taxBasisTotalAmount:  taxBasisTotal,
+    taxTotalAmount:       num(taxTotal),
+    taxTotalAmountInTaxCurrency: taxTotalInTaxCurrency ? num(taxTotalInTaxCurrency) : undefined,
+    grandTotalAmount:     num(summation['GrandTotalAmount']),
+    prepaidAmount:        num(summation['TotalPrepaidAmount']),
+    roundingAmount:       num(summation['RoundingAmount']),
+    duePayableAmount:     num(summation['DuePayableAmount']),
+    vatSummaries,
   };
 }
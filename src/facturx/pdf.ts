@@ -1,60 +1,161 @@
-import { PDFDocument } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { AFRelationship, EncryptedPDFError, PDFDocument, type PDFFont } from 'pdf-lib';
 import { readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { parseFacturXTotals, parseFacturXXml } from './parser.js';
+import { applyPdfA3, CONFORMANCE_LEVELS, findPdfABlockers } from './pdfa.js';
+import { profileAllows } from './profiles.js';
+import { renderInvoice, type InvoiceFonts } from './renderer.js';
+import { identifyDocument } from './standards.js';
+import type { BinaryAttachment, FacturXProfile, Invoice, InvoiceTotals } from './types.js';
+
+// Polices incorporées des pages générées : PDF/A interdit les polices standard non incorporées
+const require = createRequire(import.meta.url);
+const FONT_PATHS = {
+  regular: require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'),
+  bold:    require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'),
+};
+const XML_FILENAME = 'factur-x.xml';
+
+/**
+ * PDF Factur-X créé, avec son niveau de conformité et les éléments du PDF source qui empêchent la conformité PDF/A-3b :
+ * en leur présence, le PDF ne déclare pas l'identification PDF/A.
+ */
+export interface FacturXPdf {
+  pdf: Uint8Array;
+  profile: FacturXProfile;
+  conformanceLevel: string;  // fx:ConformanceLevel déclaré dans les métadonnées XMP
+  pdfaBlockers: string[];    // Vide si le PDF est conforme PDF/A-3b et le déclare
+}
+
+async function embedFont(pdfDoc: PDFDocument, style: keyof InvoiceFonts): Promise<PDFFont> {
+  pdfDoc.registerFontkit(fontkit);
+  return pdfDoc.embedFont(await readFile(FONT_PATHS[style]), { subset: true });
+}
+
+// Facture à représenter d'après le XML : les profils MINIMUM et BASIC WL ne détaillent pas les lignes
+function renderableInvoice(xmlContent: string): Invoice | undefined {
+  try {
+    const invoice = parseFacturXXml(xmlContent);
+    return profileAllows(invoice.profile, 'BASIC') ? invoice : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Totaux déclarés par le XML, que la représentation lisible doit reprendre à l'identique
+function declaredTotals(xmlContent: string): InvoiceTotals | undefined {
+  try {
+    return parseFacturXTotals(xmlContent);
+  } catch {
+    return undefined;
+  }
+}
+
+// Page de substitution lorsque la facture ne peut pas être représentée
+function drawSummaryPage(pdfDoc: PDFDocument, font: PDFFont): void {
+  const page = pdfDoc.addPage([595.28, 841.89]); // A4
+  const { height } = page.getSize();
+
+  page.drawText('Factur-X — Facture Électronique', {
+    x: 50,
+    y: height - 80,
+    size: 20,
+    font,
+  });
+  page.drawText(
+    'Ce document contient une facture structurée XML Factur-X en pièce jointe.',
+    { x: 50, y: height - 120, size: 11, font }
+  );
+  page.drawText(
+    `Consultez la pièce jointe "${XML_FILENAME}" pour les données structurées.`,
+    { x: 50, y: height - 140, size: 11, font }
+  );
+}
 
 /**
- * Crée un PDF avec le XML Factur-X en pièce jointe embarquée.
- * Retourne le PDF en bytes.
+ * Crée un PDF/A-3b Factur-X avec le XML en pièce jointe embarquée : métadonnées XMP Factur-X du profil du XML,
+ * tableau /AF, OutputIntent sRGB et polices incorporées.
+ * Sans PDF source, la facture est mise en page à partir de `invoice`, à défaut du XML lui-même,
+ * avec les totaux et la ventilation TVA déclarés par le XML.
+ * Un PDF source fourni est converti de la même façon ; les éléments qui l'empêchent d'être conforme sont signalés.
+ * Les justificatifs fournis sont joints en plus comme fichiers embarqués du PDF.
  */
 export async function createFacturXPdf(
   xmlContent: string,
-  sourcePdfPath?: string
-): Promise<Uint8Array> {
+  sourcePdfPath?: string,
+  attachments: BinaryAttachment[] = [],
+  invoice?: Invoice
+): Promise<FacturXPdf> {
   let pdfDoc: PDFDocument;
 
   if (sourcePdfPath) {
     const pdfBytes = await readFile(sourcePdfPath);
-    pdfDoc = await PDFDocument.load(pdfBytes);
+    try {
+      pdfDoc = await PDFDocument.load(pdfBytes);
+    } catch (error) {
+      if (error instanceof EncryptedPDFError) throw new Error('PDF source chiffré : le chiffrement est interdit en PDF/A');
+      throw error;
+    }
   } else {
     pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([595.28, 841.89]); // A4
-    const { height } = page.getSize();
-
-    page.drawText('Factur-X — Facture Électronique', {
-      x: 50,
-      y: height - 80,
-      size: 20,
-    });
-    page.drawText(
-      'Ce document contient une facture structurée XML Factur-X en pièce jointe.',
-      { x: 50, y: height - 120, size: 11 }
-    );
-    page.drawText(
-      'Consultez la pièce jointe "factur-x.xml" pour les données structurées.',
-      { x: 50, y: height - 140, size: 11 }
-    );
+    const rendered = invoice ?? renderableInvoice(xmlContent);
+    const regular = await embedFont(pdfDoc, 'regular');
+    if (rendered) renderInvoice(pdfDoc, rendered, { regular, bold: await embedFont(pdfDoc, 'bold') }, declaredTotals(xmlContent));
+    else drawSummaryPage(pdfDoc, regular);
   }
+  const pdfaBlockers = sourcePdfPath ? findPdfABlockers(pdfDoc) : [];
+
+  // Le XML décrit toute la facture à partir du profil BASIC (Alternative), seulement ses données en deçà (Data)
+  const profile = identifyDocument(xmlContent).profile ?? 'EN_16931';
+  const now = new Date();
+  now.setMilliseconds(0);
 
   await pdfDoc.attach(
     Buffer.from(xmlContent, 'utf-8'),
-    'factur-x.xml',
+    XML_FILENAME,
     {
-      mimeType: 'application/xml',
+      mimeType: 'text/xml',
       description: 'Factur-X Invoice Data',
-      creationDate: new Date(),
-      modificationDate: new Date(),
+      creationDate: now,
+      modificationDate: now,
+      afRelationship: profileAllows(profile, 'BASIC') ? AFRelationship.Alternative : AFRelationship.Data,
     }
   );
 
+  for (const file of attachments) {
+    if (file.filename === XML_FILENAME) {
+      throw new Error(`Le nom "${XML_FILENAME}" est réservé au XML Factur-X`);
+    }
+    await pdfDoc.attach(Buffer.from(file.content, 'base64'), file.filename, {
+      mimeType: file.mimeCode,
+      description: 'Justificatif',
+      creationDate: now,
+      modificationDate: now,
+      afRelationship: AFRelationship.Supplement,
+    });
+  }
+
   pdfDoc.setTitle('Factur-X Invoice');
   pdfDoc.setSubject('e-Facture / e-Invoice');
   pdfDoc.setKeywords(['Factur-X', 'e-Invoice', 'EN 16931', 'France']);
   pdfDoc.setCreator('facturx-mcp');
+  pdfDoc.setProducer('facturx-mcp');
+  pdfDoc.setModificationDate(now);
+  if (!sourcePdfPath) pdfDoc.setCreationDate(now);
+  // Un document qui ne peut être conforme ne revendique pas PDF/A-3b
+  await applyPdfA3(pdfDoc, { profile, documentFileName: XML_FILENAME, pdfaIdentification: !pdfaBlockers.length });
 
-  return pdfDoc.save();
+  return {
+    pdf: await pdfDoc.save({ useObjectStreams: false }),
+    profile,
+    conformanceLevel: CONFORMANCE_LEVELS[profile],
+    pdfaBlockers,
+  };
 }
 
 /**
- * Tente d'extraire le XML Factur-X embarqué dans un PDF.
+ * Tente d'extraire le XML Factur-X, ZUGFeRD ou Order-X embarqué dans un PDF.
  * Stratégie heuristique : recherche le contenu XML dans les bytes bruts du PDF.
  * Fonctionne pour les PDFs dont le stream XML n'est pas compressé (cas standard Factur-X).
  */
@@ -67,9 +168,14 @@ export async function extractXmlFromPdf(pdfPath: string): Promise<string | null>
   const xmlStart = raw.indexOf('<?xml');
   if (xmlStart === -1) return null;
 
+  // Factur-X / ZUGFeRD 2.x, ZUGFeRD 1.0 et Order-X
   const closingTags = [
     '</rsm:CrossIndustryInvoice>',
     '</CrossIndustryInvoice>',
+    '</rsm:CrossIndustryDocument>',
+    '</CrossIndustryDocument>',
+    '</rsm:SCRDMCCBDACIOMessageStructure>',
+    '</SCRDMCCBDACIOMessageStructure>',
   ];
 
   for (const tag of closingTags) {
@@ -0,0 +1,301 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import {
+  decodePDFRawStream,
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  type PDFDocument,
+  type PDFObject,
+} from 'pdf-lib';
+import type { FacturXProfile } from './types.js';
+
+/** Niveau de conformité Factur-X (fx:ConformanceLevel) déclaré dans les métadonnées XMP pour chaque profil. */
+export const CONFORMANCE_LEVELS: Record<FacturXProfile, string> = {
+  MINIMUM:    'MINIMUM',
+  BASIC_WL:   'BASIC WL',
+  BASIC:      'BASIC',
+  EN_16931:   'EN 16931',
+  EXTENDED:   'EXTENDED',
+  XRECHNUNG:  'XRECHNUNG',
+  PEPPOL_BIS: 'EN 16931',
+};
+
+/** Données de la pièce jointe XML Factur-X décrite par les métadonnées XMP. */
+export interface FacturXXmpInfo {
+  profile: FacturXProfile;
+  documentFileName: string; // Nom du fichier XML embarqué, ex : "factur-x.xml"
+  pdfaIdentification: boolean; // Déclare PDF/A-3b (pdfaid) : faux si le document ne peut pas être conforme
+}
+
+const FACTURX_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+const FACTURX_VERSION = '1.0';
+const SRGB_IDENTIFIER = 'sRGB IEC61966-2.1';
+
+// ── Métadonnées XMP ─────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Date XMP au format ISO 8601, à la seconde comme dans le dictionnaire Info
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function extensionProperty(name: string, description: string): string {
+  return `
+              <rdf:li rdf:parseType="Resource">
+                <pdfaProperty:name>${name}</pdfaProperty:name>
+                <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+                <pdfaProperty:category>external</pdfaProperty:category>
+                <pdfaProperty:description>${description}</pdfaProperty:description>
+              </rdf:li>`;
+}
+
+/**
+ * Métadonnées XMP PDF/A-3b : identification PDF/A (si le document peut la revendiquer), reprise du dictionnaire Info
+ * (titre, auteur, dates…) et schéma d'extension Factur-X décrivant le XML embarqué.
+ */
+function buildXmpMetadata(pdfDoc: PDFDocument, info: FacturXXmpInfo): string {
+  const title    = pdfDoc.getTitle();
+  const author   = pdfDoc.getAuthor();
+  const subject  = pdfDoc.getSubject();
+  const keywords = pdfDoc.getKeywords();
+  const creator  = pdfDoc.getCreator();
+  const producer = pdfDoc.getProducer();
+  const created  = pdfDoc.getCreationDate();
+  const modified = pdfDoc.getModificationDate();
+  const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(text)}</rdf:li></rdf:Alt>`;
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">${info.pdfaIdentification ? `
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>` : ''}
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>${title ? `
+      <dc:title>${alt(title)}</dc:title>` : ''}${author ? `
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>` : ''}${subject ? `
+      <dc:description>${alt(subject)}</dc:description>` : ''}
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">${producer ? `
+      <pdf:Producer>${escapeXml(producer)}</pdf:Producer>` : ''}${keywords ? `
+      <pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>` : ''}
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">${creator ? `
+      <xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool>` : ''}${created ? `
+      <xmp:CreateDate>${xmpDate(created)}</xmp:CreateDate>` : ''}${modified ? `
+      <xmp:ModifyDate>${xmpDate(modified)}</xmp:ModifyDate>` : ''}
+    </rdf:Description>
+    <rdf:Description rdf:about=""
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>${FACTURX_NAMESPACE}</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>${[
+                extensionProperty('DocumentFileName', 'The name of the embedded XML document'),
+                extensionProperty('DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER'),
+                extensionProperty('Version', 'The actual version of the standard applying to the embedded XML document'),
+                extensionProperty('ConformanceLevel', 'The conformance level of the embedded XML document'),
+              ].join('')}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:fx="${FACTURX_NAMESPACE}">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${escapeXml(info.documentFileName)}</fx:DocumentFileName>
+      <fx:Version>${FACTURX_VERSION}</fx:Version>
+      <fx:ConformanceLevel>${CONFORMANCE_LEVELS[info.profile]}</fx:ConformanceLevel>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+// ── Profil ICC sRGB ─────────────────────────────────────────────────────
+
+// Profil ICC v2 sRGB IEC 61966-2-1 de l'ICC, embarqué sans modification (voir assets/icc/README.md)
+const SRGB_ICC_PATH = fileURLToPath(new URL('../../assets/icc/sRGB2014.icc', import.meta.url));
+
+let srgbProfile: Promise<Buffer> | undefined;
+
+function srgbIccProfile(): Promise<Buffer> {
+  if (!srgbProfile) {
+    srgbProfile = readFile(SRGB_ICC_PATH);
+    srgbProfile.catch(() => { srgbProfile = undefined; });
+  }
+  return srgbProfile;
+}
+
+// ── Conversion PDF/A-3b ─────────────────────────────────────────────────
+
+/**
+ * Complète un document pour la conformité PDF/A-3b : métadonnées XMP Factur-X (remplaçant celles du document),
+ * OutputIntent sRGB et identifiant de fichier. À appeler une fois le dictionnaire Info renseigné.
+ */
+export async function applyPdfA3(pdfDoc: PDFDocument, info: FacturXXmpInfo): Promise<void> {
+  const { context, catalog } = pdfDoc;
+
+  const xmp = Buffer.from(buildXmpMetadata(pdfDoc, info), 'utf-8');
+  catalog.set(PDFName.of('Metadata'), context.register(context.stream(xmp, { Type: 'Metadata', Subtype: 'XML' })));
+
+  const iccProfile = context.register(context.flateStream(await srgbIccProfile(), { N: 3 }));
+  catalog.set(PDFName.of('OutputIntents'), context.obj([
+    context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of(SRGB_IDENTIFIER),
+      Info: PDFString.of(SRGB_IDENTIFIER),
+      RegistryName: PDFString.of('http://www.color.org'),
+      DestOutputProfile: iccProfile,
+    }),
+  ]));
+
+  const id = createHash('md5').update(xmp).digest('hex');
+  context.trailerInfo.ID = context.obj([PDFHexString.of(id), PDFHexString.of(id)]);
+}
+
+// ── Contrôle du PDF source ──────────────────────────────────────────────
+
+// Actions interdites par PDF/A (ISO 19005-2 §6.5.1)
+const FORBIDDEN_ACTIONS = new Set([
+  'Launch', 'Sound', 'Movie', 'ResetForm', 'ImportData', 'Hide', 'SetOCGState', 'Rendition', 'Trans', 'GoTo3DView', 'JavaScript',
+]);
+
+// Annotations interdites par PDF/A (ISO 19005-2 §6.3.1)
+const FORBIDDEN_ANNOTATIONS = new Set(['Sound', 'Movie', 'Screen', '3D', 'RichMedia']);
+
+// Annotations : Print requis, Invisible, Hidden et NoView interdits
+const ANNOTATION_PRINT = 4;
+const ANNOTATION_HIDDEN = 1 | 2 | 32;
+
+const CMYK_OPERATOR = /(?:^|\s)(?:[-+]?[\d.]+\s+){4}[kK](?=\s|$)/m;
+
+function nameOf(dict: PDFDict, key: string): string | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+function hasName(object: PDFObject | undefined, name: string): boolean {
+  if (object instanceof PDFName) return object.decodeText() === name;
+  if (object instanceof PDFArray) return object.asArray().some(item => item instanceof PDFName && item.decodeText() === name);
+  return false;
+}
+
+// Nom d'une spécification de fichier (UF, à défaut F)
+function fileSpecName(spec: PDFDict): string {
+  const name = spec.lookup(PDFName.of('UF')) ?? spec.lookup(PDFName.of('F'));
+  return name instanceof PDFString || name instanceof PDFHexString ? name.decodeText() : 'sans nom';
+}
+
+function isEmbeddedFont(font: PDFDict): boolean {
+  const descriptor = font.lookup(PDFName.of('FontDescriptor'));
+  return descriptor instanceof PDFDict
+    && ['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor.has(PDFName.of(key)));
+}
+
+// Flux de contenu d'une page, décodés quand le filtre est pris en charge
+function pageContents(page: PDFDict): string[] {
+  const contents = page.lookup(PDFName.of('Contents'));
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => page.context.lookup(ref)) : [contents];
+  return streams.flatMap(stream => {
+    if (!(stream instanceof PDFRawStream)) return [];
+    try {
+      return [Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1')];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Recense les éléments d'un PDF qui empêchent sa conformité PDF/A-3b et que la conversion ne corrige pas :
+ * polices non incorporées, JavaScript et actions interdites, formulaires XFA, compression LZW,
+ * couleurs CMYK (incompatibles avec l'OutputIntent sRGB), annotations multimédia ou non imprimables,
+ * fichiers embarqués sans AFRelationship.
+ */
+export function findPdfABlockers(pdfDoc: PDFDocument): string[] {
+  const blockers = new Set<string>();
+  const { catalog } = pdfDoc;
+
+  const names = catalog.lookup(PDFName.of('Names'));
+  if (names instanceof PDFDict && names.has(PDFName.of('JavaScript'))) blockers.add('JavaScript au niveau du document');
+  if (catalog.has(PDFName.of('AA'))) blockers.add('Actions automatiques (AA) au niveau du document');
+
+  const acroForm = catalog.lookup(PDFName.of('AcroForm'));
+  if (acroForm instanceof PDFDict) {
+    if (acroForm.has(PDFName.of('XFA'))) blockers.add('Formulaire XFA');
+    const needAppearances = acroForm.lookup(PDFName.of('NeedAppearances'));
+    if (needAppearances instanceof PDFBool && needAppearances.asBoolean()) {
+      blockers.add('Formulaire sans apparences figées (NeedAppearances)');
+    }
+  }
+
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    const dict = object instanceof PDFStream ? object.dict : object;
+    if (!(dict instanceof PDFDict)) continue;
+    const type = nameOf(dict, 'Type');
+    const subtype = nameOf(dict, 'Subtype');
+
+    if (type === 'Font' && subtype && !['Type0', 'Type3'].includes(subtype) && !isEmbeddedFont(dict)) {
+      blockers.add(`Police non incorporée : ${nameOf(dict, 'BaseFont') ?? subtype}`);
+    }
+
+    const action = nameOf(dict, 'S');
+    if (action && FORBIDDEN_ACTIONS.has(action)) blockers.add(`Action interdite : ${action}`);
+
+    // PDF/A-3 : tout fichier embarqué déclare sa relation au document
+    if (dict.has(PDFName.of('EF')) && !dict.has(PDFName.of('AFRelationship'))) {
+      blockers.add(`Fichier embarqué sans AFRelationship : ${fileSpecName(dict)}`);
+    }
+
+    const filter = dict.lookup(PDFName.of('Filter'));
+    if (object instanceof PDFStream && hasName(filter, 'LZWDecode')) blockers.add('Compression LZW');
+
+    if (hasName(dict.lookup(PDFName.of('ColorSpace')), 'DeviceCMYK')) {
+      blockers.add('Couleurs DeviceCMYK, incompatibles avec l\'OutputIntent sRGB');
+    }
+  }
+
+  for (const page of pdfDoc.getPages()) {
+    if (page.node.has(PDFName.of('AA'))) blockers.add('Actions automatiques (AA) sur une page');
+
+    for (const ref of page.node.Annots()?.asArray() ?? []) {
+      const annotation = page.node.context.lookup(ref);
+      if (!(annotation instanceof PDFDict)) continue;
+      const subtype = nameOf(annotation, 'Subtype') ?? 'sans type';
+      if (FORBIDDEN_ANNOTATIONS.has(subtype)) blockers.add(`Annotation interdite : ${subtype}`);
+      if (annotation.has(PDFName.of('AA'))) blockers.add('Actions automatiques (AA) sur une annotation');
+      const flags = annotation.lookup(PDFName.of('F'));
+      const value = flags instanceof PDFNumber ? flags.asNumber() : 0;
+      if (subtype !== 'Popup' && ((value & ANNOTATION_PRINT) === 0 || (value & ANNOTATION_HIDDEN) !== 0)) {
+        blockers.add(`Annotation ${subtype} non imprimable (indicateur Print absent ou annotation masquée)`);
+      }
+    }
+
+    if (pageContents(page.node).some(content => CMYK_OPERATOR.test(content))) {
+      blockers.add('Couleurs DeviceCMYK, incompatibles avec l\'OutputIntent sRGB');
+    }
+  }
+
+  return [...blockers];
+}
@@ -0,0 +1,117 @@
+import { normalizeNotes } from './mentions.js';
+import type { FacturXProfile, Invoice } from './types.js';
+
+// Chaque profil Factur-X est un sur-ensemble du précédent
+const PROFILE_LEVELS: Record<FacturXProfile, number> = {
+  MINIMUM:  0,
+  BASIC_WL: 1,
+  BASIC:    2,
+  EN_16931: 3,
+  EXTENDED: 4,
+  // Spécifications d'usage (CIUS) : contenu EN 16931, règles supplémentaires (rules.ts)
+  XRECHNUNG:  3,
+  PEPPOL_BIS: 3,
+};
+
+export const PROFILES = Object.keys(PROFILE_LEVELS) as FacturXProfile[];
+
+/** Identifiant de spécification (BT-24) des CIUS, identique en CII et en UBL. */
+export const CIUS_GUIDELINES = {
+  XRECHNUNG:  'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0',
+  PEPPOL_BIS: 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0',
+} as const;
+
+/** Processus métier (BT-23) exigé par Peppol BIS Billing 3.0 (PEPPOL-EN16931-R001). */
+export const PEPPOL_BUSINESS_PROCESS = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+// Identifiants de guideline (BT-24) : URN émis par le générateur, URN officiels Factur-X 1.0
+// (repris par ZUGFeRD 2.1 et suivants), ZUGFeRD 1.0 et 2.0, et CIUS
+const GUIDELINE_PROFILES: Record<string, FacturXProfile> = {
+  'urn:factur-x.eu:1p0:minimum': 'MINIMUM',
+  'urn:factur-x.eu:1p0:basicwl': 'BASIC_WL',
+  'urn:factur-x.eu:1p0:basic': 'BASIC',
+  'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:basic': 'BASIC',
+  'urn:cen.eu:en16931:2017': 'EN_16931',
+  'urn:cen.eu:en16931:2017#compliant#urn:factur-x.eu:1p0:en16931': 'EN_16931',
+  'urn:cen.eu:en16931:2017#conformant#urn:factur-x.eu:1p0:extended': 'EXTENDED',
+  // ZUGFeRD 1.0 : le profil COMFORT correspond au contenu EN 16931
+  'urn:ferd:CrossIndustryDocument:invoice:1p0:basic': 'BASIC',
+  'urn:ferd:CrossIndustryDocument:invoice:1p0:comfort': 'EN_16931',
+  'urn:ferd:CrossIndustryDocument:invoice:1p0:extended': 'EXTENDED',
+  // ZUGFeRD 2.0 (le profil EN 16931 y est désigné par l'URN de la norme)
+  'urn:zugferd.de:2p0:minimum': 'MINIMUM',
+  'urn:zugferd.de:2p0:basicwl': 'BASIC_WL',
+  'urn:cen.eu:en16931:2017#compliant#urn:zugferd.de:2p0:basic': 'BASIC',
+  'urn:cen.eu:en16931:2017#conformant#urn:zugferd.de:2p0:extended': 'EXTENDED',
+  [CIUS_GUIDELINES.XRECHNUNG]: 'XRECHNUNG',
+  'urn:cen.eu:en16931:2017#compliant#urn:xoev-de:kosit:standard:xrechnung_2.0': 'XRECHNUNG',
+  'urn:cen.eu:en16931:2017#compliant#urn:xoev-de:kosit:standard:xrechnung_2.1': 'XRECHNUNG',
+  'urn:cen.eu:en16931:2017#compliant#urn:xoev-de:kosit:standard:xrechnung_2.2': 'XRECHNUNG',
+  'urn:cen.eu:en16931:2017#compliant#urn:xoev-de:kosit:standard:xrechnung_2.3': 'XRECHNUNG',
+  [CIUS_GUIDELINES.PEPPOL_BIS]: 'PEPPOL_BIS',
+};
+
+/** Profil Factur-X ou CIUS désigné par un identifiant de guideline, undefined s'il n'est pas reconnu. */
+export function profileFromGuideline(guidelineId: string): FacturXProfile | undefined {
+  return GUIDELINE_PROFILES[guidelineId.trim()];
+}
+
+/** Indique si `profile` couvre au moins le périmètre de `minimum`. */
+export function profileAllows(profile: FacturXProfile, minimum: FacturXProfile): boolean {
+  return (PROFILE_LEVELS[profile] ?? PROFILE_LEVELS.EN_16931) >= PROFILE_LEVELS[minimum];
+}
+
+/**
+ * Liste les champs renseignés dans la facture que le profil choisi ne permet pas d'émettre.
+ * Ces champs sont ignorés par generateFacturX.
+ */
+export function getDroppedFields(invoice: Invoice): string[] {
+  const { profile } = invoice;
+  const dropped: string[] = [];
+  const drop = (minimum: FacturXProfile, present: unknown, label: string) => {
+    if (present && !profileAllows(profile, minimum)) dropped.push(label);
+  };
+
+  // Absents du profil MINIMUM
+  drop('BASIC_WL', normalizeNotes(invoice.notes).length, 'notes (BG-1)');
+  drop('BASIC_WL', invoice.dueDate, 'dueDate (BT-9)');
+  drop('BASIC_WL', invoice.deliveryDate, 'deliveryDate (BT-72)');
+  drop('BASIC_WL', invoice.billingPeriod, 'billingPeriod (BG-14)');
+  drop('BASIC_WL', invoice.contractRef, 'contractRef (BT-12)');
+  drop('BASIC_WL', invoice.payment, 'payment (BG-16)');
+  drop('BASIC_WL', invoice.allowances?.length, 'allowances (BG-20)');
+  drop('BASIC_WL', invoice.charges?.length, 'charges (BG-21)');
+  drop('BASIC_WL', invoice.vatExemptions?.length, 'vatExemptions (BT-120/BT-121)');
+  drop('BASIC_WL', invoice.prepaidAmount, 'prepaidAmount (BT-113)');
+  drop('BASIC_WL', invoice.taxCurrency && invoice.taxCurrency !== invoice.currency, 'taxCurrency (BT-6/BT-111)');
+  drop('BASIC_WL', invoice.precedingInvoices?.length, 'precedingInvoices (BG-3)');
+  drop('BASIC_WL', invoice.payee, 'payee (BG-10)');
+  drop('BASIC_WL', invoice.sellerTaxRepresentative, 'sellerTaxRepresentative (BG-11)');
+  drop('BASIC_WL', invoice.shipTo, 'shipTo (BG-13)');
+  drop('BASIC_WL', invoice.seller?.id, 'seller.id (BT-29)');
+  drop('BASIC_WL', invoice.buyer?.id, 'buyer.id (BT-46)');
+  drop('BASIC_WL', invoice.buyer?.vatNumber, 'buyer.vatNumber (BT-48)');
+  drop('BASIC_WL', invoice.seller?.address?.street, 'seller.address (hors pays) (BG-5)');
+  drop('BASIC_WL', invoice.buyer?.address?.street, 'buyer.address (BG-8)');
+  drop('BASIC_WL', invoice.seller?.contact?.email, 'seller.contact.email (BT-34)');
+  drop('BASIC_WL', invoice.buyer?.contact?.email, 'buyer.contact.email (BT-49)');
+  drop('BASIC_WL', invoice.seller?.electronicAddress, 'seller.electronicAddress (BT-34)');
+  drop('BASIC_WL', invoice.buyer?.electronicAddress, 'buyer.electronicAddress (BT-49)');
+
+  // Absents des profils MINIMUM et BASIC_WL
+  drop('BASIC', invoice.lines?.length, `lines (BG-25) — ${invoice.lines?.length ?? 0} ligne(s) non détaillée(s)`);
+
+  // Réservés au profil EN 16931 et au-delà
+  drop('EN_16931', invoice.roundingAmount, 'roundingAmount (BT-114)');
+  drop('EN_16931', invoice.payment?.bic, 'payment.bic (BT-86)');
+  drop('EN_16931', invoice.supportingDocuments?.length, 'supportingDocuments (BG-24)');
+  drop('EN_16931', invoice.seller?.contact?.name || invoice.seller?.contact?.phone, 'seller.contact (BG-6)');
+  drop('EN_16931', invoice.buyer?.contact?.name || invoice.buyer?.contact?.phone, 'buyer.contact (BG-9)');
+  if (profileAllows(profile, 'BASIC')) {
+    drop('EN_16931', invoice.lines?.some(l => l.productId), 'lines[].productId (BT-155)');
+    drop('EN_16931', invoice.lines?.some(l => l.buyerProductId), 'lines[].buyerProductId (BT-156)');
+    drop('EN_16931', invoice.lines?.some(l => l.note), 'lines[].note (BT-154)');
+  }
+
+  return dropped;
+}
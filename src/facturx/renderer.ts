@@ -0,0 +1,528 @@
+import { rgb, type PDFDocument, type PDFFont, type PDFPage } from 'pdf-lib';
+import { allowanceChargeAmount, calculateTotals, identifierScheme } from './generator.js';
+import { SCHEME_SIREN, SCHEME_SIRET } from './identifiers.js';
+import { normalizeNotes } from './mentions.js';
+import type {
+  BillingPeriod,
+  Invoice,
+  InvoiceLine,
+  InvoiceTotals,
+  InvoiceTypeCode,
+  LineAllowanceCharge,
+  PaymentMeansCode,
+  TradeParty,
+  TradePartyAddress,
+  VatCategoryCode,
+} from './types.js';
+
+/** Polices incorporées utilisées par le rendu : texte courant et titres. */
+export interface InvoiceFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+// ── Libellés ────────────────────────────────────────────────────────────
+
+const DOCUMENT_TITLES: Record<InvoiceTypeCode, string> = {
+  '380': 'FACTURE',
+  '381': 'AVOIR',
+  '384': 'FACTURE RECTIFICATIVE',
+  '389': 'AUTOFACTURE',
+};
+
+const VAT_CATEGORY_LABELS: Record<VatCategoryCode, string> = {
+  S:  'Taux normal',
+  Z:  'Taux zéro',
+  E:  'Exonéré',
+  AE: 'Autoliquidation',
+  K:  'Livraison intracommunautaire',
+  G:  'Exportation hors UE',
+  O:  'Hors champ de la TVA',
+  L:  'IGIC (Canaries)',
+  M:  'IPSI (Ceuta et Melilla)',
+};
+
+const PAYMENT_MEANS_LABELS: Record<PaymentMeansCode, string> = {
+  '30': 'Virement',
+  '31': 'Virement',
+  '42': 'Virement sur compte bancaire',
+  '48': 'Carte bancaire',
+  '49': 'Prélèvement',
+  '57': 'Accord de paiement permanent',
+  '58': 'Virement SEPA',
+  '59': 'Prélèvement SEPA',
+};
+
+// Unités UN/ECE Rec. 20 courantes ; les autres codes sont affichés tels quels
+const UNIT_LABELS: Record<string, string> = {
+  C62: 'u.', H87: 'pièce', HUR: 'h', MIN: 'min', DAY: 'jour', WEE: 'sem.', MON: 'mois', ANN: 'an',
+  KGM: 'kg', GRM: 'g', TNE: 't', MTR: 'm', KMT: 'km', MTK: 'm²', MTQ: 'm³', LTR: 'l', KWH: 'kWh', SET: 'lot', XPK: 'colis',
+};
+
+// ── Mise en page ────────────────────────────────────────────────────────
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_SIZE[0] - 2 * MARGIN;
+const FOOTER_HEIGHT = 40;
+const TEXT_SIZE = 9;
+const SMALL_SIZE = 7.5;
+const LINE_GAP = 3;
+
+const BLACK = rgb(0, 0, 0);
+const GREY = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.75, 0.75, 0.75);
+const SHADE = rgb(0.93, 0.93, 0.93);
+
+type Align = 'left' | 'right';
+
+interface Column {
+  title: string;
+  width: number;
+  align: Align;
+}
+
+// Tableau des lignes : désignation, quantité, unité, prix unitaire, TVA, montant
+const LINE_COLUMNS: Column[] = [
+  { title: 'Désignation', width: 215, align: 'left' },
+  { title: 'Qté',         width: 50,  align: 'right' },
+  { title: 'Unité',       width: 45,  align: 'left' },
+  { title: 'PU HT',       width: 70,  align: 'right' },
+  { title: 'TVA',         width: 40,  align: 'right' },
+  { title: 'Montant HT',  width: CONTENT_WIDTH - 420, align: 'right' },
+];
+
+// Récapitulatif TVA, à gauche des totaux
+const VAT_COLUMNS: Column[] = [
+  { title: 'TVA',     width: 105, align: 'left' },
+  { title: 'Taux',    width: 40,  align: 'right' },
+  { title: 'Base HT', width: 65,  align: 'right' },
+  { title: 'Montant', width: 65,  align: 'right' },
+];
+
+// Curseur d'écriture : page courante et position verticale
+interface Canvas {
+  doc: PDFDocument;
+  fonts: InvoiceFonts;
+  page: PDFPage;
+  font?: PDFFont; // Police active de la page, pour ne pas la redéclarer à chaque texte
+  y: number;
+  // Redessiné en haut de chaque nouvelle page (en-tête du tableau en cours)
+  onNewPage?: () => void;
+}
+
+function newPage(canvas: Canvas): void {
+  canvas.page = canvas.doc.addPage(PAGE_SIZE);
+  canvas.font = undefined;
+  canvas.y = PAGE_SIZE[1] - MARGIN;
+  canvas.onNewPage?.();
+}
+
+// Passe à la page suivante si la hauteur demandée ne tient pas au-dessus du pied de page
+function ensureSpace(canvas: Canvas, height: number): void {
+  if (canvas.y - height < MARGIN + FOOTER_HEIGHT) newPage(canvas);
+}
+
+function lineHeight(size: number): number {
+  return size + LINE_GAP;
+}
+
+// Découpe un texte en lignes tenant dans la largeur donnée (mots trop longs coupés)
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      current = word;
+      while (font.widthOfTextAtSize(current, size) > width && current.length > 1) {
+        let cut = current.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > width) cut--;
+        lines.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+function drawText(
+  canvas: Canvas, text: string, x: number, y: number,
+  { size = TEXT_SIZE, bold = false, color = BLACK, align = 'left', width = 0 }:
+    { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; align?: Align; width?: number } = {},
+): void {
+  const font = bold ? canvas.fonts.bold : canvas.fonts.regular;
+  const left = align === 'right' ? x + width - font.widthOfTextAtSize(text, size) : x;
+  if (canvas.font !== font) {
+    canvas.page.setFont(font);
+    canvas.font = font;
+  }
+  canvas.page.drawText(text, { x: left, y, size, color });
+}
+
+function rule(canvas: Canvas, y: number, x = MARGIN, width = CONTENT_WIDTH): void {
+  canvas.page.drawLine({ start: { x, y }, end: { x: x + width, y }, thickness: 0.5, color: RULE });
+}
+
+// ── Formats ─────────────────────────────────────────────────────────────
+
+function formatDate(isoDate: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : isoDate;
+}
+
+function formatPeriod({ startDate, endDate }: BillingPeriod): string {
+  if (startDate && endDate) return `du ${formatDate(startDate)} au ${formatDate(endDate)}`;
+  return startDate ? `à partir du ${formatDate(startDate)}` : `jusqu'au ${formatDate(endDate ?? '')}`;
+}
+
+// Séparateur de milliers français (espace fine insécable) remplacé par une espace insécable
+function formatNumber(value: number, minDigits: number, maxDigits = minDigits): string {
+  return new Intl.NumberFormat('fr-FR', { minimumFractionDigits: minDigits, maximumFractionDigits: maxDigits })
+    .format(value)
+    .replace(/[\u202f\u00a0]/g, '\u00a0');
+}
+
+function formatMoney(value: number, currency: string): string {
+  return `${formatNumber(value, 2)} ${currency === 'EUR' ? '€' : currency}`;
+}
+
+function formatRate(rate: number): string {
+  return `${formatNumber(rate, 0, 2)} %`;
+}
+
+// Libellé d'un identifiant d'après son schéma, déduit pour un SIREN / SIRET d'un acteur français
+function identifierLabel(value: string, scheme: string | undefined, french: boolean, fallback: string): string {
+  const resolved = identifierScheme(value, scheme, french);
+  return resolved === SCHEME_SIRET ? 'SIRET' : resolved === SCHEME_SIREN ? 'SIREN' : fallback;
+}
+
+function addressLines(address: TradePartyAddress): string[] {
+  return [
+    address.street,
+    address.additionalStreet ?? '',
+    [address.postalCode, address.city].filter(Boolean).join(' '),
+    [address.stateOrProvince, address.countryCode].filter(Boolean).join(', '),
+  ].filter(Boolean);
+}
+
+function partyLines(party: TradeParty): string[] {
+  const contact = party.contact;
+  const french = party.address.countryCode === 'FR';
+  return [
+    ...addressLines(party.address),
+    ...(party.id ? [`${identifierLabel(party.id, party.idScheme, french, 'Identifiant')} : ${party.id}`] : []),
+    ...(party.legalId ? [`${identifierLabel(party.legalId, party.legalIdScheme, french, 'Immatriculation')} : ${party.legalId}`] : []),
+    ...(party.vatNumber ? [`N° TVA : ${party.vatNumber}`] : []),
+    ...(party.electronicAddress ? [`Adresse électronique : ${party.electronicAddress}`] : []),
+    ...(contact?.name ? [`Contact : ${contact.name}`] : []),
+    ...(contact?.phone ? [`Tél. : ${contact.phone}`] : []),
+    ...(contact?.email ? [contact.email] : []),
+  ];
+}
+
+function allowanceChargeLabel(ac: LineAllowanceCharge, charge: boolean, currency: string): string {
+  const label = ac.reason ?? (charge ? 'Frais' : 'Remise');
+  const percentage = typeof ac.percentage === 'number' ? ` (${formatRate(ac.percentage)})` : '';
+  return `${label}${percentage} : ${charge ? '+' : '−'}${formatMoney(allowanceChargeAmount(ac).toNumber(), currency)}`;
+}
+
+// ── Blocs ───────────────────────────────────────────────────────────────
+
+function drawHeader(canvas: Canvas, invoice: Invoice): void {
+  const top = canvas.y;
+  drawText(canvas, DOCUMENT_TITLES[invoice.typeCode] ?? 'FACTURE', MARGIN, top - 18, { size: 20, bold: true });
+  drawText(canvas, `N° ${invoice.number}`, MARGIN, top - 36, { size: 11, bold: true });
+
+  const dates = [
+    `Date : ${formatDate(invoice.date)}`,
+    ...(invoice.dueDate ? [`Échéance : ${formatDate(invoice.dueDate)}`] : []),
+    ...(invoice.deliveryDate ? [`Livraison : ${formatDate(invoice.deliveryDate)}`] : []),
+    ...(invoice.billingPeriod ? [`Période : ${formatPeriod(invoice.billingPeriod)}`] : []),
+  ];
+  dates.forEach((line, i) => {
+    drawText(canvas, line, MARGIN + CONTENT_WIDTH / 2, top - 14 - i * lineHeight(TEXT_SIZE), {
+      align: 'right', width: CONTENT_WIDTH / 2,
+    });
+  });
+  canvas.y = top - Math.max(48, 18 + dates.length * lineHeight(TEXT_SIZE)) - 10;
+}
+
+interface Block {
+  title: string;
+  name: string;
+  lines: string[];
+}
+
+// Blocs deux par deux, côte à côte (vendeur / acheteur, livraison / bénéficiaire…)
+function drawBlocks(canvas: Canvas, blocks: Block[]): void {
+  for (let i = 0; i < blocks.length; i += 2) drawBlockRow(canvas, blocks.slice(i, i + 2));
+}
+
+function drawBlockRow(canvas: Canvas, blocks: Block[]): void {
+  const width = (CONTENT_WIDTH - 20) / 2;
+  const wrapped = blocks.map(b => ({
+    ...b,
+    name: wrap(b.name, canvas.fonts.bold, 10, width - 12),
+    lines: b.lines.flatMap(l => wrap(l, canvas.fonts.regular, TEXT_SIZE, width - 12)),
+  }));
+  const height = Math.max(...wrapped.map(b => 18 + b.name.length * lineHeight(10) + b.lines.length * lineHeight(TEXT_SIZE))) + 8;
+  ensureSpace(canvas, height);
+
+  wrapped.forEach((block, i) => {
+    const x = MARGIN + i * (width + 20);
+    canvas.page.drawRectangle({ x, y: canvas.y - height, width, height, borderColor: RULE, borderWidth: 0.5 });
+    let y = canvas.y - 12;
+    drawText(canvas, block.title.toUpperCase(), x + 6, y, { size: SMALL_SIZE, color: GREY });
+    for (const line of block.name) drawText(canvas, line, x + 6, (y -= lineHeight(10)), { size: 10, bold: true });
+    for (const line of block.lines) drawText(canvas, line, x + 6, (y -= lineHeight(TEXT_SIZE)));
+  });
+  canvas.y -= height + 12;
+}
+
+function drawReferences(canvas: Canvas, invoice: Invoice): void {
+  const references = [
+    ...(invoice.purchaseOrderRef ? [`Commande : ${invoice.purchaseOrderRef}`] : []),
+    ...(invoice.contractRef ? [`Contrat : ${invoice.contractRef}`] : []),
+    ...(invoice.buyerRef ? [`Référence acheteur : ${invoice.buyerRef}`] : []),
+    ...(invoice.precedingInvoices ?? []).map(ref =>
+      `Facture d'origine : ${ref.number}${ref.issueDate ? ` du ${formatDate(ref.issueDate)}` : ''}`),
+    ...(invoice.supportingDocuments ?? []).map(doc =>
+      `Justificatif : ${doc.id}${doc.description ? ` — ${doc.description}` : ''}`),
+  ];
+  if (!references.length) return;
+  const lines = wrap(references.join('   ·   '), canvas.fonts.regular, TEXT_SIZE, CONTENT_WIDTH);
+  ensureSpace(canvas, lines.length * lineHeight(TEXT_SIZE) + 8);
+  for (const line of lines) drawText(canvas, line, MARGIN, (canvas.y -= lineHeight(TEXT_SIZE)));
+  canvas.y -= 12;
+}
+
+function drawTableHeader(canvas: Canvas, columns: Column[], x = MARGIN): void {
+  const width = columns.reduce((sum, c) => sum + c.width, 0);
+  canvas.page.drawRectangle({ x, y: canvas.y - 16, width, height: 16, color: SHADE });
+  let left = x;
+  for (const column of columns) {
+    drawText(canvas, column.title, left + 4, canvas.y - 11, { bold: true, align: column.align, width: column.width - 8 });
+    left += column.width;
+  }
+  canvas.y -= 16;
+}
+
+// Ligne de tableau : cellules sur une ligne, puis détails sous la première colonne
+function drawRow(canvas: Canvas, columns: Column[], cells: string[], details: string[] = [], x = MARGIN): void {
+  const first = wrap(cells[0], canvas.fonts.regular, TEXT_SIZE, columns[0].width - 8);
+  const extra = details.flatMap(d => wrap(d, canvas.fonts.regular, SMALL_SIZE, columns[0].width - 8));
+  const height = 6 + first.length * lineHeight(TEXT_SIZE) + extra.length * lineHeight(SMALL_SIZE);
+  ensureSpace(canvas, height);
+
+  const baseline = canvas.y - lineHeight(TEXT_SIZE);
+  let y = baseline;
+  for (const line of first) {
+    drawText(canvas, line, x + 4, y);
+    y -= lineHeight(TEXT_SIZE);
+  }
+  for (const line of extra) {
+    drawText(canvas, line, x + 4, y, { size: SMALL_SIZE, color: GREY });
+    y -= lineHeight(SMALL_SIZE);
+  }
+  let left = x + columns[0].width;
+  columns.slice(1).forEach((column, i) => {
+    drawText(canvas, cells[i + 1] ?? '', left + 4, baseline, { align: column.align, width: column.width - 8 });
+    left += column.width;
+  });
+  canvas.y -= height;
+  rule(canvas, canvas.y, x, columns.reduce((sum, c) => sum + c.width, 0));
+}
+
+function lineDetails(line: InvoiceLine, currency: string): string[] {
+  return [
+    ...(line.productId || line.buyerProductId
+      ? [[line.productId && `Réf. ${line.productId}`, line.buyerProductId && `Réf. acheteur ${line.buyerProductId}`].filter(Boolean).join(' · ')]
+      : []),
+    ...(line.note ? [line.note] : []),
+    ...(line.billingPeriod ? [`Période ${formatPeriod(line.billingPeriod)}`] : []),
+    ...(typeof line.grossPrice === 'number' && line.priceDiscount
+      ? [`Prix brut ${formatMoney(line.grossPrice, currency)}, remise ${formatMoney(line.priceDiscount, currency)}`]
+      : []),
+    ...(line.priceBaseQuantity && line.priceBaseQuantity !== 1 ? [`Prix pour ${formatNumber(line.priceBaseQuantity, 0, 4)} unités`] : []),
+    ...(line.allowances ?? []).map(ac => allowanceChargeLabel(ac, false, currency)),
+    ...(line.charges ?? []).map(ac => allowanceChargeLabel(ac, true, currency)),
+  ];
+}
+
+function drawLines(canvas: Canvas, invoice: Invoice): void {
+  ensureSpace(canvas, 16 + 2 * lineHeight(TEXT_SIZE));
+  drawTableHeader(canvas, LINE_COLUMNS);
+  canvas.onNewPage = () => drawTableHeader(canvas, LINE_COLUMNS);
+  for (const line of invoice.lines) {
+    drawRow(canvas, LINE_COLUMNS, [
+      line.description,
+      formatNumber(line.quantity, 0, 4),
+      UNIT_LABELS[line.unitCode] ?? line.unitCode,
+      formatMoney(line.unitPrice, invoice.currency),
+      formatRate(line.vatRate),
+      formatMoney(line.totalAmount, invoice.currency),
+    ], lineDetails(line, invoice.currency));
+  }
+  canvas.onNewPage = undefined;
+  canvas.y -= 14;
+}
+
+// Récapitulatif TVA à gauche, totaux à droite
+function drawSummary(canvas: Canvas, invoice: Invoice, totals: InvoiceTotals): void {
+  const currency = invoice.currency;
+  const money = (value: number) => formatMoney(value, currency);
+  const rows: Array<[string, string, boolean?]> = [
+    ['Total lignes HT', money(totals.lineTotalAmount)],
+    ...(invoice.allowances ?? []).map((ac): [string, string] => [ac.reason ?? 'Remise', `−${money(allowanceChargeAmount(ac).toNumber())}`]),
+    ...(invoice.charges ?? []).map((ac): [string, string] => [ac.reason ?? 'Frais', `+${money(allowanceChargeAmount(ac).toNumber())}`]),
+    ...(totals.allowanceTotalAmount || totals.chargeTotalAmount ? [['Total HT', money(totals.taxBasisTotalAmount)] as [string, string]] : []),
+    ['Total TVA', money(totals.taxTotalAmount)],
+    ...(totals.taxTotalAmountInTaxCurrency !== undefined && invoice.taxCurrency
+      ? [[`Total TVA en ${invoice.taxCurrency}`, formatMoney(totals.taxTotalAmountInTaxCurrency, invoice.taxCurrency)] as [string, string]]
+      : []),
+    ['Total TTC', money(totals.grandTotalAmount), true],
+    ...(totals.prepaidAmount ? [['Déjà payé', `−${money(totals.prepaidAmount)}`] as [string, string]] : []),
+    ...(totals.roundingAmount ? [['Arrondi', money(totals.roundingAmount)] as [string, string]] : []),
+    ['Net à payer', money(totals.duePayableAmount), true],
+  ];
+
+  const vatWidth = VAT_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+  const exemptions = totals.vatSummaries
+    .filter(v => v.exemptionReason || v.exemptionReasonCode)
+    .map(v => `${VAT_CATEGORY_LABELS[v.categoryCode] ?? v.categoryCode} : ${[v.exemptionReason, v.exemptionReasonCode].filter(Boolean).join(' — ')}`)
+    .flatMap(text => wrap(text, canvas.fonts.regular, SMALL_SIZE, vatWidth));
+  const vatHeight = 16 + totals.vatSummaries.length * (6 + lineHeight(TEXT_SIZE)) + exemptions.length * lineHeight(SMALL_SIZE) + 6;
+  const totalsHeight = rows.length * lineHeight(TEXT_SIZE + 1) + 8;
+  ensureSpace(canvas, Math.max(vatHeight, totalsHeight));
+
+  const top = canvas.y;
+  drawTableHeader(canvas, VAT_COLUMNS);
+  for (const vat of totals.vatSummaries) {
+    drawRow(canvas, VAT_COLUMNS, [
+      `${vat.categoryCode} — ${VAT_CATEGORY_LABELS[vat.categoryCode] ?? vat.categoryCode}`,
+      formatRate(vat.rate),
+      money(vat.taxableAmount),
+      money(vat.taxAmount),
+    ]);
+  }
+  canvas.y -= 4;
+  for (const line of exemptions) drawText(canvas, line, MARGIN, (canvas.y -= lineHeight(SMALL_SIZE)), { size: SMALL_SIZE, color: GREY });
+  const vatBottom = canvas.y;
+
+  const x = MARGIN + vatWidth + 20;
+  const width = MARGIN + CONTENT_WIDTH - x;
+  let y = top;
+  for (const [label, value, strong] of rows) {
+    y -= lineHeight(TEXT_SIZE + 1);
+    if (strong) canvas.page.drawRectangle({ x, y: y - 4, width, height: lineHeight(TEXT_SIZE + 1), color: SHADE });
+    drawText(canvas, label, x + 4, y, { bold: strong });
+    drawText(canvas, value, x, y, { bold: strong, align: 'right', width: width - 4 });
+  }
+  canvas.y = Math.min(vatBottom, y - 8) - 14;
+}
+
+// Paragraphe titré, éventuellement sur plusieurs pages
+function drawSection(canvas: Canvas, title: string, lines: string[]): void {
+  const wrapped = lines.flatMap(l => wrap(l, canvas.fonts.regular, TEXT_SIZE, CONTENT_WIDTH));
+  if (!wrapped.length) return;
+  ensureSpace(canvas, lineHeight(10) + 2 * lineHeight(TEXT_SIZE));
+  drawText(canvas, title, MARGIN, (canvas.y -= lineHeight(10)), { size: 10, bold: true });
+  canvas.y -= 2;
+  for (const line of wrapped) {
+    ensureSpace(canvas, lineHeight(TEXT_SIZE));
+    drawText(canvas, line, MARGIN, (canvas.y -= lineHeight(TEXT_SIZE)));
+  }
+  canvas.y -= 12;
+}
+
+function paymentLines(invoice: Invoice): string[] {
+  const payment = invoice.payment;
+  if (!payment) return [];
+  return [
+    `Mode de paiement : ${PAYMENT_MEANS_LABELS[payment.meansCode] ?? payment.meansCode}`,
+    ...(payment.iban ? [`IBAN : ${payment.iban.replace(/(.{4})(?=.)/g, '$1 ')}`] : []),
+    ...(payment.bic ? [`BIC : ${payment.bic}`] : []),
+    ...(payment.reference ? [`Référence à rappeler : ${payment.reference}`] : []),
+    ...(payment.terms ? [payment.terms] : []),
+  ];
+}
+
+// Pied de page : identification du vendeur et numérotation, sur chaque page du rendu
+function drawFooters(canvas: Canvas, invoice: Invoice, pages: PDFPage[]): void {
+  const seller = invoice.seller;
+  const identity = [
+    seller.name,
+    seller.legalId && `${identifierLabel(seller.legalId, seller.legalIdScheme, seller.address.countryCode === 'FR', 'Immatriculation')} ${seller.legalId}`,
+    seller.vatNumber && `TVA ${seller.vatNumber}`,
+  ].filter(Boolean).join(' · ');
+  pages.forEach((page, i) => {
+    canvas.page = page;
+    canvas.font = undefined;
+    rule(canvas, MARGIN + 14);
+    drawText(canvas, identity, MARGIN, MARGIN, { size: SMALL_SIZE, color: GREY });
+    drawText(canvas, `${invoice.number} — page ${i + 1}/${pages.length}`, MARGIN, MARGIN, {
+      size: SMALL_SIZE, color: GREY, align: 'right', width: CONTENT_WIDTH,
+    });
+  });
+}
+
+/**
+ * Ajoute au document la représentation lisible de la facture : en-tête, vendeur et acheteur, références,
+ * lignes (tableau paginé), récapitulatif TVA, totaux, paiement et mentions.
+ * Les totaux et la ventilation TVA sont ceux déclarés (`totals`, ex : lus dans le XML), à défaut recalculés à partir des lignes.
+ */
+export function renderInvoice(
+  doc: PDFDocument,
+  invoice: Invoice,
+  fonts: InvoiceFonts,
+  totals: InvoiceTotals = calculateTotals(invoice)
+): void {
+  const first = doc.getPageCount();
+  const canvas: Canvas = { doc, fonts, page: doc.addPage(PAGE_SIZE), y: PAGE_SIZE[1] - MARGIN };
+
+  drawHeader(canvas, invoice);
+  drawBlocks(canvas, [
+    { title: 'Vendeur', name: invoice.seller.name, lines: partyLines(invoice.seller) },
+    { title: 'Client',  name: invoice.buyer.name,  lines: partyLines(invoice.buyer) },
+  ]);
+  drawBlocks(canvas, [
+    ...(invoice.shipTo ? [{
+      title: 'Livraison',
+      name: invoice.shipTo.name ?? invoice.buyer.name,
+      lines: [
+        ...(invoice.shipTo.address ? addressLines(invoice.shipTo.address) : []),
+        ...(invoice.shipTo.locationId ? [`Lieu : ${invoice.shipTo.locationId}`] : []),
+      ],
+    }] : []),
+    ...(invoice.payee ? [{
+      title: 'Bénéficiaire du paiement',
+      name: invoice.payee.name,
+      lines: [
+        // Sans adresse, le schéma des identifiants du bénéficiaire n'est pas déduit
+        ...(invoice.payee.id ? [`${identifierLabel(invoice.payee.id, invoice.payee.idScheme, false, 'Identifiant')} : ${invoice.payee.id}`] : []),
+        ...(invoice.payee.legalId
+          ? [`${identifierLabel(invoice.payee.legalId, invoice.payee.legalIdScheme, false, 'Immatriculation')} : ${invoice.payee.legalId}`]
+          : []),
+      ],
+    }] : []),
+    ...(invoice.sellerTaxRepresentative ? [{
+      title: 'Représentant fiscal',
+      name: invoice.sellerTaxRepresentative.name,
+      lines: [...addressLines(invoice.sellerTaxRepresentative.address), `N° TVA : ${invoice.sellerTaxRepresentative.vatNumber}`],
+    }] : []),
+  ]);
+  drawReferences(canvas, invoice);
+  drawLines(canvas, invoice);
+  drawSummary(canvas, invoice, totals);
+  drawSection(canvas, 'Paiement', paymentLines(invoice));
+  drawSection(canvas, 'Mentions', normalizeNotes(invoice.notes).map(n => n.content));
+
+  drawFooters(canvas, invoice, doc.getPages().slice(first));
+}
@@ -0,0 +1,507 @@
+import { Decimal, money } from './decimal.js';
+import { allowanceChargeAmount, calculateTotals } from './generator.js';
+import { profileAllows } from './profiles.js';
+import type {
+  AllowanceCharge,
+  FacturXProfile,
+  Invoice,
+  InvoiceTotals,
+  LineAllowanceCharge,
+  ValidationFinding,
+  VatCategoryCode,
+  VatSummary,
+} from './types.js';
+
+/**
+ * Moteur de règles métier EN 16931 appliqué au modèle Invoice :
+ * règles de base (BR-*), de calcul (BR-CO-*) et par catégorie de TVA (BR-S/Z/E/AE/IC/G/O-*).
+ * Chaque constat porte l'identifiant officiel de la règle, sa sévérité et le chemin de l'élément fautif.
+ */
+export interface RuleContext {
+  readonly invoice: Invoice;
+  readonly totals: InvoiceTotals;   // Totaux déclarés (XML analysé) ou, à défaut, recalculés
+  readonly computed: InvoiceTotals; // Totaux recalculés à partir des lignes
+}
+
+interface Violation {
+  path: string;
+  message: string;
+}
+
+export interface BusinessRule {
+  id: string;
+  severity: ValidationFinding['severity'];
+  minProfile: FacturXProfile; // Profil Factur-X à partir duquel la règle s'applique
+  usesLines?: boolean;        // Confronte les totaux au détail des lignes
+  check: (ctx: RuleContext) => Violation[];
+}
+
+// ── Utilitaires ────────────────────────────────────────────────────────────
+
+const blank = (value: string | undefined) => !value?.trim();
+const notNumber = (value: unknown) => typeof value !== 'number' || Number.isNaN(value);
+// Montant explicite, ou assiette et pourcentage
+const noAmount = (ac: AllowanceCharge | LineAllowanceCharge) =>
+  notNumber(ac.amount) && (notNumber(ac.baseAmount) || notNumber(ac.percentage));
+
+function sameAmount(a: number | Decimal, b: number | Decimal): boolean {
+  return money(a).equals(money(b));
+}
+
+function when(condition: unknown, path: string, message: string): Violation[] {
+  return condition ? [{ path, message }] : [];
+}
+
+type AllowanceChargeEntry = { ac: AllowanceCharge; path: string; charge: boolean };
+
+function documentAllowanceCharges(invoice: Invoice): AllowanceChargeEntry[] {
+  return [
+    ...(invoice.allowances ?? []).map((ac, i) => ({ ac, path: `allowances[${i}]`, charge: false })),
+    ...(invoice.charges ?? []).map((ac, i) => ({ ac, path: `charges[${i}]`, charge: true })),
+  ];
+}
+
+// Ventilation TVA d'une catégorie (chemin dans les totaux)
+function summariesOf(ctx: RuleContext, category: VatCategoryCode): Array<{ vat: VatSummary; path: string }> {
+  return ctx.totals.vatSummaries
+    .map((vat, i) => ({ vat, path: `vatSummaries[${i}]` }))
+    .filter(({ vat }) => vat.categoryCode === category);
+}
+
+function usesCategory(invoice: Invoice, category: VatCategoryCode): boolean {
+  return invoice.lines.some(l => l.vatCategory === category) ||
+    documentAllowanceCharges(invoice).some(({ ac }) => ac.vatCategory === category);
+}
+
+// Assiette attendue d'un couple catégorie/taux : lignes − remises + charges (BR-x-08)
+function expectedTaxable(invoice: Invoice, category: VatCategoryCode, rate: number | undefined): Decimal {
+  const matches = (c: VatCategoryCode, r: number) => c === category && (rate === undefined || r === rate);
+  let sum = Decimal.ZERO;
+  for (const line of invoice.lines) if (matches(line.vatCategory, line.vatRate)) sum = sum.plus(money(line.totalAmount));
+  for (const { ac, charge } of documentAllowanceCharges(invoice)) {
+    if (!matches(ac.vatCategory, ac.vatRate)) continue;
+    const amount = allowanceChargeAmount(ac);
+    sum = charge ? sum.plus(amount) : sum.minus(amount);
+  }
+  return sum;
+}
+
+const hasSellerVatId = (inv: Invoice) =>
+  !blank(inv.seller?.vatNumber) || !blank(inv.sellerTaxRepresentative?.vatNumber);
+
+// ── Règles par catégorie de TVA ────────────────────────────────────────────
+
+interface CategorySpec {
+  code: VatCategoryCode;
+  prefix: string;       // BR-S, BR-Z, BR-IC…
+  label: string;
+  zeroRate: boolean;    // Taux 0 % imposé (x-05, x-06, x-07)
+  exemption: 'forbidden' | 'required';
+  singleBreakdown: boolean; // Une seule ventilation pour la catégorie (x-01)
+}
+
+const CATEGORY_SPECS: CategorySpec[] = [
+  { code: 'S',  prefix: 'BR-S',  label: 'taux normal',              zeroRate: false, exemption: 'forbidden', singleBreakdown: false },
+  { code: 'Z',  prefix: 'BR-Z',  label: 'taux zéro',                zeroRate: true,  exemption: 'forbidden', singleBreakdown: true },
+  { code: 'E',  prefix: 'BR-E',  label: 'exonérée',                 zeroRate: true,  exemption: 'required',  singleBreakdown: true },
+  { code: 'AE', prefix: 'BR-AE', label: 'autoliquidation',          zeroRate: true,  exemption: 'required',  singleBreakdown: true },
+  { code: 'K',  prefix: 'BR-IC', label: 'livraison intracommunautaire', zeroRate: true, exemption: 'required', singleBreakdown: true },
+  { code: 'G',  prefix: 'BR-G',  label: 'export hors UE',           zeroRate: true,  exemption: 'required',  singleBreakdown: true },
+  { code: 'O',  prefix: 'BR-O',  label: 'hors champ',               zeroRate: true,  exemption: 'required',  singleBreakdown: true },
+];
+
+function categoryRules(spec: CategorySpec): BusinessRule[] {
+  const { code, prefix, label } = spec;
+  const cat = `catégorie ${code} (${label})`;
+  const rule = (n: string, check: BusinessRule['check']): BusinessRule =>
+    ({ id: `${prefix}-${n}`, severity: 'error', minProfile: 'BASIC_WL', check });
+
+  const rateRule = (n: string, items: (inv: Invoice) => Array<{ rate: number; category: VatCategoryCode; path: string }>) =>
+    rule(n, ({ invoice }) => items(invoice).flatMap(({ rate, category, path }) => {
+      if (category !== code || typeof rate !== 'number') return [];
+      if (spec.zeroRate) return when(rate !== 0, `${path}.vatRate`, `Taux de ${rate} % pour la ${cat} — doit être 0 %`);
+      return when(rate <= 0, `${path}.vatRate`, `Taux de ${rate} % pour la ${cat} — doit être supérieur à 0 %`);
+    }));
+
+  const rules: BusinessRule[] = [
+    // x-01 : ventilation TVA présente (et unique pour les catégories à taux zéro)
+    rule('01', ctx => {
+      if (!usesCategory(ctx.invoice, code)) return [];
+      const count = summariesOf(ctx, code).length;
+      if (count === 0) return [{ path: 'vatSummaries', message: `Ventilation TVA absente pour la ${cat}` }];
+      return when(spec.singleBreakdown && count > 1, 'vatSummaries', `Une seule ventilation TVA autorisée pour la ${cat} (${count} trouvées)`);
+    }),
+    // x-05 à x-07 : taux des lignes, remises et charges
+    rateRule('05', inv => inv.lines.map((l, i) => ({ rate: l.vatRate, category: l.vatCategory, path: `lines[${i}]` }))),
+    rateRule('06', inv => (inv.allowances ?? []).map((a, i) => ({ rate: a.vatRate, category: a.vatCategory, path: `allowances[${i}]` }))),
+    rateRule('07', inv => (inv.charges ?? []).map((c, i) => ({ rate: c.vatRate, category: c.vatCategory, path: `charges[${i}]` }))),
+    // x-08 : assiette = lignes − remises + charges de la catégorie (et du taux pour S)
+    { ...rule('08', ctx => summariesOf(ctx, code).flatMap(({ vat, path }) => {
+      const expected = expectedTaxable(ctx.invoice, code, code === 'S' ? vat.rate : undefined);
+      return when(!sameAmount(expected, vat.taxableAmount), `${path}.taxableAmount`,
+        `Assiette ${cat}${code === 'S' ? ` à ${vat.rate} %` : ''} (${money(vat.taxableAmount)}) ≠ lignes − remises + charges (${expected})`);
+    })), usesLines: true },
+    // x-09 : montant de TVA
+    rule('09', ctx => summariesOf(ctx, code).flatMap(({ vat, path }) => {
+      if (spec.zeroRate) return when(!sameAmount(vat.taxAmount, 0), `${path}.taxAmount`, `Montant de TVA non nul (${vat.taxAmount}) pour la ${cat}`);
+      // TVA arrondie par ligne : seul l'écart toléré par BR-CO-17 s'applique
+      if (ctx.invoice.vatRoundingMode === 'line') return [];
+      const expected = money(Decimal.from(vat.taxableAmount).percent(vat.rate));
+      return when(!sameAmount(expected, vat.taxAmount), `${path}.taxAmount`,
+        `TVA à ${vat.rate} % (${money(vat.taxAmount)}) ≠ assiette × taux (${expected})`);
+    })),
+    // x-10 : motif d'exonération
+    rule('10', ctx => summariesOf(ctx, code).flatMap(({ vat, path }) => {
+      const hasReason = !blank(vat.exemptionReason) || !blank(vat.exemptionReasonCode);
+      return spec.exemption === 'required'
+        ? when(!hasReason, `${path}.exemptionReason`, `Motif d'exonération (BT-120) ou code (BT-121) requis pour la ${cat}`)
+        : when(hasReason, `${path}.exemptionReason`, `Aucun motif d'exonération autorisé pour la ${cat}`);
+    })),
+  ];
+
+  // x-02 à x-04 : identifiants TVA requis (ou interdits pour O)
+  const sellerIdRule = (n: string, present: (inv: Invoice) => boolean) => code === 'O'
+    ? rule(n, ({ invoice }) => when(present(invoice) && (hasSellerVatId(invoice) || !blank(invoice.buyer?.vatNumber)),
+        'seller.vatNumber', `Aucun numéro de TVA (vendeur, représentant fiscal, acheteur) autorisé pour la ${cat}`))
+    : rule(n, ({ invoice }) => {
+        const missing: Violation[] = when(present(invoice) && !hasSellerVatId(invoice), 'seller.vatNumber',
+          `Numéro de TVA du vendeur (BT-31) ou du représentant fiscal (BT-63) requis pour la ${cat}`);
+        if (present(invoice) && (code === 'AE' || code === 'K') && blank(invoice.buyer?.vatNumber) &&
+            !(code === 'AE' && !blank(invoice.buyer?.legalId))) {
+          missing.push({ path: 'buyer.vatNumber', message: `Numéro de TVA de l'acheteur (BT-48) requis pour la ${cat}` });
+        }
+        return missing;
+      });
+  rules.push(
+    sellerIdRule('02', inv => inv.lines.some(l => l.vatCategory === code)),
+    sellerIdRule('03', inv => (inv.allowances ?? []).some(a => a.vatCategory === code)),
+    sellerIdRule('04', inv => (inv.charges ?? []).some(c => c.vatCategory === code)),
+  );
+
+  if (code === 'K') {
+    rules.push(
+      rule('11', ({ invoice }) => when(usesCategory(invoice, 'K') && !invoice.deliveryDate && !invoice.billingPeriod,
+        'deliveryDate', 'Date de livraison (BT-72) ou période de facturation (BG-14) requise pour une livraison intracommunautaire')),
+      rule('12', ({ invoice }) => when(usesCategory(invoice, 'K') && blank(invoice.shipTo?.address?.countryCode),
+        'shipTo.address.countryCode', 'Pays de livraison (BT-80) requis pour une livraison intracommunautaire')),
+    );
+  }
+  if (code === 'O') {
+    // BR-O-11 à BR-O-14 : une facture hors champ ne comporte aucune autre catégorie
+    rules.push(rule('11', ({ invoice, totals }) => {
+      if (!usesCategory(invoice, 'O')) return [];
+      return totals.vatSummaries.flatMap((vat, i) => when(vat.categoryCode !== 'O', `vatSummaries[${i}].categoryCode`,
+        `Catégorie ${vat.categoryCode} interdite sur une facture comportant la catégorie O (hors champ)`));
+    }));
+  }
+  return rules;
+}
+
+// ── Règles de base et de calcul ────────────────────────────────────────────
+
+const CORE_RULES: BusinessRule[] = [
+  { id: 'BR-02', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.number), 'number', 'Numéro de facture (BT-1) requis') },
+  { id: 'BR-03', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.date), 'date', 'Date d\'émission (BT-2) requise') },
+  { id: 'BR-04', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.typeCode), 'typeCode', 'Code type de facture (BT-3) requis') },
+  { id: 'BR-05', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.currency), 'currency', 'Code devise de la facture (BT-5) requis') },
+  { id: 'BR-06', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.seller?.name), 'seller.name', 'Nom du vendeur (BT-27) requis') },
+  { id: 'BR-07', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.buyer?.name), 'buyer.name', 'Nom de l\'acheteur (BT-44) requis') },
+  { id: 'BR-08', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(!invoice.seller?.address, 'seller.address', 'Adresse postale du vendeur (BG-5) requise') },
+  { id: 'BR-09', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => when(blank(invoice.seller?.address?.countryCode), 'seller.address.countryCode', 'Code pays du vendeur (BT-40) requis') },
+  { id: 'BR-10', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(!invoice.buyer?.address, 'buyer.address', 'Adresse postale de l\'acheteur (BG-8) requise') },
+  { id: 'BR-11', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(blank(invoice.buyer?.address?.countryCode), 'buyer.address.countryCode', 'Code pays de l\'acheteur (BT-55) requis') },
+  // Les lignes servent au calcul des totaux quel que soit le profil : BR-16 et BR-21 à BR-26 s'appliquent dès MINIMUM
+  { id: 'BR-16', severity: 'error', minProfile: 'MINIMUM', usesLines: true,
+    check: ({ invoice }) => when(!invoice.lines?.length, 'lines', 'Au moins une ligne de facture (BG-25) requise') },
+  { id: 'BR-17', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.payee && blank(invoice.payee.name), 'payee.name', 'Nom du bénéficiaire (BT-59) requis') },
+  { id: 'BR-18', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.sellerTaxRepresentative && blank(invoice.sellerTaxRepresentative.name),
+      'sellerTaxRepresentative.name', 'Nom du représentant fiscal (BT-62) requis') },
+  { id: 'BR-19', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.sellerTaxRepresentative && !invoice.sellerTaxRepresentative.address,
+      'sellerTaxRepresentative.address', 'Adresse du représentant fiscal (BG-12) requise') },
+  { id: 'BR-20', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.sellerTaxRepresentative?.address && blank(invoice.sellerTaxRepresentative.address.countryCode),
+      'sellerTaxRepresentative.address.countryCode', 'Code pays du représentant fiscal (BT-69) requis') },
+  { id: 'BR-21', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(blank(l.id), `lines[${i}].id`, 'Identifiant de ligne (BT-126) requis')) },
+  { id: 'BR-22', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(notNumber(l.quantity), `lines[${i}].quantity`, 'Quantité facturée (BT-129) requise')) },
+  { id: 'BR-23', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(blank(l.unitCode), `lines[${i}].unitCode`, 'Unité de mesure (BT-130) requise')) },
+  { id: 'BR-24', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(notNumber(l.totalAmount), `lines[${i}].totalAmount`, 'Montant net de ligne (BT-131) requis')) },
+  { id: 'BR-25', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(blank(l.description), `lines[${i}].description`, 'Désignation de l\'article (BT-153) requise')) },
+  { id: 'BR-26', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(notNumber(l.unitPrice), `lines[${i}].unitPrice`, 'Prix net de l\'article (BT-146) requis')) },
+  { id: 'BR-27', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(l.unitPrice < 0, `lines[${i}].unitPrice`, `Prix net négatif (${l.unitPrice}) interdit`)) },
+  { id: 'BR-28', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when((l.grossPrice ?? 0) < 0, `lines[${i}].grossPrice`, `Prix brut négatif (${l.grossPrice}) interdit`)) },
+  { id: 'BR-29', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => {
+      const p = invoice.billingPeriod;
+      return when(p?.startDate && p.endDate && p.endDate < p.startDate, 'billingPeriod.endDate',
+        `Fin de période (${p?.endDate}) antérieure au début (${p?.startDate})`);
+    } },
+  { id: 'BR-30', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => {
+      const p = l.billingPeriod;
+      return when(p?.startDate && p.endDate && p.endDate < p.startDate, `lines[${i}].billingPeriod.endDate`,
+        `Fin de période de ligne (${p?.endDate}) antérieure au début (${p?.startDate})`);
+    }) },
+  { id: 'BR-31', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.allowances ?? []).flatMap((a, i) =>
+      when(noAmount(a), `allowances[${i}].amount`, 'Montant de la remise (BT-92) requis')) },
+  { id: 'BR-32', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.allowances ?? []).flatMap((a, i) =>
+      when(blank(a.vatCategory), `allowances[${i}].vatCategory`, 'Catégorie TVA de la remise (BT-95) requise')) },
+  { id: 'BR-36', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.charges ?? []).flatMap((c, i) =>
+      when(noAmount(c), `charges[${i}].amount`, 'Montant de la charge (BT-99) requis')) },
+  { id: 'BR-37', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.charges ?? []).flatMap((c, i) =>
+      when(blank(c.vatCategory), `charges[${i}].vatCategory`, 'Catégorie TVA de la charge (BT-102) requise')) },
+  { id: 'BR-41', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => (l.allowances ?? []).flatMap((a, j) =>
+      when(noAmount(a), `lines[${i}].allowances[${j}].amount`, 'Montant de la remise de ligne (BT-136) requis'))) },
+  { id: 'BR-43', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => (l.charges ?? []).flatMap((c, j) =>
+      when(noAmount(c), `lines[${i}].charges[${j}].amount`, 'Montant de la charge de ligne (BT-141) requis'))) },
+  { id: 'BR-47', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals }) => totals.vatSummaries.flatMap((v, i) =>
+      when(blank(v.categoryCode), `vatSummaries[${i}].categoryCode`, 'Code catégorie de la ventilation TVA (BT-118) requis')) },
+  { id: 'BR-48', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals }) => totals.vatSummaries.flatMap((v, i) =>
+      when(v.categoryCode !== 'O' && typeof v.rate !== 'number', `vatSummaries[${i}].rate`, `Taux de la ventilation TVA ${v.categoryCode} (BT-119) requis`)) },
+  { id: 'BR-49', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.payment && blank(invoice.payment.meansCode), 'payment.meansCode', 'Code moyen de paiement (BT-81) requis') },
+  { id: 'BR-52', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => (invoice.supportingDocuments ?? []).flatMap((d, i) =>
+      when(blank(d.id), `supportingDocuments[${i}].id`, 'Référence du justificatif (BT-122) requise')) },
+  { id: 'BR-53', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice, totals }) => when(invoice.taxCurrency && invoice.taxCurrency !== invoice.currency && totals.taxTotalAmountInTaxCurrency === undefined,
+      'taxTotalInTaxCurrency', `Total TVA en devise de comptabilisation ${invoice.taxCurrency} (BT-111) requis`) },
+  { id: 'BR-55', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.precedingInvoices ?? []).flatMap((r, i) =>
+      when(blank(r.number), `precedingInvoices[${i}].number`, 'Référence de la facture antérieure (BT-25) requise')) },
+  { id: 'BR-56', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.sellerTaxRepresentative && blank(invoice.sellerTaxRepresentative.vatNumber),
+      'sellerTaxRepresentative.vatNumber', 'Numéro de TVA du représentant fiscal (BT-63) requis') },
+  { id: 'BR-57', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.shipTo?.address && blank(invoice.shipTo.address.countryCode),
+      'shipTo.address.countryCode', 'Code pays de livraison (BT-80) requis') },
+  { id: 'BR-61', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(['30', '58'].includes(invoice.payment?.meansCode ?? '') && blank(invoice.payment?.iban),
+      'payment.iban', 'Identifiant du compte de paiement (BT-84) requis pour un virement') },
+  { id: 'BR-62', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.seller?.electronicAddress && blank(invoice.seller.electronicAddressScheme),
+      'seller.electronicAddressScheme', 'Schéma de l\'adresse électronique du vendeur (BT-34-1) requis') },
+  { id: 'BR-63', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.buyer?.electronicAddress && blank(invoice.buyer.electronicAddressScheme),
+      'buyer.electronicAddressScheme', 'Schéma de l\'adresse électronique de l\'acheteur (BT-49-1) requis') },
+
+  // ── Calculs ──
+  { id: 'BR-CO-4', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(blank(l.vatCategory), `lines[${i}].vatCategory`, 'Catégorie TVA de la ligne (BT-151) requise')) },
+  { id: 'BR-CO-9', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ invoice }) => ([
+      ['seller.vatNumber', invoice.seller?.vatNumber],
+      ['buyer.vatNumber', invoice.buyer?.vatNumber],
+      ['sellerTaxRepresentative.vatNumber', invoice.sellerTaxRepresentative?.vatNumber],
+    ] as Array<[string, string | undefined]>).flatMap(([path, vat]) =>
+      when(vat && !/^[A-Z]{2}/.test(vat.replace(/\s/g, '').toUpperCase()), path,
+        `Numéro de TVA "${vat}" sans préfixe pays ISO 3166-1 (EL pour la Grèce), ex : FR44732829320`)) },
+  { id: 'BR-CO-10', severity: 'error', minProfile: 'MINIMUM', usesLines: true,
+    check: ({ invoice, totals }) => {
+      const sum = Decimal.sum(invoice.lines.map(l => money(l.totalAmount)));
+      return when(!sameAmount(sum, totals.lineTotalAmount), 'totals.lineTotalAmount',
+        `Total des lignes (BT-106 = ${money(totals.lineTotalAmount)}) ≠ somme des montants nets de ligne (${sum})`);
+    } },
+  { id: 'BR-CO-11', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice, totals }) => {
+      const sum = Decimal.sum((invoice.allowances ?? []).map(allowanceChargeAmount));
+      return when(!sameAmount(sum, totals.allowanceTotalAmount), 'totals.allowanceTotalAmount',
+        `Total des remises (BT-107 = ${money(totals.allowanceTotalAmount)}) ≠ somme des remises (${sum})`);
+    } },
+  { id: 'BR-CO-12', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice, totals }) => {
+      const sum = Decimal.sum((invoice.charges ?? []).map(allowanceChargeAmount));
+      return when(!sameAmount(sum, totals.chargeTotalAmount), 'totals.chargeTotalAmount',
+        `Total des charges (BT-108 = ${money(totals.chargeTotalAmount)}) ≠ somme des charges (${sum})`);
+    } },
+  { id: 'BR-CO-13', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals: t }) => {
+      const expected = Decimal.from(t.lineTotalAmount).minus(t.allowanceTotalAmount).plus(t.chargeTotalAmount);
+      return when(!sameAmount(expected, t.taxBasisTotalAmount), 'totals.taxBasisTotalAmount',
+        `Total HT (BT-109 = ${money(t.taxBasisTotalAmount)}) ≠ lignes − remises + charges (${money(expected)})`);
+    } },
+  { id: 'BR-CO-14', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals: t }) => {
+      const sum = Decimal.sum(t.vatSummaries.map(v => money(v.taxAmount)));
+      return when(!sameAmount(sum, t.taxTotalAmount), 'totals.taxTotalAmount',
+        `Total TVA (BT-110 = ${money(t.taxTotalAmount)}) ≠ somme de la ventilation TVA (${sum})`);
+    } },
+  { id: 'BR-CO-15', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ totals: t }) => {
+      const expected = Decimal.from(t.taxBasisTotalAmount).plus(t.taxTotalAmount);
+      return when(!sameAmount(expected, t.grandTotalAmount), 'totals.grandTotalAmount',
+        `Total TTC (BT-112 = ${money(t.grandTotalAmount)}) ≠ total HT + TVA (${money(expected)})`);
+    } },
+  { id: 'BR-CO-16', severity: 'error', minProfile: 'MINIMUM',
+    check: ({ totals: t }) => {
+      const expected = Decimal.from(t.grandTotalAmount).minus(t.prepaidAmount).plus(t.roundingAmount);
+      return when(!sameAmount(expected, t.duePayableAmount), 'totals.duePayableAmount',
+        `Montant à payer (BT-115 = ${money(t.duePayableAmount)}) ≠ TTC − déjà payé + arrondi (${money(expected)})`);
+    } },
+  // Tolérance d'une unité monétaire, comme le Schematron officiel
+  { id: 'BR-CO-17', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals }) => totals.vatSummaries.flatMap((v, i) => {
+      if (v.categoryCode === 'O') return [];
+      const expected = money(Decimal.from(v.taxableAmount).percent(v.rate));
+      return when(expected.minus(v.taxAmount).abs().compare(1) > 0, `vatSummaries[${i}].taxAmount`,
+        `TVA ${v.categoryCode} ${v.rate} % (${money(v.taxAmount)}) ≠ assiette × taux (${expected})`);
+    }) },
+  { id: 'BR-CO-18', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ totals }) => when(!totals.vatSummaries.length, 'vatSummaries', 'Au moins une ventilation TVA (BG-23) requise') },
+  { id: 'BR-CO-19', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(invoice.billingPeriod && !invoice.billingPeriod.startDate && !invoice.billingPeriod.endDate,
+      'billingPeriod', 'Période de facturation sans date de début (BT-73) ni de fin (BT-74)') },
+  { id: 'BR-CO-20', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => when(l.billingPeriod && !l.billingPeriod.startDate && !l.billingPeriod.endDate,
+      `lines[${i}].billingPeriod`, 'Période de ligne sans date de début (BT-134) ni de fin (BT-135)')) },
+  { id: 'BR-CO-21', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.allowances ?? []).flatMap((a, i) =>
+      when(blank(a.reason) && blank(a.reasonCode), `allowances[${i}].reason`, 'Motif (BT-97) ou code motif (BT-98) de la remise requis')) },
+  { id: 'BR-CO-22', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => (invoice.charges ?? []).flatMap((c, i) =>
+      when(blank(c.reason) && blank(c.reasonCode), `charges[${i}].reason`, 'Motif (BT-104) ou code motif (BT-105) de la charge requis')) },
+  { id: 'BR-CO-23', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => (l.allowances ?? []).flatMap((a, j) =>
+      when(blank(a.reason) && blank(a.reasonCode), `lines[${i}].allowances[${j}].reason`, 'Motif (BT-139) ou code motif (BT-140) de la remise de ligne requis'))) },
+  { id: 'BR-CO-24', severity: 'error', minProfile: 'BASIC',
+    check: ({ invoice }) => invoice.lines.flatMap((l, i) => (l.charges ?? []).flatMap((c, j) =>
+      when(blank(c.reason) && blank(c.reasonCode), `lines[${i}].charges[${j}].reason`, 'Motif (BT-144) ou code motif (BT-145) de la charge de ligne requis'))) },
+  { id: 'BR-CO-25', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice, totals }) => when(totals.duePayableAmount > 0 && !invoice.dueDate && blank(invoice.payment?.terms),
+      'dueDate', 'Montant à payer positif : date d\'échéance (BT-9) ou conditions de paiement (BT-20) requises') },
+  { id: 'BR-CO-26', severity: 'error', minProfile: 'BASIC_WL',
+    check: ({ invoice }) => when(blank(invoice.seller?.id) && blank(invoice.seller?.legalId) && blank(invoice.seller?.vatNumber),
+      'seller.id', 'Identifiant (BT-29), identifiant légal (BT-30) ou numéro de TVA (BT-31) du vendeur requis') },
+];
+
+/** Ensemble des règles EN 16931 implémentées. */
+export const EN16931_RULES: BusinessRule[] = [
+  ...CORE_RULES,
+  ...CATEGORY_SPECS.flatMap(categoryRules),
+];
+
+// ── Spécifications d'usage (CIUS) ──────────────────────────────────────────
+
+const XRECHNUNG_TYPE_CODES = new Set(['326', '380', '381', '384', '389', '875', '876', '877']);
+// Factures (PEPPOL-EN16931-P0100) et avoirs (PEPPOL-EN16931-P0101)
+const PEPPOL_TYPE_CODES = new Set([
+  '71', '80', '82', '84', '102', '218', '219', '331', '380', '382', '383', '386', '388', '393', '395',
+  '553', '575', '623', '780', '817', '870', '875', '876', '877',
+  '81', '83', '381', '396', '532',
+]);
+
+// Adresses électroniques (BT-34 / BT-49) : le repli sur l'email du contact vaut adresse EM
+const hasElectronicAddress = (party: Invoice['seller'] | undefined) =>
+  !blank(party?.electronicAddress) || !blank(party?.contact?.email);
+
+// Règles Peppol reprises par XRechnung 3.0
+const ELECTRONIC_ADDRESS_RULES: BusinessRule[] = [
+  { id: 'PEPPOL-EN16931-R010', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!hasElectronicAddress(invoice.buyer), 'buyer.electronicAddress', 'Adresse électronique de l\'acheteur (BT-49) requise') },
+  { id: 'PEPPOL-EN16931-R020', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!hasElectronicAddress(invoice.seller), 'seller.electronicAddress', 'Adresse électronique du vendeur (BT-34) requise') },
+];
+
+// XRechnung 3.0 (KoSIT) : BR-DE-*
+const XRECHNUNG_RULES: BusinessRule[] = [
+  { id: 'BR-DE-1', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!invoice.payment, 'payment', 'Instructions de paiement (BG-16) requises') },
+  { id: 'BR-DE-2', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!invoice.seller?.contact, 'seller.contact', 'Contact du vendeur (BG-6) requis') },
+  { id: 'BR-DE-3', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.seller?.address?.city), 'seller.address.city', 'Ville du vendeur (BT-37) requise') },
+  { id: 'BR-DE-4', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.seller?.address?.postalCode), 'seller.address.postalCode', 'Code postal du vendeur (BT-38) requis') },
+  { id: 'BR-DE-5', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.seller?.contact?.name), 'seller.contact.name', 'Nom du contact vendeur (BT-41) requis') },
+  { id: 'BR-DE-6', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.seller?.contact?.phone), 'seller.contact.phone', 'Téléphone du contact vendeur (BT-42) requis') },
+  { id: 'BR-DE-7', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.seller?.contact?.email), 'seller.contact.email', 'Email du contact vendeur (BT-43) requis') },
+  { id: 'BR-DE-8', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.buyer?.address?.city), 'buyer.address.city', 'Ville de l\'acheteur (BT-52) requise') },
+  { id: 'BR-DE-9', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.buyer?.address?.postalCode), 'buyer.address.postalCode', 'Code postal de l\'acheteur (BT-53) requis') },
+  { id: 'BR-DE-15', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.buyerRef), 'buyerRef', 'Référence acheteur (BT-10, Leitweg-ID) requise') },
+  { id: 'BR-DE-17', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!blank(invoice.typeCode) && !XRECHNUNG_TYPE_CODES.has(invoice.typeCode),
+      'typeCode', `Code type de facture ${invoice.typeCode} non autorisé par XRechnung (${[...XRECHNUNG_TYPE_CODES].join(', ')})`) },
+  ...ELECTRONIC_ADDRESS_RULES,
+];
+
+// Peppol BIS Billing 3.0 (OpenPeppol) : PEPPOL-EN16931-*
+const PEPPOL_RULES: BusinessRule[] = [
+  { id: 'PEPPOL-EN16931-R003', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(blank(invoice.buyerRef) && blank(invoice.purchaseOrderRef),
+      'buyerRef', 'Référence acheteur (BT-10) ou référence de commande (BT-13) requise') },
+  ...ELECTRONIC_ADDRESS_RULES,
+  { id: 'PEPPOL-EN16931-P0100', severity: 'error', minProfile: 'EN_16931',
+    check: ({ invoice }) => when(!blank(invoice.typeCode) && !PEPPOL_TYPE_CODES.has(invoice.typeCode),
+      'typeCode', `Code type de facture ${invoice.typeCode} non autorisé par Peppol BIS Billing 3.0`) },
+];
+
+/** Règles supplémentaires des spécifications d'usage, par profil. */
+export const CIUS_RULES: Partial<Record<FacturXProfile, BusinessRule[]>> = {
+  XRECHNUNG:  XRECHNUNG_RULES,
+  PEPPOL_BIS: PEPPOL_RULES,
+};
+
+/**
+ * Applique les règles EN 16931 couvertes par le profil de la facture, et celles de la CIUS visée (XRechnung, Peppol BIS).
+ * `declaredTotals` : totaux lus dans un XML existant, confrontés aux montants des lignes ;
+ * à défaut, les totaux recalculés sont utilisés.
+ * Un document MINIMUM ou BASIC WL ne détaille pas ses lignes : les règles qui en dépendent ne lui sont pas appliquées.
+ */
+export function runBusinessRules(invoice: Invoice, declaredTotals?: InvoiceTotals): ValidationFinding[] {
+  const normalized: Invoice = { ...invoice, lines: invoice.lines ?? [] };
+  let computed: InvoiceTotals | undefined;
+  const ctx: RuleContext = {
+    invoice: normalized,
+    get computed() { return computed ??= calculateTotals(normalized); },
+    get totals() { return declaredTotals ?? this.computed; },
+  };
+
+  const linesKnown = !declaredTotals || profileAllows(invoice.profile, 'BASIC');
+
+  return [...EN16931_RULES, ...CIUS_RULES[invoice.profile] ?? []]
+    .filter(rule => profileAllows(invoice.profile, rule.minProfile) && (linesKnown || !rule.usesLines))
+    .flatMap(rule => {
+      let violations: Violation[];
+      try {
+        violations = rule.check(ctx);
+      } catch {
+        // Montant non numérique : les totaux ne peuvent être calculés, l'anomalie est signalée par ailleurs
+        return [];
+      }
+      return violations.map(({ path, message }) => ({ rule: rule.id, severity: rule.severity, path, message }));
+    });
+}
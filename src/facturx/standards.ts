@@ -0,0 +1,61 @@
+import { profileFromGuideline } from './profiles.js';
+import type { FacturXProfile } from './types.js';
+import { detectSyntax } from './ubl.js';
+import { ZUGFERD1_NAMESPACE } from './zugferd.js';
+
+/** Espace de noms de la racine SCRDMCCBDACIOMessageStructure d'un document Order-X. */
+export const ORDER_X_NAMESPACE = 'urn:un:unece:uncefact:data:standard:SCRDMCCBDACIOMessageStructure:100';
+
+/** Norme d'un document XML reconnu, d'après sa racine et son identifiant de spécification. */
+export interface DocumentIdentification {
+  standard: string;          // Ex : "Factur-X", "ZUGFeRD 1.0", "XRechnung", "Order-X"
+  order: boolean;            // Document de commande Order-X, pas une facture
+  guidelineId?: string;      // Identifiant de spécification (BT-24)
+  profile?: FacturXProfile;  // Profil équivalent d'une facture
+}
+
+// Normes désignées par l'identifiant de spécification, dans l'ordre de recherche
+const GUIDELINE_STANDARDS: Array<[RegExp, string]> = [
+  [/^urn:ferd:CrossIndustryDocument:invoice:1p0/, 'ZUGFeRD 1.0'],
+  [/urn:zugferd\.de:2p0/,                         'ZUGFeRD 2.0'],
+  [/urn:factur-x\.eu:1p0/,                        'Factur-X'],
+  [/kosit:(?:standard:)?xrechnung/,               'XRechnung'],
+  [/urn:fdc:peppol\.eu/,                          'Peppol BIS'],
+  [/^urn:cen\.eu:en16931:2017$/,                  'EN 16931'],
+];
+
+// Types de document Order-X (UNTDID 1001)
+const ORDER_TYPES: Record<string, string> = {
+  '220': 'commande',
+  '230': 'modification de commande',
+  '231': 'réponse à une commande',
+};
+
+function firstText(xmlContent: string, element: string): string | undefined {
+  const match = new RegExp(`<(?:[\\w.-]+:)?${element}(?:\\s[^>]*)?>\\s*([^<]*?)\\s*</`).exec(xmlContent);
+  return match?.[1] || undefined;
+}
+
+/** Identifie la norme d'un document XML de facturation (CII, UBL) ou de commande (Order-X). */
+export function identifyDocument(xmlContent: string): DocumentIdentification {
+  if (detectSyntax(xmlContent) === 'UBL') {
+    const guidelineId = firstText(xmlContent, 'CustomizationID');
+    const profile = guidelineId ? profileFromGuideline(guidelineId) : undefined;
+    const standard = GUIDELINE_STANDARDS.find(([re]) => guidelineId && re.test(guidelineId))?.[1];
+    return { standard: standard ? `${standard} (UBL 2.1)` : 'UBL 2.1', order: false, guidelineId, profile };
+  }
+
+  const guidelineMatch = /<(?:[\w.-]+:)?GuidelineSpecifiedDocumentContextParameter>\s*<(?:[\w.-]+:)?ID>\s*([^<]*?)\s*</.exec(xmlContent);
+  const guidelineId = guidelineMatch?.[1] || undefined;
+  const order = xmlContent.includes(ORDER_X_NAMESPACE) || /^urn:order-x\.eu/.test(guidelineId ?? '');
+  if (order) {
+    const typeCode = firstText(xmlContent, 'TypeCode');
+    const type = typeCode && ORDER_TYPES[typeCode];
+    return { standard: type ? `Order-X (${type})` : 'Order-X', order, guidelineId };
+  }
+
+  const legacy = xmlContent.includes(ZUGFERD1_NAMESPACE);
+  const standard = legacy ? 'ZUGFeRD 1.0'
+    : GUIDELINE_STANDARDS.find(([re]) => guidelineId && re.test(guidelineId))?.[1] ?? 'Factur-X';
+  return { standard, order, guidelineId, profile: guidelineId ? profileFromGuideline(guidelineId) : undefined };
+}
@@ -0,0 +1,87 @@
+import { Decimal, money } from './decimal.js';
+import { allowanceChargeAmount, calculateTotals, computeLineNetAmount } from './generator.js';
+import { profileAllows } from './profiles.js';
+import type { Invoice, InvoiceLine, LineAllowanceCharge } from './types.js';
+
+export interface TtcConversion {
+  invoice: Invoice;        // Facture avec prix et montants HT dérivés
+  enteredTotal: number;    // Total TTC saisi (somme des montants TTC)
+  computedTotal: number;   // Total TTC recalculé à partir des montants HT
+  adjustment: number;      // enteredTotal − computedTotal
+  roundingApplied: boolean; // true si l'écart a été reporté en arrondi (BT-114)
+}
+
+// Montant HT = TTC × 100 / (100 + taux)
+function toNet(value: number, rate: number, scale: number): number {
+  return Decimal.from(value).times(100).dividedBy(Decimal.from(rate).plus(100)).round(scale).toNumber();
+}
+
+function toNetAllowanceCharge<T extends LineAllowanceCharge>(ac: T, rate: number): T {
+  return {
+    ...ac,
+    amount: typeof ac.amount === 'number' ? toNet(ac.amount, rate, 2) : undefined,
+    baseAmount: typeof ac.baseAmount === 'number' ? toNet(ac.baseAmount, rate, 2) : undefined,
+  };
+}
+
+/**
+ * Convertit une facture saisie en prix TTC (prix unitaires, remises et charges)
+ * en facture HT conforme EN 16931 :
+ *  - prix unitaire HT = prix TTC / (1 + taux), arrondi à 4 décimales ;
+ *  - montant ligne HT = quantité × prix HT − remises + charges, arrondi au centime.
+ * L'écart éventuel entre le TTC saisi et le TTC recalculé est reporté en arrondi (BT-114)
+ * lorsque le profil le permet et qu'aucun arrondi n'a été fourni.
+ */
+export function convertTtcPrices(invoice: Invoice): TtcConversion {
+  let enteredTotal = Decimal.ZERO;
+
+  const lines: InvoiceLine[] = invoice.lines.map(line => {
+    const rate = line.vatRate;
+    const baseQuantity = line.priceBaseQuantity || 1;
+    const lineTtc = money(Decimal.from(line.quantity).times(line.unitPrice).dividedBy(baseQuantity))
+      .minus(Decimal.sum((line.allowances ?? []).map(allowanceChargeAmount)))
+      .plus(Decimal.sum((line.charges ?? []).map(allowanceChargeAmount)));
+    enteredTotal = enteredTotal.plus(lineTtc);
+
+    const unitPrice = toNet(line.unitPrice, rate, 4);
+    const grossPrice = typeof line.grossPrice === 'number' ? toNet(line.grossPrice, rate, 4) : undefined;
+    const converted: InvoiceLine = {
+      ...line,
+      unitPrice,
+      grossPrice,
+      // Remise unitaire recalculée pour garantir prix net = prix brut − remise
+      priceDiscount: grossPrice !== undefined && line.priceDiscount
+        ? Decimal.from(grossPrice).minus(unitPrice).toNumber()
+        : undefined,
+      allowances: line.allowances?.map(a => toNetAllowanceCharge(a, rate)),
+      charges: line.charges?.map(c => toNetAllowanceCharge(c, rate)),
+    };
+    return { ...converted, totalAmount: computeLineNetAmount(converted).toNumber() };
+  });
+
+  for (const a of invoice.allowances ?? []) enteredTotal = enteredTotal.minus(allowanceChargeAmount(a));
+  for (const c of invoice.charges ?? [])    enteredTotal = enteredTotal.plus(allowanceChargeAmount(c));
+
+  const converted: Invoice = {
+    ...invoice,
+    lines,
+    allowances: invoice.allowances?.map(a => toNetAllowanceCharge(a, a.vatRate)),
+    charges: invoice.charges?.map(c => toNetAllowanceCharge(c, c.vatRate)),
+  };
+
+  const { grandTotalAmount } = calculateTotals({ ...converted, roundingAmount: undefined });
+  const adjustment = enteredTotal.minus(grandTotalAmount);
+  const roundingApplied =
+    !adjustment.isZero() &&
+    converted.roundingAmount === undefined &&
+    profileAllows(converted.profile, 'EN_16931');
+  if (roundingApplied) converted.roundingAmount = adjustment.toNumber();
+
+  return {
+    invoice: converted,
+    enteredTotal: enteredTotal.toNumber(),
+    computedTotal: grandTotalAmount,
+    adjustment: adjustment.toNumber(),
+    roundingApplied,
+  };
+}
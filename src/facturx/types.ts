@@ -1,6 +1,7 @@
-export type VatCategoryCode = 'S' | 'Z' | 'E' | 'K' | 'G' | 'O' | 'L' | 'M';
+export type VatCategoryCode = 'S' | 'Z' | 'E' | 'AE' | 'K' | 'G' | 'O' | 'L' | 'M';
 export type InvoiceTypeCode = '380' | '381' | '389' | '384';
-export type FacturXProfile = 'MINIMUM' | 'BASIC_WL' | 'BASIC' | 'EN_16931' | 'EXTENDED';
+// XRECHNUNG et PEPPOL_BIS : spécifications d'usage (CIUS) de l'EN 16931, même contenu que EN_16931
+export type FacturXProfile = 'MINIMUM' | 'BASIC_WL' | 'BASIC' | 'EN_16931' | 'EXTENDED' | 'XRECHNUNG' | 'PEPPOL_BIS';
 export type PaymentMeansCode = '30' | '31' | '42' | '48' | '49' | '57' | '58' | '59';
 
 export interface TradePartyAddress {
@@ -12,17 +13,85 @@ export interface TradePartyAddress {
   stateOrProvince?: string;
 }
 
+/**
+ * Textes des mentions légales françaises propres au vendeur (notes codifiées).
+ * À défaut, les mentions légales par défaut sont utilisées.
+ */
+export interface SellerLegalMentions {
+  latePaymentPenalty?: string;   // Pénalités de retard (PMD), ex : "Pénalités de retard : 3 fois le taux d'intérêt légal"
+  recoveryIndemnity?: string;    // Indemnité forfaitaire de recouvrement (PMT)
+  earlyPaymentDiscount?: string; // Escompte pour paiement anticipé (AAB), ex : "Escompte de 2 % sous 10 jours"
+
+  companyDetails?: string;       // Forme juridique, capital, RCS (REG), ex : "SAS au capital de 10 000 € — RCS Lyon"
+}
+
 export interface TradeParty {
   name: string;
   id?: string;         // SIRET (14 chiffres)
-  vatNumber?: string;  // Numéro de TVA intracommunautaire (ex: "FR12345678901")
+  idScheme?: string;   // Schéma ISO 6523 de `id` (ex: "0009" SIRET, "0088" GLN) — déduit pour un SIRET français
+  vatNumber?: string;  // Numéro de TVA intracommunautaire (ex: "FR44732829320")
   legalId?: string;    // Identifiant légal (RCS, SIREN)
+  legalIdScheme?: string; // Schéma ISO 6523 de `legalId` (ex: "0002" SIREN) — déduit pour un SIREN/SIRET français
+  electronicAddress?: string;       // Adresse électronique (BT-34 / BT-49), ex : identifiant Peppol, Leitweg-ID — à défaut, contact.email
+  electronicAddressScheme?: string; // Schéma EAS de l'adresse électronique (ex: "0009" SIRET, "0204" Leitweg-ID, "EM" email)
   address: TradePartyAddress;
   contact?: {
     name?: string;
     email?: string;
     phone?: string;
   };
+  legalMentions?: SellerLegalMentions; // Vendeur uniquement
+}
+
+/**
+ * Note de facture (BG-1) avec code sujet UNTDID 4451 optionnel :
+ * PMD (pénalités de retard), PMT (indemnité forfaitaire), AAB (escompte),
+ * REG (informations réglementaires), AAI (information générale)…
+ */
+export interface InvoiceNote {
+  content: string;      // BT-22
+  subjectCode?: string; // BT-21
+}
+
+/** Bénéficiaire du paiement lorsqu'il diffère du vendeur, ex : affacturage (BG-10). */
+export interface PayeeParty {
+  name: string;        // BT-59
+  id?: string;         // Identifiant du bénéficiaire (BT-60)
+  idScheme?: string;   // Schéma ISO 6523 de id (ex: 0009 = SIRET)
+  legalId?: string;    // Identifiant légal, ex : SIREN (BT-61)
+  legalIdScheme?: string; // Schéma ISO 6523 de legalId (ex: 0002 = SIREN)
+}
+
+/** Représentant fiscal du vendeur (BG-11). */
+export interface TaxRepresentativeParty {
+  name: string;        // BT-62
+  vatNumber: string;   // Numéro de TVA du représentant (BT-63)
+  address: TradePartyAddress; // BG-12
+}
+
+/** Lieu et destinataire de livraison (BG-13). */
+export interface ShipToParty {
+  name?: string;       // Nom du destinataire (BT-70)
+  locationId?: string; // Identifiant du lieu de livraison (BT-71)
+  address?: TradePartyAddress; // Adresse de livraison (BG-15)
+}
+
+/**
+ * Remise (BG-27) ou charge (BG-28) au niveau ligne.
+ * Le montant est soit fourni directement, soit calculé à partir d'une assiette et d'un pourcentage.
+ */
+export interface LineAllowanceCharge {
+  amount?: number;        // Montant HT (BT-136 / BT-141)
+  baseAmount?: number;    // Assiette (BT-137 / BT-142)
+  percentage?: number;    // Pourcentage appliqué à l'assiette (BT-138 / BT-143)
+  reason?: string;        // Motif (BT-139 / BT-144)
+  reasonCode?: string;    // Code motif UNTDID 5189 (remise) ou 7161 (charge)
+}
+
+/** Période de facturation (BG-14 en-tête, BG-26 ligne) — au moins une des deux dates. */
+export interface BillingPeriod {
+  startDate?: string; // YYYY-MM-DD (BT-73 / BT-134)
+  endDate?: string;   // YYYY-MM-DD (BT-74 / BT-135)
 }
 
 export interface InvoiceLine {
@@ -30,13 +99,19 @@ export interface InvoiceLine {
   description: string;
   quantity: number;
   unitCode: string;       // UN/ECE rec 20 (ex: "C62"=pièce, "HUR"=heure, "KGM"=kg, "MTR"=mètre)
-  unitPrice: number;      // Prix unitaire net HT
-  totalAmount: number;    // Montant total ligne HT (quantity × unitPrice)
+  unitPrice: number;      // Prix unitaire net HT (BT-146)
+  grossPrice?: number;    // Prix unitaire brut HT avant remise (BT-148)
+  priceDiscount?: number; // Remise unitaire sur le prix brut (BT-147) — unitPrice = grossPrice − priceDiscount
+  priceBaseQuantity?: number; // Quantité de base du prix (BT-149), défaut 1
+  totalAmount: number;    // Montant net ligne HT (quantity × unitPrice / priceBaseQuantity − remises + charges)
   vatRate: number;        // Taux de TVA en % (ex: 20, 10, 5.5, 0)
   vatCategory: VatCategoryCode;
   productId?: string;     // Référence article fournisseur
   buyerProductId?: string; // Référence article acheteur
   note?: string;
+  billingPeriod?: BillingPeriod;      // Période facturée sur la ligne (BG-26)
+  allowances?: LineAllowanceCharge[]; // Remises ligne (BG-27)
+  charges?: LineAllowanceCharge[];    // Charges ligne (BG-28)
 }
 
 export interface PaymentInfo {
@@ -47,21 +122,79 @@ export interface PaymentInfo {
   terms?: string;         // Conditions de paiement (texte libre)
 }
 
+/**
+ * Remise (BG-20) ou charge (BG-21) au niveau document (BT-92 à BT-105).
+ * Porte en plus la catégorie et le taux de TVA dont elle ajuste l'assiette.
+ */
+export interface AllowanceCharge extends LineAllowanceCharge {
+  vatCategory: VatCategoryCode;
+  vatRate: number;        // Taux de TVA en %
+}
+
+/** Référence à une facture antérieure (BG-3), ex : facture corrigée par un avoir. */
+export interface InvoiceReference {
+  number: string;     // Numéro de la facture antérieure (BT-25)
+  issueDate?: string; // Date d'émission YYYY-MM-DD (BT-26)
+}
+
+/**
+ * Motif d'exonération de TVA pour une catégorie (BT-120 / BT-121).
+ * Obligatoire pour les catégories E, AE, K, G et O.
+ */
+export interface VatExemption {
+  categoryCode: VatCategoryCode;
+  reason?: string;     // Texte du motif (ex: "Autoliquidation - art. 283-2 nonies du CGI")
+  reasonCode?: string; // Code VATEX (ex: "VATEX-EU-AE", "VATEX-EU-IC", "VATEX-EU-G")
+}
+
+/** Contenu binaire embarqué d'un justificatif (BT-125). */
+export interface BinaryAttachment {
+  content: string;  // Contenu encodé en Base64
+  mimeCode: string; // application/pdf, image/png, image/jpeg, text/csv, xlsx, ods
+  filename: string; // Nom de fichier (ex: "feuille-de-temps.pdf")
+}
+
+/**
+ * Justificatif additionnel (BG-24) : feuille de temps, bon de livraison…
+ * Le document est soit référencé par une URI externe, soit embarqué dans le XML.
+ */
+export interface SupportingDocument {
+  id: string;                    // Référence du justificatif (BT-122)
+  description?: string;          // Description (BT-123)
+  uri?: string;                  // Emplacement externe (BT-124)
+  attachment?: BinaryAttachment; // Document embarqué (BT-125)
+}
+
 export interface Invoice {
   number: string;
   typeCode: InvoiceTypeCode; // 380=facture, 381=avoir, 389=auto-facturation
   date: string;              // YYYY-MM-DD
   dueDate?: string;          // YYYY-MM-DD
   deliveryDate?: string;     // YYYY-MM-DD
+  billingPeriod?: BillingPeriod; // Période de facturation (BG-14), ex : prestations du 01/09 au 30/09
   currency: string;          // ISO 4217 (ex: "EUR")
+  taxCurrency?: string;      // Devise de comptabilisation de la TVA (BT-6), ex: "EUR" pour une facture en GBP
+  exchangeRate?: number;     // Taux de change : 1 unité de `currency` = exchangeRate unités de `taxCurrency`
+  taxTotalInTaxCurrency?: number; // Total TVA en devise de comptabilisation (BT-111), sinon calculé via exchangeRate
   profile: FacturXProfile;
   seller: TradeParty;
   buyer: TradeParty;
+  payee?: PayeeParty;                          // Bénéficiaire du paiement (BG-10)
+  sellerTaxRepresentative?: TaxRepresentativeParty; // Représentant fiscal du vendeur (BG-11)
+  shipTo?: ShipToParty;                        // Livraison (BG-13)
   lines: InvoiceLine[];
+  allowances?: AllowanceCharge[]; // Remises globales (BG-20)
+  charges?: AllowanceCharge[];    // Frais globaux (BG-21)
+  vatRoundingMode?: 'category' | 'line'; // Arrondi TVA : par catégorie (défaut, EN 16931) ou par ligne
+  vatExemptions?: VatExemption[]; // Motifs d'exonération par catégorie TVA (BT-120 / BT-121)
+  prepaidAmount?: number;         // Montant déjà payé : acomptes (BT-113)
+  roundingAmount?: number;        // Arrondi appliqué au montant à payer (BT-114)
   payment?: PaymentInfo;
   purchaseOrderRef?: string;  // Référence bon de commande
   contractRef?: string;       // Référence contrat
-  notes?: string;
+  precedingInvoices?: InvoiceReference[]; // Factures corrigées/annulées par cet avoir (BG-3)
+  supportingDocuments?: SupportingDocument[]; // Justificatifs additionnels (BG-24)
+  notes?: string | InvoiceNote[]; // Texte libre ou notes codifiées
   buyerRef?: string;          // Référence interne acheteur
 }
 
@@ -70,19 +203,38 @@ export interface VatSummary {
   rate: number;
   taxableAmount: number;
   taxAmount: number;
+  exemptionReason?: string;
+  exemptionReasonCode?: string;
 }
 
 export interface InvoiceTotals {
   lineTotalAmount: number;
+  allowanceTotalAmount: number;
+  chargeTotalAmount: number;
   taxBasisTotalAmount: number;
   taxTotalAmount: number;
+  taxTotalAmountInTaxCurrency?: number;
   grandTotalAmount: number;
+  prepaidAmount: number;
+  roundingAmount: number;
   duePayableAmount: number;
   vatSummaries: VatSummary[];
 }
 
+/**
+ * Constat de validation : règle EN 16931 enfreinte (BR-*, BR-CO-*…) ou contrôle de format,
+ * avec le chemin de l'élément fautif dans la facture (ex: "lines[0].vatRate").
+ */
+export interface ValidationFinding {
+  rule?: string;       // Identifiant de la règle EN 16931 (ex: "BR-CO-10"), absent pour un contrôle de format
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
-  errors: string[];
+  errors: string[];   // Constats bloquants, sous forme de texte
   warnings: string[];
+  findings: ValidationFinding[];
 }
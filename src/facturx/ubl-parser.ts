@@ -0,0 +1,348 @@
+import {
+  parseFacturXTotals,
+  parseFacturXXml,
+  xmlList as list,
+  xmlNumber as num,
+  xmlOptionalNumber as optNum,
+  xmlParser,
+  xmlScheme as scheme,
+  xmlText as str,
+  type XmlRecord,
+} from './parser.js';
+import { profileFromGuideline } from './profiles.js';
+import { detectSyntax } from './ubl.js';
+import type {
+  AllowanceCharge,
+  BillingPeriod,
+  FacturXProfile,
+  Invoice,
+  InvoiceLine,
+  InvoiceNote,
+  InvoiceTotals,
+  InvoiceTypeCode,
+  LineAllowanceCharge,
+  PaymentMeansCode,
+  SupportingDocument,
+  TradeParty,
+  TradePartyAddress,
+  VatCategoryCode,
+  VatExemption,
+  VatSummary,
+} from './types.js';
+
+// Premier élément au bout d'un chemin d'éléments (ex: "Party", "PartyLegalEntity")
+function at(node: unknown, ...path: string[]): XmlRecord | undefined {
+  let current = node as XmlRecord | undefined;
+  for (const name of path) {
+    const value = list(current?.[name])[0] as unknown;
+    if (value === undefined) return undefined;
+    current = (typeof value === 'object' ? value : { '#text': value }) as XmlRecord;
+  }
+  return current;
+}
+
+function text(node: unknown, ...path: string[]): string | undefined {
+  return str(at(node, ...path)).trim() || undefined;
+}
+
+function parsePeriod(raw: XmlRecord | undefined): BillingPeriod | undefined {
+  const startDate = text(raw, 'StartDate');
+  const endDate   = text(raw, 'EndDate');
+  return startDate || endDate ? { startDate, endDate } : undefined;
+}
+
+function parseAddress(raw: XmlRecord | undefined): TradePartyAddress {
+  return {
+    street:           str(at(raw, 'StreetName')),
+    additionalStreet: text(raw, 'AdditionalStreetName'),
+    city:             str(at(raw, 'CityName')),
+    postalCode:       str(at(raw, 'PostalZone')),
+    countryCode:      str(at(raw, 'Country', 'IdentificationCode')),
+    stateOrProvince:  text(raw, 'CountrySubentity'),
+  };
+}
+
+// Numéro de TVA : schéma fiscal VAT (les autres schémas ne sont pas repris)
+function vatNumberOf(party: XmlRecord | undefined): string | undefined {
+  const tax = list(party?.['PartyTaxScheme']).find(t => text(t, 'TaxScheme', 'ID') === 'VAT');
+  return text(tax, 'CompanyID');
+}
+
+function parseParty(raw: XmlRecord | undefined): TradeParty {
+  const party = at(raw, 'Party');
+  const legal = at(party, 'PartyLegalEntity');
+  const id = at(party, 'PartyIdentification', 'ID');
+  const legalId = at(legal, 'CompanyID');
+  const endpoint = at(party, 'EndpointID');
+  const mail = text(party, 'Contact', 'ElectronicMail');
+  // Adresse EM reprenant l'email du contact : repli du générateur, pas d'adresse électronique distincte
+  const emailEndpoint = scheme(endpoint) === 'EM' && (!mail || mail === text(endpoint));
+  const contact = {
+    name:  text(party, 'Contact', 'Name'),
+    email: emailEndpoint ? text(endpoint) : mail,
+    phone: text(party, 'Contact', 'Telephone'),
+  };
+
+  return {
+    name:                    text(legal, 'RegistrationName') ?? str(at(party, 'PartyName', 'Name')),
+    id:                      text(id),
+    idScheme:                scheme(id),
+    vatNumber:               vatNumberOf(party),
+    legalId:                 text(legalId),
+    legalIdScheme:           scheme(legalId),
+    electronicAddress:       emailEndpoint ? undefined : text(endpoint),
+    electronicAddressScheme: emailEndpoint ? undefined : scheme(endpoint),
+    address:                 parseAddress(at(party, 'PostalAddress')),
+    contact:                 contact.name || contact.email || contact.phone ? contact : undefined,
+  };
+}
+
+function parseLineAllowanceCharge(raw: XmlRecord): LineAllowanceCharge {
+  return {
+    amount:     num(raw['Amount']),
+    baseAmount: optNum(raw['BaseAmount']),
+    percentage: optNum(raw['MultiplierFactorNumeric']),
+    reason:     text(raw, 'AllowanceChargeReason'),
+    reasonCode: text(raw, 'AllowanceChargeReasonCode'),
+  };
+}
+
+function parseAllowanceCharge(raw: XmlRecord): AllowanceCharge {
+  const tax = at(raw, 'TaxCategory');
+  return {
+    ...parseLineAllowanceCharge(raw),
+    vatCategory: str(at(tax, 'ID')) as VatCategoryCode,
+    vatRate:     num(at(tax, 'Percent')),
+  };
+}
+
+function isCharge(raw: XmlRecord): boolean {
+  return text(raw, 'ChargeIndicator') === 'true';
+}
+
+function parseSupportingDocument(raw: XmlRecord): SupportingDocument {
+  const binary = at(raw, 'Attachment', 'EmbeddedDocumentBinaryObject');
+  return {
+    id:          str(at(raw, 'ID')),
+    description: text(raw, 'DocumentDescription'),
+    uri:         text(raw, 'Attachment', 'ExternalReference', 'URI'),
+    attachment:  binary ? {
+      content:  str(binary).replace(/\s+/g, ''),
+      mimeCode: str(binary['@_mimeCode']),
+      filename: str(binary['@_filename']),
+    } : undefined,
+  };
+}
+
+// Code sujet (BT-21) porté en préfixe #CODE# de la note
+function parseNote(raw: unknown): InvoiceNote {
+  const content = str(raw);
+  const coded = /^#([A-Z]{3})#([\s\S]*)$/.exec(content);
+  return coded ? { subjectCode: coded[1], content: coded[2] } : { content };
+}
+
+function parseLine(l: XmlRecord): InvoiceLine {
+  const quantity = at(l, 'InvoicedQuantity') ?? at(l, 'CreditedQuantity');
+  const item = at(l, 'Item');
+  const tax = at(item, 'ClassifiedTaxCategory');
+  const price = at(l, 'Price');
+  const priceDiscount = list(price?.['AllowanceCharge']).find(ac => !isCharge(ac));
+  const basisQuantity = optNum(price?.['BaseQuantity']);
+  const allowanceCharges = list(l['AllowanceCharge']);
+  const allowances = allowanceCharges.filter(ac => !isCharge(ac)).map(parseLineAllowanceCharge);
+  const charges    = allowanceCharges.filter(isCharge).map(parseLineAllowanceCharge);
+
+  return {
+    id:                str(at(l, 'ID')),
+    description:       str(at(item, 'Name')),
+    quantity:          num(quantity),
+    unitCode:          str(quantity?.['@_unitCode']),
+    unitPrice:         num(price?.['PriceAmount']),
+    grossPrice:        optNum(priceDiscount?.['BaseAmount']),
+    priceDiscount:     priceDiscount ? num(priceDiscount['Amount']) || undefined : undefined,
+    priceBaseQuantity: basisQuantity && basisQuantity !== 1 ? basisQuantity : undefined,
+    totalAmount:       num(l['LineExtensionAmount']),
+    vatRate:           num(at(tax, 'Percent')),
+    vatCategory:       str(at(tax, 'ID')) as VatCategoryCode,
+    productId:         text(item, 'SellersItemIdentification', 'ID'),
+    buyerProductId:    text(item, 'BuyersItemIdentification', 'ID'),
+    note:              text(item, 'Description'),
+    billingPeriod:     parsePeriod(at(l, 'InvoicePeriod')),
+    allowances:        allowances.length ? allowances : undefined,
+    charges:           charges.length ? charges : undefined,
+  };
+}
+
+/**
+ * Convertit une facture (Invoice) ou un avoir (CreditNote) UBL 2.1 en facture.
+ * UBL n'a pas de profil : la facture obtenue relève du profil EN 16931.
+ */
+export function parseUblXml(xmlContent: string): Invoice {
+  const parsed = xmlParser.parse(xmlContent) as XmlRecord;
+  const root = (parsed['Invoice'] ?? parsed['CreditNote']) as XmlRecord | undefined;
+  if (!root) throw new Error('Document XML invalide : balise Invoice ou CreditNote (UBL) introuvable');
+  const creditNote = !parsed['Invoice'];
+  // Contenu EN 16931 complet : seul l'identifiant d'une CIUS précise le profil
+  const specification = profileFromGuideline(str(at(root, 'CustomizationID')));
+  const profile: FacturXProfile = specification === 'XRECHNUNG' || specification === 'PEPPOL_BIS' ? specification : 'EN_16931';
+
+  const lines = list(root[creditNote ? 'CreditNoteLine' : 'InvoiceLine']).map(parseLine);
+
+  // Remises et charges globales
+  const allowanceCharges = list(root['AllowanceCharge']);
+  const allowances = allowanceCharges.filter(ac => !isCharge(ac)).map(parseAllowanceCharge);
+  const charges    = allowanceCharges.filter(isCharge).map(parseAllowanceCharge);
+
+  // Ventilation TVA : motifs d'exonération (un par catégorie)
+  const taxTotals = list(root['TaxTotal']);
+  const vatExemptions: VatExemption[] = [];
+  for (const subtotal of taxTotals.flatMap(t => list(t['TaxSubtotal']))) {
+    const category = at(subtotal, 'TaxCategory');
+    const categoryCode = str(at(category, 'ID')) as VatCategoryCode;
+    const reason = text(category, 'TaxExemptionReason');
+    const reasonCode = text(category, 'TaxExemptionReasonCode');
+    if ((reason || reasonCode) && !vatExemptions.some(e => e.categoryCode === categoryCode)) {
+      vatExemptions.push({ categoryCode, reason, reasonCode });
+    }
+  }
+
+  // Devise de comptabilisation TVA : TaxTotal exprimé dans cette devise
+  const currency = str(at(root, 'DocumentCurrencyCode'));
+  const taxCurrency = text(root, 'TaxCurrencyCode');
+  const taxTotalInTaxCurrency = taxCurrency && taxCurrency !== currency
+    ? optNum(taxTotals.map(t => at(t, 'TaxAmount')).find(a => str(a?.['@_currencyID']) === taxCurrency))
+    : undefined;
+
+  const monetary = at(root, 'LegalMonetaryTotal');
+  const prepaidAmount  = optNum(monetary?.['PrepaidAmount']);
+  const roundingAmount = optNum(monetary?.['PayableRoundingAmount']);
+
+  // Justificatifs — l'objet facturé (130) n'est pas repris
+  const supportingDocuments = list(root['AdditionalDocumentReference'])
+    .filter(ref => text(ref, 'DocumentTypeCode') !== '130')
+    .map(parseSupportingDocument);
+
+  const precedingInvoices = list(root['BillingReference']).flatMap(ref => {
+    const doc = at(ref, 'InvoiceDocumentReference');
+    return doc ? [{ number: str(at(doc, 'ID')), issueDate: text(doc, 'IssueDate') }] : [];
+  });
+
+  // Paiement
+  const paymentMeans = at(root, 'PaymentMeans');
+  const account = at(paymentMeans, 'PayeeFinancialAccount');
+  const terms = text(root, 'PaymentTerms', 'Note');
+
+  // Livraison
+  const delivery = at(root, 'Delivery');
+  const location = at(delivery, 'DeliveryLocation');
+  const shipToName = text(delivery, 'DeliveryParty', 'PartyName', 'Name');
+  const shipTo = location || shipToName ? {
+    name:       shipToName,
+    locationId: text(location, 'ID'),
+    address:    at(location, 'Address') ? parseAddress(at(location, 'Address')) : undefined,
+  } : undefined;
+
+  const payee = at(root, 'PayeeParty');
+  const taxRep = at(root, 'TaxRepresentativeParty');
+  const notes = list(root['Note']).map(parseNote);
+
+  return {
+    number:       str(at(root, 'ID')),
+    typeCode:     str(at(root, creditNote ? 'CreditNoteTypeCode' : 'InvoiceTypeCode')) as InvoiceTypeCode,
+    date:         str(at(root, 'IssueDate')),
+    dueDate:      text(root, 'DueDate') ?? text(paymentMeans, 'PaymentDueDate'),
+    deliveryDate: text(delivery, 'ActualDeliveryDate'),
+    billingPeriod: parsePeriod(at(root, 'InvoicePeriod')),
+    currency,
+    taxCurrency,
+    taxTotalInTaxCurrency,
+    profile,
+    seller:       parseParty(at(root, 'AccountingSupplierParty')),
+    buyer:        parseParty(at(root, 'AccountingCustomerParty')),
+    payee: payee ? {
+      name:          str(at(payee, 'PartyName', 'Name')),
+      id:            text(payee, 'PartyIdentification', 'ID'),
+      idScheme:      scheme(at(payee, 'PartyIdentification', 'ID')),
+      legalId:       text(payee, 'PartyLegalEntity', 'CompanyID'),
+      legalIdScheme: scheme(at(payee, 'PartyLegalEntity', 'CompanyID')),
+    } : undefined,
+    sellerTaxRepresentative: taxRep ? {
+      name:      str(at(taxRep, 'PartyName', 'Name')),
+      vatNumber: vatNumberOf(taxRep) ?? '',
+      address:   parseAddress(at(taxRep, 'PostalAddress')),
+    } : undefined,
+    shipTo,
+    lines,
+    allowances:     allowances.length ? allowances : undefined,
+    charges:        charges.length ? charges : undefined,
+    vatExemptions:  vatExemptions.length ? vatExemptions : undefined,
+    prepaidAmount:  prepaidAmount || undefined,
+    roundingAmount: roundingAmount || undefined,
+    payment: paymentMeans ? {
+      meansCode: str(at(paymentMeans, 'PaymentMeansCode')) as PaymentMeansCode,
+      iban:      text(account, 'ID'),
+      bic:       text(account, 'FinancialInstitutionBranch', 'ID'),
+      reference: text(paymentMeans, 'PaymentID'),
+      terms,
+    } : undefined,
+    purchaseOrderRef:    text(root, 'OrderReference', 'ID'),
+    contractRef:         text(root, 'ContractDocumentReference', 'ID'),
+    buyerRef:            text(root, 'BuyerReference'),
+    precedingInvoices:   precedingInvoices.length ? precedingInvoices : undefined,
+    supportingDocuments: supportingDocuments.length ? supportingDocuments : undefined,
+    notes:               notes.length ? notes : undefined,
+  };
+}
+
+/** Totaux (LegalMonetaryTotal) et ventilation TVA (TaxSubtotal) tels que déclarés par un document UBL. */
+export function parseUblTotals(xmlContent: string): InvoiceTotals {
+  const parsed = xmlParser.parse(xmlContent) as XmlRecord;
+  const root = (parsed['Invoice'] ?? parsed['CreditNote']) as XmlRecord | undefined;
+  if (!root) throw new Error('Document XML invalide : balise Invoice ou CreditNote (UBL) introuvable');
+  const currency = str(at(root, 'DocumentCurrencyCode'));
+  const taxCurrency = text(root, 'TaxCurrencyCode');
+
+  // Un TaxTotal par devise : celui de la facture porte la ventilation
+  const taxTotals = list(root['TaxTotal']);
+  const inCurrency = (code: string | undefined) =>
+    taxTotals.find(t => str(at(t, 'TaxAmount')?.['@_currencyID']) === code);
+  const taxTotal = inCurrency(currency) ?? taxTotals[0];
+  const converted = taxCurrency && taxCurrency !== currency ? inCurrency(taxCurrency) : undefined;
+
+  const vatSummaries: VatSummary[] = list(taxTotal?.['TaxSubtotal']).map(subtotal => {
+    const category = at(subtotal, 'TaxCategory');
+    return {
+      categoryCode:        str(at(category, 'ID')) as VatCategoryCode,
+      rate:                num(at(category, 'Percent')),
+      taxableAmount:       num(at(subtotal, 'TaxableAmount')),
+      taxAmount:           num(at(subtotal, 'TaxAmount')),
+      exemptionReason:     text(category, 'TaxExemptionReason'),
+      exemptionReasonCode: text(category, 'TaxExemptionReasonCode'),
+    };
+  });
+
+  const monetary = at(root, 'LegalMonetaryTotal');
+  return {
+    lineTotalAmount:      num(at(monetary, 'LineExtensionAmount')),
+    allowanceTotalAmount: num(at(monetary, 'AllowanceTotalAmount')),
+    chargeTotalAmount:    num(at(monetary, 'ChargeTotalAmount')),
+    taxBasisTotalAmount:  num(at(monetary, 'TaxExclusiveAmount')),
+    taxTotalAmount:       num(at(taxTotal, 'TaxAmount')),
+    taxTotalAmountInTaxCurrency: converted ? num(at(converted, 'TaxAmount')) : undefined,
+    grandTotalAmount:     num(at(monetary, 'TaxInclusiveAmount')),
+    prepaidAmount:        num(at(monetary, 'PrepaidAmount')),
+    roundingAmount:       num(at(monetary, 'PayableRoundingAmount')),
+    duePayableAmount:     num(at(monetary, 'PayableAmount')),
+    vatSummaries,
+  };
+}
+
+/** Convertit un document CII (Factur-X) ou UBL en facture, selon sa syntaxe. */
+export function parseInvoiceXml(xmlContent: string): Invoice {
+  return detectSyntax(xmlContent) === 'UBL' ? parseUblXml(xmlContent) : parseFacturXXml(xmlContent);
+}
+
+/** Totaux déclarés par un document CII (Factur-X) ou UBL, selon sa syntaxe. */
+export function parseInvoiceTotals(xmlContent: string): InvoiceTotals {
+  return detectSyntax(xmlContent) === 'UBL' ? parseUblTotals(xmlContent) : parseFacturXTotals(xmlContent);
+}
@@ -0,0 +1,383 @@
+import { create } from 'xmlbuilder2';
+import {
+  allowanceChargeAmount,
+  calculateTotals,
+  electronicAddress,
+  formatAmount as fmt,
+  formatPrice as fmtPrice,
+  formatQuantity as fmtQuantity,
+  identifierScheme,
+} from './generator.js';
+import { normalizeIdentifier } from './identifiers.js';
+import { normalizeNotes } from './mentions.js';
+import { CIUS_GUIDELINES, PEPPOL_BUSINESS_PROCESS } from './profiles.js';
+import type {
+  AllowanceCharge,
+  BillingPeriod,
+  Invoice,
+  LineAllowanceCharge,
+  TradeParty,
+  TradePartyAddress,
+  VatCategoryCode,
+} from './types.js';
+
+type XmlNode = ReturnType<typeof create>;
+
+/** Syntaxe d'un document de facturation EN 16931 : CII (Factur-X) ou UBL 2.1. */
+export type InvoiceSyntax = 'CII' | 'UBL';
+
+const UBL_NAMESPACES = {
+  Invoice:    'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  CreditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+  cac:        'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc:        'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+// Spécification (BT-24) : norme EN 16931 sans extension, hors CIUS (XRechnung, Peppol BIS)
+const UBL_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017';
+
+/** Syntaxe d'un document XML, d'après l'espace de noms de sa racine. */
+export function detectSyntax(xmlContent: string): InvoiceSyntax {
+  return /<(?:[\w.-]+:)?(?:Invoice|CreditNote)\b[^>]*urn:oasis:names:specification:ubl:schema:xsd:(?:Invoice|CreditNote)-2/
+    .test(xmlContent) ? 'UBL' : 'CII';
+}
+
+function appendAmount(parent: XmlNode, tag: string, value: number, currency: string): void {
+  parent.ele(tag, { currencyID: currency }).txt(fmt(value)).up();
+}
+
+function appendTaxCategory(parent: XmlNode, tag: string, category: VatCategoryCode, rate: number): XmlNode {
+  const el = parent.ele(tag);
+  el.ele('cbc:ID').txt(category).up();
+  // Hors champ (O) : pas de taux (BR-O-05)
+  if (category !== 'O') el.ele('cbc:Percent').txt(String(rate)).up();
+  return el;
+}
+
+function appendTaxScheme(parent: XmlNode): void {
+  parent.ele('cac:TaxScheme')
+    .ele('cbc:ID').txt('VAT').up()
+  .up();
+}
+
+function appendAllowanceCharge(
+  parent: XmlNode,
+  ac: LineAllowanceCharge | AllowanceCharge,
+  isCharge: boolean,
+  currency: string,
+): void {
+  const el = parent.ele('cac:AllowanceCharge');
+  el.ele('cbc:ChargeIndicator').txt(String(isCharge)).up();
+  if (ac.reasonCode) el.ele('cbc:AllowanceChargeReasonCode').txt(ac.reasonCode).up();
+  if (ac.reason)     el.ele('cbc:AllowanceChargeReason').txt(ac.reason).up();
+  if (typeof ac.percentage === 'number') el.ele('cbc:MultiplierFactorNumeric').txt(String(ac.percentage)).up();
+  appendAmount(el, 'cbc:Amount', allowanceChargeAmount(ac).toNumber(), currency);
+  if (typeof ac.baseAmount === 'number') appendAmount(el, 'cbc:BaseAmount', ac.baseAmount, currency);
+  if ('vatCategory' in ac) {
+    const tax = appendTaxCategory(el, 'cac:TaxCategory', ac.vatCategory, ac.vatRate);
+    appendTaxScheme(tax);
+    tax.up();
+  }
+  el.up();
+}
+
+function appendPeriod(parent: XmlNode, period: BillingPeriod): void {
+  const el = parent.ele('cac:InvoicePeriod');
+  if (period.startDate) el.ele('cbc:StartDate').txt(period.startDate).up();
+  if (period.endDate)   el.ele('cbc:EndDate').txt(period.endDate).up();
+  el.up();
+}
+
+function appendAddress(parent: XmlNode, tag: string, address: TradePartyAddress): void {
+  const el = parent.ele(tag);
+  if (address.street)           el.ele('cbc:StreetName').txt(address.street).up();
+  if (address.additionalStreet) el.ele('cbc:AdditionalStreetName').txt(address.additionalStreet).up();
+  if (address.city)             el.ele('cbc:CityName').txt(address.city).up();
+  if (address.postalCode)       el.ele('cbc:PostalZone').txt(address.postalCode).up();
+  if (address.stateOrProvince)  el.ele('cbc:CountrySubentity').txt(address.stateOrProvince).up();
+  el.ele('cac:Country')
+    .ele('cbc:IdentificationCode').txt(address.countryCode).up()
+  .up();
+  el.up();
+}
+
+function appendPartyIdentification(parent: XmlNode, id: string, scheme: string | undefined): void {
+  parent.ele('cac:PartyIdentification')
+    .ele('cbc:ID', scheme ? { schemeID: scheme } : {}).txt(scheme ? normalizeIdentifier(id) : id).up()
+  .up();
+}
+
+function appendLegalEntity(parent: XmlNode, name: string | undefined, legalId: string | undefined, scheme: string | undefined): void {
+  const el = parent.ele('cac:PartyLegalEntity');
+  if (name) el.ele('cbc:RegistrationName').txt(name).up();
+  if (legalId) {
+    el.ele('cbc:CompanyID', scheme ? { schemeID: scheme } : {}).txt(scheme ? normalizeIdentifier(legalId) : legalId).up();
+  }
+  el.up();
+}
+
+/** Vendeur (AccountingSupplierParty) ou acheteur (AccountingCustomerParty). */
+function appendParty(parent: XmlNode, tag: string, party: TradeParty): void {
+  const french = party.address?.countryCode === 'FR';
+  const el = parent.ele(tag).ele('cac:Party');
+  // Adresse électronique (BT-34 / BT-49) : à défaut, l'email du contact
+  const endpoint = electronicAddress(party);
+  if (endpoint) el.ele('cbc:EndpointID', endpoint.scheme ? { schemeID: endpoint.scheme } : {}).txt(endpoint.value).up();
+  if (party.id) appendPartyIdentification(el, party.id, identifierScheme(party.id, party.idScheme, french));
+  appendAddress(el, 'cac:PostalAddress', party.address);
+  if (party.vatNumber) {
+    const tax = el.ele('cac:PartyTaxScheme');
+    tax.ele('cbc:CompanyID').txt(party.vatNumber).up();
+    appendTaxScheme(tax);
+    tax.up();
+  }
+  appendLegalEntity(el, party.name, party.legalId, party.legalId ? identifierScheme(party.legalId, party.legalIdScheme, french) : undefined);
+  if (party.contact?.name || party.contact?.phone || party.contact?.email) {
+    const contact = el.ele('cac:Contact');
+    if (party.contact.name)  contact.ele('cbc:Name').txt(party.contact.name).up();
+    if (party.contact.phone) contact.ele('cbc:Telephone').txt(party.contact.phone).up();
+    if (party.contact.email) contact.ele('cbc:ElectronicMail').txt(party.contact.email).up();
+    contact.up();
+  }
+  el.up().up();
+}
+
+/**
+ * Génère une facture (Invoice) ou un avoir (CreditNote, type 381) UBL 2.1 conforme à EN 16931.
+ * La syntaxe UBL n'a pas de profil : tout le contenu EN 16931 de la facture est émis,
+ * sous l'identifiant de spécification XRechnung ou Peppol BIS pour ces profils.
+ */
+export function generateUbl(invoice: Invoice): string {
+  const totals = calculateTotals({ ...invoice, profile: 'EN_16931' });
+  const creditNote = invoice.typeCode === '381';
+  const documentTag = creditNote ? 'CreditNote' : 'Invoice';
+  const currency = invoice.currency;
+
+  const root = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele(documentTag, {
+      xmlns:       UBL_NAMESPACES[documentTag],
+      'xmlns:cac': UBL_NAMESPACES.cac,
+      'xmlns:cbc': UBL_NAMESPACES.cbc,
+    });
+
+  // ── En-tête ───────────────────────────────────────────────────────────
+  const profile = invoice.profile;
+  const customizationId = profile === 'XRECHNUNG' || profile === 'PEPPOL_BIS' ? CIUS_GUIDELINES[profile] : UBL_CUSTOMIZATION_ID;
+  root.ele('cbc:CustomizationID').txt(customizationId).up();
+  if (profile === 'PEPPOL_BIS') root.ele('cbc:ProfileID').txt(PEPPOL_BUSINESS_PROCESS).up();
+  root.ele('cbc:ID').txt(invoice.number).up();
+  root.ele('cbc:IssueDate').txt(invoice.date).up();
+  // Avoir : l'échéance est portée par le moyen de paiement
+  if (!creditNote && invoice.dueDate) root.ele('cbc:DueDate').txt(invoice.dueDate).up();
+  root.ele(creditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode').txt(invoice.typeCode).up();
+  // Code sujet (BT-21) : préfixe #CODE# de la note
+  for (const note of normalizeNotes(invoice.notes)) {
+    root.ele('cbc:Note').txt(note.subjectCode ? `#${note.subjectCode}#${note.content}` : note.content).up();
+  }
+  root.ele('cbc:DocumentCurrencyCode').txt(currency).up();
+  const taxCurrency = totals.taxTotalAmountInTaxCurrency !== undefined ? invoice.taxCurrency : undefined;
+  if (taxCurrency) root.ele('cbc:TaxCurrencyCode').txt(taxCurrency).up();
+  if (invoice.buyerRef) root.ele('cbc:BuyerReference').txt(invoice.buyerRef).up();
+  if (invoice.billingPeriod) appendPeriod(root, invoice.billingPeriod);
+
+  // ── Références ────────────────────────────────────────────────────────
+  if (invoice.purchaseOrderRef) {
+    root.ele('cac:OrderReference')
+      .ele('cbc:ID').txt(invoice.purchaseOrderRef).up()
+    .up();
+  }
+  for (const ref of invoice.precedingInvoices ?? []) {
+    const doc = root.ele('cac:BillingReference').ele('cac:InvoiceDocumentReference');
+    doc.ele('cbc:ID').txt(ref.number).up();
+    if (ref.issueDate) doc.ele('cbc:IssueDate').txt(ref.issueDate).up();
+    doc.up().up();
+  }
+  if (invoice.contractRef) {
+    root.ele('cac:ContractDocumentReference')
+      .ele('cbc:ID').txt(invoice.contractRef).up()
+    .up();
+  }
+  for (const doc of invoice.supportingDocuments ?? []) {
+    const ref = root.ele('cac:AdditionalDocumentReference');
+    ref.ele('cbc:ID').txt(doc.id).up();
+    if (doc.description) ref.ele('cbc:DocumentDescription').txt(doc.description).up();
+    if (doc.attachment || doc.uri) {
+      const attachment = ref.ele('cac:Attachment');
+      if (doc.attachment) {
+        attachment.ele('cbc:EmbeddedDocumentBinaryObject', {
+          mimeCode: doc.attachment.mimeCode,
+          filename: doc.attachment.filename,
+        }).txt(doc.attachment.content.replace(/\s+/g, '')).up();
+      }
+      if (doc.uri) {
+        attachment.ele('cac:ExternalReference')
+          .ele('cbc:URI').txt(doc.uri).up()
+        .up();
+      }
+      attachment.up();
+    }
+    ref.up();
+  }
+
+  // ── Acteurs ───────────────────────────────────────────────────────────
+  appendParty(root, 'cac:AccountingSupplierParty', invoice.seller);
+  appendParty(root, 'cac:AccountingCustomerParty', invoice.buyer);
+
+  // Bénéficiaire du paiement (si différent du vendeur)
+  if (invoice.payee) {
+    const payee = root.ele('cac:PayeeParty');
+    if (invoice.payee.id) appendPartyIdentification(payee, invoice.payee.id, invoice.payee.idScheme);
+    payee.ele('cac:PartyName')
+      .ele('cbc:Name').txt(invoice.payee.name).up()
+    .up();
+    if (invoice.payee.legalId) {
+      appendLegalEntity(payee, undefined, invoice.payee.legalId, invoice.payee.legalIdScheme);
+    }
+    payee.up();
+  }
+
+  // Représentant fiscal du vendeur
+  const taxRep = invoice.sellerTaxRepresentative;
+  if (taxRep) {
+    const rep = root.ele('cac:TaxRepresentativeParty');
+    rep.ele('cac:PartyName')
+      .ele('cbc:Name').txt(taxRep.name).up()
+    .up();
+    appendAddress(rep, 'cac:PostalAddress', taxRep.address);
+    const tax = rep.ele('cac:PartyTaxScheme');
+    tax.ele('cbc:CompanyID').txt(taxRep.vatNumber).up();
+    appendTaxScheme(tax);
+    tax.up();
+    rep.up();
+  }
+
+  // ── Livraison ─────────────────────────────────────────────────────────
+  const shipTo = invoice.shipTo;
+  if (shipTo || invoice.deliveryDate) {
+    const delivery = root.ele('cac:Delivery');
+    if (invoice.deliveryDate) delivery.ele('cbc:ActualDeliveryDate').txt(invoice.deliveryDate).up();
+    if (shipTo?.locationId || shipTo?.address) {
+      const location = delivery.ele('cac:DeliveryLocation');
+      if (shipTo.locationId) location.ele('cbc:ID').txt(shipTo.locationId).up();
+      if (shipTo.address)    appendAddress(location, 'cac:Address', shipTo.address);
+      location.up();
+    }
+    if (shipTo?.name) {
+      delivery.ele('cac:DeliveryParty')
+        .ele('cac:PartyName')
+          .ele('cbc:Name').txt(shipTo.name).up()
+        .up()
+      .up();
+    }
+    delivery.up();
+  }
+
+  // ── Paiement ──────────────────────────────────────────────────────────
+  if (invoice.payment) {
+    const means = root.ele('cac:PaymentMeans');
+    means.ele('cbc:PaymentMeansCode').txt(invoice.payment.meansCode).up();
+    if (creditNote && invoice.dueDate) means.ele('cbc:PaymentDueDate').txt(invoice.dueDate).up();
+    if (invoice.payment.reference) means.ele('cbc:PaymentID').txt(invoice.payment.reference).up();
+    if (invoice.payment.iban) {
+      const account = means.ele('cac:PayeeFinancialAccount');
+      account.ele('cbc:ID').txt(invoice.payment.iban.replace(/\s/g, '')).up();
+      if (invoice.payment.bic) {
+        account.ele('cac:FinancialInstitutionBranch')
+          .ele('cbc:ID').txt(invoice.payment.bic).up()
+        .up();
+      }
+      account.up();
+    }
+    means.up();
+  }
+  if (invoice.payment?.terms) {
+    root.ele('cac:PaymentTerms')
+      .ele('cbc:Note').txt(invoice.payment.terms).up()
+    .up();
+  }
+
+  // Remises et charges globales
+  for (const a of invoice.allowances ?? []) appendAllowanceCharge(root, a, false, currency);
+  for (const c of invoice.charges ?? [])    appendAllowanceCharge(root, c, true, currency);
+
+  // ── TVA ───────────────────────────────────────────────────────────────
+  const taxTotal = root.ele('cac:TaxTotal');
+  appendAmount(taxTotal, 'cbc:TaxAmount', totals.taxTotalAmount, currency);
+  for (const vat of totals.vatSummaries) {
+    const subtotal = taxTotal.ele('cac:TaxSubtotal');
+    appendAmount(subtotal, 'cbc:TaxableAmount', vat.taxableAmount, currency);
+    appendAmount(subtotal, 'cbc:TaxAmount', vat.taxAmount, currency);
+    const category = appendTaxCategory(subtotal, 'cac:TaxCategory', vat.categoryCode, vat.rate);
+    if (vat.exemptionReasonCode) category.ele('cbc:TaxExemptionReasonCode').txt(vat.exemptionReasonCode).up();
+    if (vat.exemptionReason)     category.ele('cbc:TaxExemptionReason').txt(vat.exemptionReason).up();
+    appendTaxScheme(category);
+    category.up();
+    subtotal.up();
+  }
+  taxTotal.up();
+  // Total TVA en devise de comptabilisation (BT-111) : sans ventilation
+  if (taxCurrency) {
+    const converted = root.ele('cac:TaxTotal');
+    appendAmount(converted, 'cbc:TaxAmount', totals.taxTotalAmountInTaxCurrency!, taxCurrency);
+    converted.up();
+  }
+
+  // ── Totaux ────────────────────────────────────────────────────────────
+  const monetary = root.ele('cac:LegalMonetaryTotal');
+  appendAmount(monetary, 'cbc:LineExtensionAmount', totals.lineTotalAmount, currency);
+  appendAmount(monetary, 'cbc:TaxExclusiveAmount', totals.taxBasisTotalAmount, currency);
+  appendAmount(monetary, 'cbc:TaxInclusiveAmount', totals.grandTotalAmount, currency);
+  if (invoice.allowances?.length) appendAmount(monetary, 'cbc:AllowanceTotalAmount', totals.allowanceTotalAmount, currency);
+  if (invoice.charges?.length)    appendAmount(monetary, 'cbc:ChargeTotalAmount', totals.chargeTotalAmount, currency);
+  if (invoice.prepaidAmount)      appendAmount(monetary, 'cbc:PrepaidAmount', totals.prepaidAmount, currency);
+  if (invoice.roundingAmount)     appendAmount(monetary, 'cbc:PayableRoundingAmount', totals.roundingAmount, currency);
+  appendAmount(monetary, 'cbc:PayableAmount', totals.duePayableAmount, currency);
+  monetary.up();
+
+  // ── Lignes ────────────────────────────────────────────────────────────
+  for (const line of invoice.lines) {
+    const li = root.ele(creditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine');
+    li.ele('cbc:ID').txt(line.id).up();
+    li.ele(creditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', { unitCode: line.unitCode })
+      .txt(fmtQuantity(line.quantity)).up();
+    appendAmount(li, 'cbc:LineExtensionAmount', line.totalAmount, currency);
+    if (line.billingPeriod) appendPeriod(li, line.billingPeriod);
+    for (const a of line.allowances ?? []) appendAllowanceCharge(li, a, false, currency);
+    for (const c of line.charges ?? [])    appendAllowanceCharge(li, c, true, currency);
+
+    const item = li.ele('cac:Item');
+    if (line.note) item.ele('cbc:Description').txt(line.note).up();
+    item.ele('cbc:Name').txt(line.description).up();
+    if (line.buyerProductId) {
+      item.ele('cac:BuyersItemIdentification')
+        .ele('cbc:ID').txt(line.buyerProductId).up()
+      .up();
+    }
+    if (line.productId) {
+      item.ele('cac:SellersItemIdentification')
+        .ele('cbc:ID').txt(line.productId).up()
+      .up();
+    }
+    const category = appendTaxCategory(item, 'cac:ClassifiedTaxCategory', line.vatCategory, line.vatRate);
+    appendTaxScheme(category);
+    category.up();
+    item.up();
+
+    const price = li.ele('cac:Price');
+    price.ele('cbc:PriceAmount', { currencyID: currency }).txt(fmtPrice(line.unitPrice)).up();
+    price.ele('cbc:BaseQuantity', { unitCode: line.unitCode }).txt(fmtQuantity(line.priceBaseQuantity ?? 1)).up();
+    // Prix brut (BT-148) et remise unitaire (BT-147)
+    if (typeof line.grossPrice === 'number') {
+      const discount = price.ele('cac:AllowanceCharge');
+      discount.ele('cbc:ChargeIndicator').txt('false').up();
+      discount.ele('cbc:Amount', { currencyID: currency }).txt(fmtPrice(line.priceDiscount ?? 0)).up();
+      discount.ele('cbc:BaseAmount', { currencyID: currency }).txt(fmtPrice(line.grossPrice)).up();
+      discount.up();
+    }
+    price.up();
+
+    li.up();
+  }
+
+  return root.end({ prettyPrint: true });
+}
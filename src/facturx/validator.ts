@@ -1,97 +1,454 @@
-import type { Invoice, ValidationResult } from './types.js';
+import { EAS_CODES } from './code-lists.js';
+import { Decimal, money } from './decimal.js';
+import { calculateTotals, computeLineNetAmount } from './generator.js';
+import {
+  SCHEME_SIREN,
+  SCHEME_SIRET,
+  frenchIdentifierScheme,
+  frenchVatKey,
+  isValidSiren,
+  isValidSiret,
+  normalizeIdentifier,
+} from './identifiers.js';
+import { FRENCH_LEGAL_MENTIONS, getMissingLegalMentions, isFrenchB2B, normalizeNotes } from './mentions.js';
+import { PROFILES, profileAllows } from './profiles.js';
+import { runBusinessRules } from './rules.js';
+import { checkVatNumber, isEuVatNumber, normalizeVatNumber } from './vat-number.js';
+import type {
+  AllowanceCharge,
+  BillingPeriod,
+  Invoice,
+  LineAllowanceCharge,
+  TradeParty,
+  ValidationFinding,
+  ValidationResult,
+} from './types.js';
 
 const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 const CURRENCY_RE = /^[A-Z]{3}$/;
 const COUNTRY_RE = /^[A-Z]{2}$/;
-const VAT_CATEGORY_CODES = new Set(['S', 'Z', 'E', 'K', 'G', 'O', 'L', 'M']);
+const VAT_CATEGORY_CODES = new Set(['S', 'Z', 'E', 'AE', 'K', 'G', 'O', 'L', 'M']);
 const INVOICE_TYPE_CODES = new Set(['380', '381', '389', '384']);
+// Types MIME autorisés pour les justificatifs embarqués (BR-CL-24)
+const ATTACHMENT_MIME_CODES = new Set([
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.oasis.opendocument.spreadsheet',
+]);
+const BASE64_RE = /^[A-Za-z0-9+/]*={0,2}$/;
 
+/** Collecte des constats : chemin de l'élément fautif (ex: "lines[0].unitCode") et message. */
+interface Reporter {
+  error(path: string, message: string): void;
+  warn(path: string, message: string): void;
+}
+
+// Montant présent et assiette/motif (BR-31, BR-CO-21…) contrôlés par le moteur de règles
+function validateAllowanceCharge(
+  ac: LineAllowanceCharge,
+  ref: string,
+  path: string,
+  report: Reporter,
+): void {
+  if (typeof ac.amount === 'number' && ac.amount < 0)
+    report.error(`${path}.amount`, `${ref} : Montant négatif non autorisé`);
+}
+
+// Présence d'une date (BR-CO-19 / BR-CO-20) et début ≤ fin (BR-29 / BR-30) : moteur de règles
+function validateBillingPeriod(
+  period: BillingPeriod,
+  ref: string,
+  path: string,
+  [startBt, endBt]: [string, string],
+  report: Reporter,
+): void {
+  const { startDate, endDate } = period;
+  if (startDate && !startDate.match(DATE_RE))
+    report.error(`${path}.startDate`, `${ref} : Date de début invalide (${startBt}, format attendu : YYYY-MM-DD)`);
+  if (endDate && !endDate.match(DATE_RE))
+    report.error(`${path}.endDate`, `${ref} : Date de fin invalide (${endBt}, format attendu : YYYY-MM-DD)`);
+}
+
+/**
+ * SIREN / SIRET d'un acteur français (ou qualifiés 0002 / 0009) : format, clé de Luhn,
+ * cohérence SIREN ↔ SIRET ↔ numéro de TVA FR.
+ */
+function validateFrenchIdentifiers(
+  party: TradeParty,
+  label: string,
+  path: string,
+  [idBt, legalBt, vatBt]: [string, string, string],
+  report: Reporter,
+): void {
+  const french = party.address?.countryCode === 'FR';
+  const schemeOf = (value: string, explicit?: string) => explicit || (french ? frenchIdentifierScheme(value) : undefined);
+  let siren: string | undefined;
+  let siret: string | undefined;
+
+  const check = (value: string | undefined, explicit: string | undefined, bt: string, field: string) => {
+    if (!value) return;
+    const id = normalizeIdentifier(value);
+    const scheme = schemeOf(value, explicit);
+    if (scheme === SCHEME_SIREN) {
+      if (!isValidSiren(id)) report.error(field, `${bt} : SIREN ${label} invalide (9 chiffres, clé de Luhn)`);
+      else siren = id;
+    } else if (scheme === SCHEME_SIRET) {
+      if (!isValidSiret(id)) report.error(field, `${bt} : SIRET ${label} invalide (14 chiffres, clé de Luhn)`);
+      else siret = id;
+    } else if (french && /^\d+$/.test(id)) {
+      report.error(field, `${bt} : Identifiant ${label} "${value}" — SIREN (9 chiffres) ou SIRET (14 chiffres) attendu`);
+    }
+  };
+  check(party.id, party.idScheme, idBt, `${path}.id`);
+  check(party.legalId, party.legalIdScheme, legalBt, `${path}.legalId`);
+
+  if (siren && siret && !siret.startsWith(siren))
+    report.error(`${path}.id`, `${idBt} : SIRET ${label} (${siret}) ne commence pas par son SIREN (${siren})`);
+
+  // La clé du numéro de TVA est contrôlée par validateVatNumber
+  const vat = party.vatNumber ? normalizeVatNumber(party.vatNumber) : '';
+  const sirenRef = siren ?? siret?.slice(0, 9);
+  const vatSiren = /^FR[0-9A-Z]{2}(\d{9})$/.exec(vat)?.[1];
+  if (sirenRef && vatSiren && vatSiren !== sirenRef)
+    report.error(`${path}.vatNumber`, `${vatBt} : Numéro de TVA ${label} (${vat}) incohérent avec son SIREN ${sirenRef} — attendu FR${frenchVatKey(sirenRef)}${sirenRef}`);
+}
+
+/**
+ * Numéro de TVA : format et clé de contrôle pour les États membres de l'UE.
+ * Le préfixe pays (BR-CO-9) est contrôlé par le moteur de règles ; les numéros hors UE (GB, CH, NO…) ne le sont pas.
+ */
+function validateVatNumber(value: string, ref: string, path: string, report: Reporter): void {
+  const raw = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}/.test(raw)) return;
+  if (raw.startsWith('GR'))
+    report.warn(path, `${ref} : Préfixe EL attendu pour la Grèce (BR-CO-9), et non GR`);
+  if (!isEuVatNumber(raw)) return;
+  const check = checkVatNumber(raw);
+  if (!check.valid) report.error(path, `${ref} : Numéro ${value} invalide — ${check.error}`);
+}
+
+// Taux imposé par la catégorie (BR-S-06, BR-Z-06…) : moteur de règles
+function validateDocumentAllowanceCharge(
+  ac: AllowanceCharge,
+  ref: string,
+  path: string,
+  categoryBt: string,
+  report: Reporter,
+): void {
+  validateAllowanceCharge(ac, ref, path, report);
+  if (ac.vatCategory && !VAT_CATEGORY_CODES.has(ac.vatCategory))
+    report.error(`${path}.vatCategory`, `${ref} : Code catégorie TVA invalide (${categoryBt})`);
+  if (typeof ac.vatRate !== 'number' || ac.vatRate < 0 || isNaN(ac.vatRate))
+    report.error(`${path}.vatRate`, `${ref} : Taux TVA invalide — doit être >= 0`);
+}
+
+// Texte d'un constat : message précédé de l'identifiant de la règle EN 16931
+function findingText(finding: ValidationFinding): string {
+  return finding.rule ? `${finding.rule} : ${finding.message}` : finding.message;
+}
+
+/** Résultat de validation à partir des constats : invalide dès qu'un constat est bloquant. */
+export function toValidationResult(findings: ValidationFinding[]): ValidationResult {
+  const errors = findings.filter(f => f.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors: errors.map(findingText),
+    warnings: findings.filter(f => f.severity === 'warning').map(findingText),
+    findings,
+  };
+}
+
+function isNum(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Le générateur émet quantités et prix avec 4 décimales au plus
+const MAX_DECIMALS = 4;
+
+/**
+ * Valide une facture : contrôles de format propres à l'outil, puis règles métier EN 16931 (voir rules.ts).
+ * Chaque constat est restitué avec sa règle, sa sévérité et le chemin de l'élément fautif.
+ */
 export function validateInvoice(invoice: Invoice): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+  const findings: ValidationFinding[] = [];
+  const report: Reporter = {
+    error: (path, message) => { findings.push({ severity: 'error', path, message }); },
+    warn:  (path, message) => { findings.push({ severity: 'warning', path, message }); },
+  };
 
   // ── En-tête ───────────────────────────────────────────────────────────
-  if (!invoice.number?.trim())
-    errors.push('BT-1 : Numéro de facture requis');
-  if (!invoice.date?.match(DATE_RE))
-    errors.push('BT-2 : Date de facture invalide (format attendu : YYYY-MM-DD)');
-  if (!INVOICE_TYPE_CODES.has(invoice.typeCode))
-    errors.push(`BT-3 : Code type facture invalide (valeurs : 380, 381, 389, 384)`);
-  if (!invoice.currency?.match(CURRENCY_RE))
-    errors.push('BT-5 : Code devise invalide (format ISO 4217, ex: EUR)');
+  // Présence des champs obligatoires (BR-02 à BR-05…) : moteur de règles
+  if (invoice.date && !invoice.date.match(DATE_RE))
+    report.error('date', 'BT-2 : Date de facture invalide (format attendu : YYYY-MM-DD)');
+  if (invoice.typeCode && !INVOICE_TYPE_CODES.has(invoice.typeCode))
+    report.error('typeCode', `BT-3 : Code type facture invalide (valeurs : 380, 381, 389, 384)`);
+  if (invoice.currency && !invoice.currency.match(CURRENCY_RE))
+    report.error('currency', 'BT-5 : Code devise invalide (format ISO 4217, ex: EUR)');
   if (!invoice.profile)
-    errors.push('Profil Factur-X requis (MINIMUM, BASIC, EN_16931, EXTENDED)');
+    report.error('profile', `Profil Factur-X requis (${PROFILES.join(', ')})`);
+  else if (!PROFILES.includes(invoice.profile))
+    report.error('profile', `Profil Factur-X inconnu : ${invoice.profile} (valeurs : ${PROFILES.join(', ')})`);
+
+  // MINIMUM n'émet ni adresse complète ni adresse acheteur : ces champs n'y sont pas obligatoires
+  const fullAddresses = profileAllows(invoice.profile, 'BASIC_WL');
 
   if (invoice.dueDate && !invoice.dueDate.match(DATE_RE))
-    errors.push('BT-9 : Date d\'échéance invalide (format attendu : YYYY-MM-DD)');
+    report.error('dueDate', 'BT-9 : Date d\'échéance invalide (format attendu : YYYY-MM-DD)');
   if (invoice.deliveryDate && !invoice.deliveryDate.match(DATE_RE))
-    errors.push('Date de livraison invalide (format attendu : YYYY-MM-DD)');
+    report.error('deliveryDate', 'Date de livraison invalide (format attendu : YYYY-MM-DD)');
+
+  const period = invoice.billingPeriod;
+  if (period) validateBillingPeriod(period, 'BG-14 Période de facturation', 'billingPeriod', ['BT-73', 'BT-74'], report);
+
+  // ── Factures antérieures (avoirs) ─────────────────────────────────────
+  (invoice.precedingInvoices ?? []).forEach((ref, i) => {
+    if (ref.issueDate && !ref.issueDate.match(DATE_RE))
+      report.error(`precedingInvoices[${i}].issueDate`, `BT-26 : Date de la facture antérieure ${i + 1} invalide (format attendu : YYYY-MM-DD)`);
+  });
+  if (invoice.typeCode === '381' && !invoice.precedingInvoices?.length)
+    report.warn('precedingInvoices', 'BG-3 : Avoir sans référence à la facture d\'origine — requis par Chorus Pro et la plupart des acheteurs');
+  if ((invoice.precedingInvoices?.length ?? 0) > 1 && invoice.profile !== 'EXTENDED')
+    report.warn('precedingInvoices', 'BG-3 : Plusieurs factures antérieures référencées — seul le profil EXTENDED en autorise plus d\'une');
+
+  // ── Notes et mentions légales ─────────────────────────────────────────
+  normalizeNotes(invoice.notes).forEach((note, i) => {
+    if (!note.content?.trim())
+      report.error(`notes[${i}].content`, `Note ${i + 1} : Contenu requis (BT-22)`);
+    if (note.subjectCode && !/^[A-Z]{3}$/.test(note.subjectCode))
+      report.error(`notes[${i}].subjectCode`, `Note ${i + 1} : Code sujet "${note.subjectCode}" invalide (BT-21, UNTDID 4451 — ex: PMD, PMT, AAB, REG)`);
+  });
+  if (fullAddresses && isFrenchB2B(invoice)) {
+    const missing = getMissingLegalMentions(invoice);
+    if (missing.length) {
+      const labels = FRENCH_LEGAL_MENTIONS.filter(m => missing.includes(m.subjectCode)).map(m => `${m.label} (${m.subjectCode})`);
+      report.warn('notes', `Mentions obligatoires B2B absentes (art. L441-9 du Code de commerce) : ${labels.join(', ')}`);
+    }
+  }
+
+  // ── Justificatifs ─────────────────────────────────────────────────────
+  const documentIds = new Set<string>();
+  (invoice.supportingDocuments ?? []).forEach((doc, i) => {
+    const ref = `Justificatif ${i + 1}`;
+    const path = `supportingDocuments[${i}]`;
+    if (doc.id?.trim() && documentIds.has(doc.id))
+      report.warn(`${path}.id`, `${ref} : Référence "${doc.id}" utilisée par plusieurs justificatifs`);
+    documentIds.add(doc.id);
+    if (!doc.uri && !doc.attachment)
+      report.warn(path, `${ref} : Ni URI (BT-124) ni document embarqué (BT-125) — seule la référence sera transmise`);
+
+    const file = doc.attachment;
+    if (!file) return;
+    if (!ATTACHMENT_MIME_CODES.has(file.mimeCode))
+      report.error(`${path}.attachment.mimeCode`, `${ref} : Type MIME "${file.mimeCode}" non autorisé (PDF, PNG, JPEG, CSV, XLSX, ODS)`);
+    if (!file.filename?.trim())
+      report.error(`${path}.attachment.filename`, `${ref} : Nom de fichier du document embarqué requis`);
+    const content = file.content?.replace(/\s+/g, '') ?? '';
+    if (!content || content.length % 4 !== 0 || !BASE64_RE.test(content))
+      report.error(`${path}.attachment.content`, `${ref} : Contenu embarqué invalide (Base64 attendu)`);
+  });
 
   // ── Vendeur ───────────────────────────────────────────────────────────
-  if (!invoice.seller?.name?.trim())
-    errors.push('BT-27 : Nom du vendeur requis');
-  if (!invoice.seller?.address?.street?.trim())
-    errors.push('BT-35 : Adresse (rue) du vendeur requise');
-  if (!invoice.seller?.address?.city?.trim())
-    errors.push('BT-37 : Ville du vendeur requise');
-  if (!invoice.seller?.address?.postalCode?.trim())
-    errors.push('BT-38 : Code postal du vendeur requis');
-  if (!invoice.seller?.address?.countryCode?.match(COUNTRY_RE))
-    errors.push('BT-40 : Code pays vendeur invalide (format ISO 3166-1 alpha-2, ex: FR)');
-  if (!invoice.seller?.vatNumber && !invoice.seller?.id)
-    warnings.push('BT-31/BT-29 : Numéro de TVA ou identifiant vendeur recommandé pour le profil EN 16931');
+  if (fullAddresses && invoice.seller?.address && !invoice.seller.address.street?.trim())
+    report.error('seller.address.street', 'BT-35 : Adresse (rue) du vendeur requise');
+  if (fullAddresses && invoice.seller?.address && !invoice.seller.address.city?.trim())
+    report.error('seller.address.city', 'BT-37 : Ville du vendeur requise');
+  if (fullAddresses && invoice.seller?.address && !invoice.seller.address.postalCode?.trim())
+    report.error('seller.address.postalCode', 'BT-38 : Code postal du vendeur requis');
+  if (invoice.seller?.address?.countryCode && !invoice.seller.address.countryCode.match(COUNTRY_RE))
+    report.error('seller.address.countryCode', 'BT-40 : Code pays vendeur invalide (format ISO 3166-1 alpha-2, ex: FR)');
+  if (!fullAddresses) {
+    if (!invoice.seller?.vatNumber && !invoice.seller?.legalId)
+      report.error('seller.legalId', 'BT-30/BT-31 : Identifiant légal ou numéro de TVA du vendeur requis pour le profil MINIMUM');
+  } else if (profileAllows(invoice.profile, 'EN_16931') && !invoice.seller?.vatNumber && !invoice.seller?.id) {
+    report.warn('seller.vatNumber', 'BT-31/BT-29 : Numéro de TVA ou identifiant vendeur recommandé pour le profil EN 16931');
+  }
 
   // ── Acheteur ──────────────────────────────────────────────────────────
-  if (!invoice.buyer?.name?.trim())
-    errors.push('BT-44 : Nom de l\'acheteur requis');
-  if (!invoice.buyer?.address?.countryCode?.match(COUNTRY_RE))
-    errors.push('BT-57 : Code pays acheteur invalide (format ISO 3166-1 alpha-2, ex: FR)');
+  if (invoice.buyer?.address?.countryCode && !invoice.buyer.address.countryCode.match(COUNTRY_RE))
+    report.error('buyer.address.countryCode', 'BT-55 : Code pays acheteur invalide (format ISO 3166-1 alpha-2, ex: FR)');
+
+  // ── Numéros de TVA, SIREN / SIRET ─────────────────────────────────────
+  if (invoice.seller?.vatNumber)
+    validateVatNumber(invoice.seller.vatNumber, 'BT-31 : TVA vendeur', 'seller.vatNumber', report);
+  if (invoice.buyer?.vatNumber)
+    validateVatNumber(invoice.buyer.vatNumber, 'BT-48 : TVA acheteur', 'buyer.vatNumber', report);
+  if (invoice.sellerTaxRepresentative?.vatNumber)
+    validateVatNumber(invoice.sellerTaxRepresentative.vatNumber, 'BT-63 : TVA représentant fiscal', 'sellerTaxRepresentative.vatNumber', report);
+  if (invoice.seller) validateFrenchIdentifiers(invoice.seller, 'du vendeur', 'seller', ['BT-29', 'BT-30', 'BT-31'], report);
+  if (invoice.buyer)  validateFrenchIdentifiers(invoice.buyer, 'de l\'acheteur', 'buyer', ['BT-46', 'BT-47', 'BT-48'], report);
+
+  // ── Adresses électroniques ────────────────────────────────────────────
+  // Schéma requis (BR-62, BR-63) : moteur de règles
+  for (const [role, label, bt] of [['seller', 'du vendeur', 'BT-34-1'], ['buyer', 'de l\'acheteur', 'BT-49-1']] as const) {
+    const scheme = invoice[role]?.electronicAddressScheme;
+    if (scheme && !EAS_CODES.has(scheme))
+      report.error(`${role}.electronicAddressScheme`, `${bt} : Schéma d'adresse électronique ${label} "${scheme}" inconnu (liste EAS, ex: 0009 SIRET, 0088 GLN, 0204 Leitweg-ID, EM email)`);
+  }
+
+  // ── Bénéficiaire, représentant fiscal, livraison ──────────────────────
+  // Champs obligatoires (BR-17 à BR-20, BR-56, BR-57) : moteur de règles
+  if (invoice.payee?.name?.trim() && invoice.payee.name.trim() === invoice.seller?.name?.trim())
+    report.warn('payee', 'BG-10 : Bénéficiaire identique au vendeur — à n\'indiquer que s\'il est différent');
+  const repCountry = invoice.sellerTaxRepresentative?.address?.countryCode;
+  if (repCountry && !repCountry.match(COUNTRY_RE))
+    report.error('sellerTaxRepresentative.address.countryCode', 'BT-69 : Code pays du représentant fiscal invalide (format ISO 3166-1 alpha-2)');
+  if (invoice.shipTo) {
+    const { name, locationId, address } = invoice.shipTo;
+    if (!name?.trim() && !locationId?.trim() && !address)
+      report.warn('shipTo', 'BG-13 : Livraison sans nom, identifiant ni adresse — ignorée');
+    if (address?.countryCode && !address.countryCode.match(COUNTRY_RE))
+      report.error('shipTo.address.countryCode', 'BT-80 : Code pays de livraison invalide (format ISO 3166-1 alpha-2)');
+  }
 
   // ── Lignes ────────────────────────────────────────────────────────────
-  if (!invoice.lines?.length) {
-    errors.push('Au moins une ligne de facture est requise');
-  } else {
-    const lineIds = new Set<string>();
-    for (let i = 0; i < invoice.lines.length; i++) {
-      const line = invoice.lines[i];
-      const ref = `Ligne ${line.id || i + 1}`;
-
-      if (lineIds.has(line.id))
-        errors.push(`${ref} : Identifiant de ligne dupliqué (BT-126)`);
-      lineIds.add(line.id);
-
-      if (!line.description?.trim())
-        errors.push(`${ref} : Désignation requise (BT-153)`);
-      if (typeof line.quantity !== 'number' || isNaN(line.quantity))
-        errors.push(`${ref} : Quantité invalide (BT-129)`);
-      if (!line.unitCode?.trim())
-        errors.push(`${ref} : Code unité requis (BT-130) — ex: C62 (pièce), HUR (heure)`);
-      if (typeof line.unitPrice !== 'number' || isNaN(line.unitPrice))
-        errors.push(`${ref} : Prix unitaire invalide (BT-146)`);
-      if (typeof line.totalAmount !== 'number' || isNaN(line.totalAmount))
-        errors.push(`${ref} : Montant total ligne invalide (BT-131)`);
-      if (typeof line.vatRate !== 'number' || line.vatRate < 0 || isNaN(line.vatRate))
-        errors.push(`${ref} : Taux TVA invalide (BT-152) — doit être >= 0`);
-      if (!VAT_CATEGORY_CODES.has(line.vatCategory))
-        errors.push(`${ref} : Code catégorie TVA invalide (BT-151) — valeurs: S, Z, E, K, G, O`);
-
-      // Cohérence montant ligne
-      const expected = Math.round(line.quantity * line.unitPrice * 100) / 100;
-      const actual = Math.round(line.totalAmount * 100) / 100;
-      if (Math.abs(expected - actual) > 0.02) {
-        warnings.push(
-          `${ref} : Montant total (${actual}) ≠ quantité × prix unitaire (${expected}) — écart de ${Math.abs(expected - actual).toFixed(2)} €`
+  // Champs obligatoires (BR-21 à BR-26) et taux par catégorie (BR-S-05…) : moteur de règles
+  const lineIds = new Set<string>();
+  (invoice.lines ?? []).forEach((line, i) => {
+    const ref = `Ligne ${line.id || i + 1}`;
+    const path = `lines[${i}]`;
+
+    if (line.id && lineIds.has(line.id))
+      report.error(`${path}.id`, `${ref} : Identifiant de ligne dupliqué (BT-126)`);
+    lineIds.add(line.id);
+
+    if (typeof line.vatRate !== 'number' || line.vatRate < 0 || isNaN(line.vatRate))
+      report.error(`${path}.vatRate`, `${ref} : Taux TVA invalide (BT-152) — doit être >= 0`);
+    if (line.vatCategory && !VAT_CATEGORY_CODES.has(line.vatCategory))
+      report.error(`${path}.vatCategory`, `${ref} : Code catégorie TVA invalide (BT-151) — valeurs: S, Z, E, AE, K, G, O`);
+
+    // Période de la ligne, incluse dans celle de la facture
+    if (line.billingPeriod) {
+      validateBillingPeriod(line.billingPeriod, `${ref} : BG-26 Période`, `${path}.billingPeriod`, ['BT-134', 'BT-135'], report);
+      const { startDate, endDate } = line.billingPeriod;
+      if (period?.startDate && startDate && startDate < period.startDate)
+        report.error(`${path}.billingPeriod.startDate`, `${ref} : Période commençant le ${startDate}, avant la période de facturation (${period.startDate})`);
+      if (period?.endDate && endDate && endDate > period.endDate)
+        report.error(`${path}.billingPeriod.endDate`, `${ref} : Période se terminant le ${endDate}, après la période de facturation (${period.endDate})`);
+    }
+
+    if (line.priceBaseQuantity !== undefined && !(line.priceBaseQuantity > 0))
+      report.error(`${path}.priceBaseQuantity`, `${ref} : Quantité de base du prix invalide (BT-149) — doit être > 0`);
+    if (line.grossPrice !== undefined) {
+      if (!isNum(line.grossPrice)) {
+        report.error(`${path}.grossPrice`, `${ref} : Prix brut invalide (BT-148)`);
+      } else if (line.grossPrice >= 0 && isNum(line.unitPrice)) {
+        const expectedNet = Decimal.from(line.grossPrice).minus(line.priceDiscount ?? 0);
+        if (!expectedNet.equals(line.unitPrice))
+          report.error(`${path}.unitPrice`, `${ref} : Prix net (${line.unitPrice}) ≠ prix brut − remise unitaire (${expectedNet}) (BT-146)`);
+      }
+    } else if (line.priceDiscount) {
+      report.error(`${path}.priceDiscount`, `${ref} : Remise unitaire (BT-147) sans prix brut (BT-148)`);
+    }
+
+    (line.allowances ?? []).forEach((a, j) =>
+      validateAllowanceCharge(a, `${ref}, remise ${j + 1}`, `${path}.allowances[${j}]`, report));
+    (line.charges ?? []).forEach((c, j) =>
+      validateAllowanceCharge(c, `${ref}, charge ${j + 1}`, `${path}.charges[${j}]`, report));
+
+    if (isNum(line.quantity) && Decimal.from(line.quantity).decimalPlaces() > MAX_DECIMALS)
+      report.warn(`${path}.quantity`, `${ref} : Quantité avec plus de ${MAX_DECIMALS} décimales — arrondie à l'émission (BT-129)`);
+    if (isNum(line.unitPrice) && Decimal.from(line.unitPrice).decimalPlaces() > MAX_DECIMALS)
+      report.warn(`${path}.unitPrice`, `${ref} : Prix unitaire avec plus de ${MAX_DECIMALS} décimales — arrondi à l'émission (BT-146)`);
+
+    // Cohérence montant ligne : quantité × prix net / quantité de base − remises + charges
+    const amountsValid =
+      isNum(line.quantity) && isNum(line.unitPrice) && isNum(line.totalAmount) &&
+      (line.priceBaseQuantity === undefined || line.priceBaseQuantity > 0) &&
+      [...(line.allowances ?? []), ...(line.charges ?? [])].every(ac =>
+        isNum(ac.amount) || (isNum(ac.baseAmount) && isNum(ac.percentage)));
+    if (amountsValid) {
+      const expected = computeLineNetAmount(line);
+      const actual = money(line.totalAmount);
+      if (!expected.equals(actual)) {
+        report.warn(`${path}.totalAmount`,
+          `${ref} : Montant total (${actual}) ≠ quantité × prix net − remises + charges (${expected}) — écart de ${expected.minus(actual).abs().toFixed(2)} ${invoice.currency}`
         );
       }
     }
+  });
+
+  // ── Remises et charges globales ───────────────────────────────────────
+  (invoice.allowances ?? []).forEach((a, i) =>
+    validateDocumentAllowanceCharge(a, `Remise ${i + 1}`, `allowances[${i}]`, 'BT-95', report));
+  (invoice.charges ?? []).forEach((c, i) =>
+    validateDocumentAllowanceCharge(c, `Charge ${i + 1}`, `charges[${i}]`, 'BT-102', report));
+
+  // ── Exonérations ──────────────────────────────────────────────────────
+  // Motif requis ou interdit selon la catégorie (BR-E-10, BR-S-10…) : moteur de règles
+  const categories = new Set<string>([
+    ...(invoice.lines ?? []).map(l => l.vatCategory),
+    ...(invoice.allowances ?? []).map(a => a.vatCategory),
+    ...(invoice.charges ?? []).map(c => c.vatCategory),
+  ]);
+  (invoice.vatExemptions ?? []).forEach((exemption, i) => {
+    if (!categories.has(exemption.categoryCode))
+      report.warn(`vatExemptions[${i}]`, `BT-120/BT-121 : Motif d'exonération pour la catégorie ${exemption.categoryCode}, absente de la facture`);
+  });
+
+  // ── Devise de comptabilisation de la TVA (BT-6) ──────────────────────
+  if (invoice.taxCurrency !== undefined) {
+    if (!invoice.taxCurrency.match(CURRENCY_RE))
+      report.error('taxCurrency', 'BT-6 : Code devise de comptabilisation TVA invalide (format ISO 4217, ex: EUR)');
+    else if (invoice.taxCurrency === invoice.currency)
+      report.warn('taxCurrency', 'BT-6 : Devise de comptabilisation TVA identique à la devise de facture — ignorée');
+  }
+  if (invoice.exchangeRate !== undefined && !(invoice.exchangeRate > 0))
+    report.error('exchangeRate', 'BT-6 : Taux de change invalide — doit être > 0');
+  // BT-6 n'est émis qu'à partir de BASIC WL : simple avertissement, la TVA en euros
+  // peut aussi figurer dans une mention
+  if (invoice.currency && invoice.currency !== 'EUR' && invoice.currency.match(CURRENCY_RE) &&
+      profileAllows(invoice.profile, 'BASIC_WL')) {
+    if (invoice.seller?.address?.countryCode === 'FR' && invoice.taxCurrency !== 'EUR')
+      report.warn('taxCurrency', `BT-6 : Facture en ${invoice.currency} d'un vendeur français — la TVA devrait aussi être exprimée en EUR (taxCurrency: "EUR")`);
+  }
+
+  // ── Acomptes et arrondi ───────────────────────────────────────────────
+  if (invoice.prepaidAmount !== undefined && (typeof invoice.prepaidAmount !== 'number' || isNaN(invoice.prepaidAmount)))
+    report.error('prepaidAmount', 'BT-113 : Montant déjà payé invalide');
+  if (invoice.roundingAmount !== undefined) {
+    if (typeof invoice.roundingAmount !== 'number' || isNaN(invoice.roundingAmount))
+      report.error('roundingAmount', 'BT-114 : Montant d\'arrondi invalide');
+    else if (Math.abs(invoice.roundingAmount) >= 1)
+      report.warn('roundingAmount', `BT-114 : Montant d'arrondi inhabituel (${invoice.roundingAmount}) — doit normalement rester inférieur à 1`);
   }
 
   // ── Paiement ──────────────────────────────────────────────────────────
   if (invoice.payment?.iban) {
     const iban = invoice.payment.iban.replace(/\s/g, '');
     if (!/^[A-Z]{2}\d{2}[A-Z0-9]{4,30}$/.test(iban))
-      warnings.push('BT-84 : Format IBAN potentiellement invalide');
+      report.warn('payment.iban', 'BT-84 : Format IBAN potentiellement invalide');
+  }
+
+  // ── Règles métier EN 16931 ────────────────────────────────────────────
+  findings.push(...runBusinessRules(invoice));
+
+  // Cohérence du total TVA fourni avec celui déduit du taux de change (BT-111) :
+  // contrôlée dès que les montants nécessaires au calcul de la TVA sont exploitables
+  const acAmountValid = (ac: AllowanceCharge) =>
+    isNum(ac.vatRate) && (isNum(ac.amount) || (isNum(ac.baseAmount) && isNum(ac.percentage)));
+  const taxInputsValid =
+    Array.isArray(invoice.lines) &&
+    invoice.lines.every(line => isNum(line?.totalAmount) && isNum(line.vatRate)) &&
+    (invoice.allowances ?? []).every(acAmountValid) &&
+    (invoice.charges ?? []).every(acAmountValid);
+  if (taxInputsValid && invoice.taxCurrency && invoice.taxCurrency !== invoice.currency &&
+      isNum(invoice.taxTotalInTaxCurrency) && isNum(invoice.exchangeRate) && invoice.exchangeRate > 0) {
+    const { taxTotalAmount } = calculateTotals({
+      ...invoice,
+      taxTotalInTaxCurrency: undefined,
+      prepaidAmount:         undefined,
+      roundingAmount:        undefined,
+    });
+    const expected = money(Decimal.from(taxTotalAmount).times(invoice.exchangeRate));
+    if (expected.minus(invoice.taxTotalInTaxCurrency).abs().compare(0.01) > 0)
+      report.error('taxTotalInTaxCurrency',
+        `BT-111 : Total TVA en ${invoice.taxCurrency} (${invoice.taxTotalInTaxCurrency}) incohérent avec ` +
+        `${taxTotalAmount} ${invoice.currency} × ${invoice.exchangeRate} = ${expected}`
+      );
   }
 
-  return { valid: errors.length === 0, errors, warnings };
+  return toValidationResult(findings);
 }
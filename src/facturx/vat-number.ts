@@ -0,0 +1,302 @@
+import { frenchVatKey, luhn } from './identifiers.js';
+
+/**
+ * Validation hors ligne des numéros de TVA intracommunautaires :
+ * format propre à chaque État membre et clé de contrôle lorsque l'algorithme est public.
+ * Ne vérifie pas l'existence du numéro (VIES) — aucun appel réseau.
+ */
+export interface VatNumberCheck {
+  normalized: string;      // Numéro sans espaces ni séparateurs, préfixe en majuscules (ex: "FR44732829320")
+  countryCode: string;     // Préfixe TVA : code ISO, sauf "EL" pour la Grèce
+  country?: string;        // Nom de l'État membre
+  formatValid: boolean;
+  checksumValid?: boolean; // undefined si le format n'a pas de clé vérifiable
+  valid: boolean;
+  error?: string;
+}
+
+interface VatRule {
+  country: string;
+  pattern: RegExp;                             // Partie après le préfixe pays
+  checksum?: (body: string) => boolean | undefined;
+}
+
+// ── Algorithmes de clé ─────────────────────────────────────────────────────
+
+const digitsOf = (s: string) => [...s].map(Number);
+
+// Somme pondérée des chiffres de `s` (poids appliqués depuis la gauche)
+function weighted(s: string, weights: number[]): number {
+  return weights.reduce((sum, w, i) => sum + w * Number(s[i]), 0);
+}
+
+// ISO 7064 MOD 11,10 (DE, HR)
+function mod11_10(s: string): boolean {
+  let product = 10;
+  for (const d of digitsOf(s.slice(0, -1))) {
+    let sum = (d + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === Number(s[s.length - 1]);
+}
+
+// Reste modulo 97 d'un grand nombre écrit en base 10
+function mod97(s: string): number {
+  return [...s].reduce((r, c) => (r * 10 + Number(c)) % 97, 0);
+}
+
+function checkAT(body: string): boolean {
+  const digits = body.slice(1);
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    const p = Number(digits[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += p > 9 ? Math.floor(p / 10) + (p % 10) : p;
+  }
+  return (10 - ((sum + 4) % 10)) % 10 === Number(digits[7]);
+}
+
+function checkBE(body: string): boolean {
+  const n = body.length === 9 ? `0${body}` : body;
+  return 97 - (Number(n.slice(0, 8)) % 97) === Number(n.slice(8));
+}
+
+function checkBG(body: string): boolean {
+  if (body.length === 9) {
+    let r = weighted(body, [1, 2, 3, 4, 5, 6, 7, 8]) % 11;
+    if (r === 10) r = weighted(body, [3, 4, 5, 6, 7, 8, 9, 10]) % 11 % 10;
+    return r === Number(body[8]);
+  }
+  const last = Number(body[9]);
+  // Personne physique (EGN)
+  if (weighted(body, [2, 4, 8, 5, 10, 9, 7, 3, 6]) % 11 % 10 === last) return true;
+  // Étranger
+  if (weighted(body, [21, 19, 17, 13, 11, 9, 7, 3, 1]) % 10 === last) return true;
+  // Autres
+  const r = 11 - (weighted(body, [4, 3, 2, 7, 6, 5, 4, 3, 2]) % 11);
+  return r !== 10 && r % 11 === last;
+}
+
+function checkCY(body: string): boolean {
+  const odd = [1, 0, 5, 7, 9, 13, 15, 17, 19, 21];
+  let sum = 0;
+  for (let i = 0; i < 8; i++) sum += i % 2 === 0 ? odd[Number(body[i])] : Number(body[i]);
+  return String.fromCharCode(65 + (sum % 26)) === body[8];
+}
+
+function checkCZ(body: string): boolean | undefined {
+  if (body.length !== 8) return undefined; // Personnes physiques (numéro de naissance) : pas de clé simple
+  const r = 11 - (weighted(body, [8, 7, 6, 5, 4, 3, 2]) % 11);
+  return (r === 10 ? 0 : r === 11 ? 1 : r) === Number(body[7]);
+}
+
+function checkDK(body: string): boolean {
+  return weighted(body, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0;
+}
+
+function checkEE(body: string): boolean {
+  return (10 - (weighted(body, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === Number(body[8]);
+}
+
+function checkEL(body: string): boolean {
+  return weighted(body, [256, 128, 64, 32, 16, 8, 4, 2]) % 11 % 10 === Number(body[8]);
+}
+
+function checkES(body: string): boolean {
+  const first = body[0];
+  const last = body[8];
+  const dniLetters = 'TRWAGMYFPDXBNJZSQVHLCKE';
+  // NIF de personne physique : 8 chiffres + lettre, NIE (X/Y/Z)
+  if (/^\d/.test(first) || /^[XYZ]/.test(first)) {
+    const n = /^\d/.test(first) ? body.slice(0, 8) : 'XYZ'.indexOf(first) + body.slice(1, 8);
+    return dniLetters[Number(n) % 23] === last;
+  }
+  // NIF spéciaux K, L, M : 7 chiffres + lettre
+  if (/^[KLM]/.test(first)) {
+    return dniLetters[Number(body.slice(1, 8)) % 23] === last;
+  }
+  // Personne morale (CIF) : lettre + 7 chiffres + chiffre ou lettre de contrôle
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    const d = Number(body[i + 1]);
+    sum += i % 2 === 0 ? Math.floor((d * 2) / 10) + ((d * 2) % 10) : d;
+  }
+  // Contrôle en lettre pour les entités N, P, Q, R, S, W ; chiffre ou lettre pour les autres
+  const check = (10 - (sum % 10)) % 10;
+  const letter = 'JABCDEFGHI'[check];
+  return 'NPQRSW'.includes(first) ? last === letter : last === String(check) || last === letter;
+}
+
+function checkFI(body: string): boolean {
+  const r = weighted(body, [7, 9, 10, 5, 8, 4, 2]) % 11;
+  if (r === 1) return false;
+  return (r === 0 ? 0 : 11 - r) === Number(body[7]);
+}
+
+function checkFR(body: string): boolean | undefined {
+  const key = body.slice(0, 2);
+  // Clés alphanumériques (anciens numéros) : algorithme non public
+  if (!/^\d{2}$/.test(key)) return undefined;
+  return key === frenchVatKey(body.slice(2));
+}
+
+function checkHU(body: string): boolean {
+  return (10 - (weighted(body, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 === Number(body[7]);
+}
+
+function checkIE(body: string): boolean {
+  // Ancien format (1 chiffre, 1 lettre ou + ou *, 5 chiffres, 1 lettre) converti au nouveau
+  const n = /^\d[A-Z+*]/.test(body) ? `0${body.slice(2, 7)}${body[0]}${body[7]}` : body;
+  let sum = weighted(n, [8, 7, 6, 5, 4, 3, 2]);
+  if (n.length === 9 && n[8] !== 'W') sum += 9 * (n.charCodeAt(8) - 64);
+  return 'WABCDEFGHIJKLMNOPQRSTUV'[sum % 23] === n[7];
+}
+
+function checkIT(body: string): boolean {
+  // Code du bureau des impôts (chiffres 8 à 10) : 001–201, 888 ou 999
+  const office = Number(body.slice(7, 10));
+  if (body.startsWith('0000000') || !((office >= 1 && office <= 201) || office === 888 || office === 999)) {
+    return false;
+  }
+  return luhn(body);
+}
+
+function checkLT(body: string): boolean {
+  const len = body.length - 1;
+  const w1 = Array.from({ length: len }, (_, i) => (i % 9) + 1);
+  let r = weighted(body, w1) % 11;
+  if (r === 10) {
+    const w2 = Array.from({ length: len }, (_, i) => ((i + 2) % 9) + 1);
+    r = weighted(body, w2) % 11 % 10;
+  }
+  return r === Number(body[len]);
+}
+
+function checkLU(body: string): boolean {
+  return Number(body.slice(0, 6)) % 89 === Number(body.slice(6));
+}
+
+function checkLV(body: string): boolean | undefined {
+  if (Number(body[0]) <= 3) return undefined; // Personne physique : code personnel
+  const sum = weighted(body, [9, 1, 4, 8, 3, 10, 2, 5, 7, 6]);
+  let r = 3 - (sum % 11);
+  if (r < -1) r += 11;
+  return r !== -1 && r === Number(body[10]);
+}
+
+function checkMT(body: string): boolean {
+  return 37 - (weighted(body, [3, 4, 6, 7, 8, 9]) % 37) === Number(body.slice(6));
+}
+
+function checkNL(body: string): boolean {
+  // Numéro d'entreprise : modulo 11 sur les 9 chiffres
+  const digits = body.slice(0, 9);
+  const r = weighted(digits, [9, 8, 7, 6, 5, 4, 3, 2]) % 11;
+  if (r !== 10 && r === Number(digits[8])) return true;
+  // Entreprise individuelle (depuis 2020) : modulo 97 sur "NL" + numéro, lettres converties
+  const numeric = `NL${body}`.replace(/[A-Z]/g, c => String(c.charCodeAt(0) - 55));
+  return mod97(numeric) === 1;
+}
+
+function checkPL(body: string): boolean {
+  const r = weighted(body, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+  return r !== 10 && r === Number(body[9]);
+}
+
+function checkPT(body: string): boolean {
+  const r = 11 - (weighted(body, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+  return (r >= 10 ? 0 : r) === Number(body[8]);
+}
+
+function checkRO(body: string): boolean {
+  const n = body.padStart(10, '0');
+  return (weighted(n, [7, 5, 3, 2, 1, 7, 5, 3, 2]) * 10) % 11 % 10 === Number(n[9]);
+}
+
+function checkSE(body: string): boolean {
+  return luhn(body.slice(0, 10));
+}
+
+function checkSI(body: string): boolean {
+  const r = 11 - (weighted(body, [8, 7, 6, 5, 4, 3, 2]) % 11);
+  if (r === 11) return false;
+  return (r === 10 ? 0 : r) === Number(body[7]);
+}
+
+function checkSK(body: string): boolean {
+  return BigInt(body) % 11n === 0n;
+}
+
+// ── Règles par État membre ─────────────────────────────────────────────────
+
+const VAT_RULES: Record<string, VatRule> = {
+  AT: { country: 'Autriche',        pattern: /^U\d{8}$/,                      checksum: checkAT },
+  BE: { country: 'Belgique',        pattern: /^[01]?\d{9}$/,                  checksum: checkBE },
+  BG: { country: 'Bulgarie',        pattern: /^\d{9,10}$/,                    checksum: checkBG },
+  CY: { country: 'Chypre',          pattern: /^(?!12)[013-59]\d{7}[A-Z]$/,    checksum: checkCY },
+  CZ: { country: 'Tchéquie',        pattern: /^\d{8,10}$/,                    checksum: checkCZ },
+  DE: { country: 'Allemagne',       pattern: /^[1-9]\d{8}$/,                  checksum: mod11_10 },
+  DK: { country: 'Danemark',        pattern: /^[1-9]\d{7}$/,                  checksum: checkDK },
+  EE: { country: 'Estonie',         pattern: /^10\d{7}$/,                     checksum: checkEE },
+  EL: { country: 'Grèce',           pattern: /^\d{9}$/,                       checksum: checkEL },
+  ES: { country: 'Espagne',         pattern: /^[0-9A-Z]\d{7}[0-9A-Z]$/,       checksum: checkES },
+  FI: { country: 'Finlande',        pattern: /^\d{8}$/,                       checksum: checkFI },
+  FR: { country: 'France',          pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,      checksum: checkFR },
+  HR: { country: 'Croatie',         pattern: /^\d{11}$/,                      checksum: mod11_10 },
+  HU: { country: 'Hongrie',         pattern: /^\d{8}$/,                       checksum: checkHU },
+  IE: { country: 'Irlande',         pattern: /^(\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/, checksum: checkIE },
+  IT: { country: 'Italie',          pattern: /^\d{11}$/,                      checksum: checkIT },
+  LT: { country: 'Lituanie',        pattern: /^(\d{7}1\d|\d{10}1\d)$/,        checksum: checkLT },
+  LU: { country: 'Luxembourg',      pattern: /^\d{8}$/,                       checksum: checkLU },
+  LV: { country: 'Lettonie',        pattern: /^\d{11}$/,                      checksum: checkLV },
+  MT: { country: 'Malte',           pattern: /^[1-9]\d{7}$/,                  checksum: checkMT },
+  NL: { country: 'Pays-Bas',        pattern: /^\d{9}B\d{2}$/,                 checksum: checkNL },
+  PL: { country: 'Pologne',         pattern: /^\d{10}$/,                      checksum: checkPL },
+  PT: { country: 'Portugal',        pattern: /^\d{9}$/,                       checksum: checkPT },
+  RO: { country: 'Roumanie',        pattern: /^[1-9]\d{1,9}$/,                checksum: checkRO },
+  SE: { country: 'Suède',           pattern: /^\d{10}01$/,                    checksum: checkSE },
+  SI: { country: 'Slovénie',        pattern: /^[1-9]\d{7}$/,                  checksum: checkSI },
+  SK: { country: 'Slovaquie',       pattern: /^[1-9]\d[2-47-9]\d{7}$/,        checksum: checkSK },
+};
+
+/** Préfixes TVA des États membres de l'UE (EL pour la Grèce). */
+export const EU_VAT_PREFIXES = Object.keys(VAT_RULES);
+
+/** Indique si le numéro porte le préfixe d'un État membre de l'UE (GR accepté pour EL). */
+export function isEuVatNumber(value: string): boolean {
+  return normalizeVatNumber(value).slice(0, 2) in VAT_RULES;
+}
+
+/** Supprime espaces, points, tirets et barres ; préfixe en majuscules, GR → EL. */
+export function normalizeVatNumber(value: string): string {
+  const cleaned = value.replace(/[\s.\-/]/g, '').toUpperCase();
+  return cleaned.startsWith('GR') ? `EL${cleaned.slice(2)}` : cleaned;
+}
+
+/** Vérifie le format et la clé de contrôle d'un numéro de TVA intracommunautaire. */
+export function checkVatNumber(value: string): VatNumberCheck {
+  const normalized = normalizeVatNumber(value ?? '');
+  const countryCode = normalized.slice(0, 2);
+  const body = normalized.slice(2);
+  const rule = VAT_RULES[countryCode];
+
+  if (!rule) {
+    return {
+      normalized, countryCode, formatValid: false, valid: false,
+      error: `Préfixe pays "${countryCode}" inconnu — attendu un État membre de l'UE (${EU_VAT_PREFIXES.join(', ')})`,
+    };
+  }
+  if (!rule.pattern.test(body)) {
+    return {
+      normalized, countryCode, country: rule.country, formatValid: false, valid: false,
+      error: `Format invalide pour ${rule.country}`,
+    };
+  }
+  const checksumValid = rule.checksum?.(body);
+  return {
+    normalized, countryCode, country: rule.country, formatValid: true, checksumValid,
+    valid: checksumValid !== false,
+    error: checksumValid === false ? `Clé de contrôle invalide pour ${rule.country}` : undefined,
+  };
+}
@@ -0,0 +1,568 @@
+import { XMLValidator } from 'fast-xml-parser';
+import {
+  ALLOWANCE_REASON_CODES,
+  CHARGE_REASON_CODE_RE,
+  COUNTRY_CODES,
+  CURRENCY_CODES,
+  INVOICE_TYPE_CODES,
+  PAYMENT_MEANS_CODES,
+  VATEX_CODE_RE,
+  VAT_CATEGORY_CODES,
+} from './code-lists.js';
+import { calculateTotals } from './generator.js';
+import {
+  isChargeNode,
+  parseFacturXXml,
+  readCrossIndustryInvoice,
+  xmlList,
+  xmlText,
+  type XmlRecord,
+} from './parser.js';
+import { profileAllows, profileFromGuideline } from './profiles.js';
+import { runBusinessRules } from './rules.js';
+import type {
+  FacturXProfile,
+  Invoice,
+  InvoiceTotals,
+  ValidationFinding,
+  ValidationResult,
+  VatCategoryCode,
+} from './types.js';
+import { toValidationResult, validateInvoice } from './validator.js';
+
+/**
+ * Validation d'un document CII reçu (XML Factur-X), sans passer par la saisie JSON :
+ * éléments obligatoires, listes de codes, puis règles EN 16931 confrontant les montants déclarés
+ * (lignes, ventilation TVA, totaux d'en-tête). Chaque constat est localisé par son XPath.
+ */
+
+// ── Chemins XPath ──────────────────────────────────────────────────────────
+
+const ROOT        = '/rsm:CrossIndustryInvoice';
+const CONTEXT     = `${ROOT}/rsm:ExchangedDocumentContext`;
+const DOCUMENT    = `${ROOT}/rsm:ExchangedDocument`;
+const TRANSACTION = `${ROOT}/rsm:SupplyChainTradeTransaction`;
+const LINE        = `${TRANSACTION}/ram:IncludedSupplyChainTradeLineItem`;
+const AGREEMENT   = `${TRANSACTION}/ram:ApplicableHeaderTradeAgreement`;
+const DELIVERY    = `${TRANSACTION}/ram:ApplicableHeaderTradeDelivery`;
+const SETTLEMENT  = `${TRANSACTION}/ram:ApplicableHeaderTradeSettlement`;
+const SUMMATION   = `${SETTLEMENT}/ram:SpecifiedTradeSettlementHeaderMonetarySummation`;
+const GUIDELINE   = `${CONTEXT}/ram:GuidelineSpecifiedDocumentContextParameter/ram:ID`;
+
+const PARTIES: Record<string, string> = {
+  seller:                  `${AGREEMENT}/ram:SellerTradeParty`,
+  buyer:                   `${AGREEMENT}/ram:BuyerTradeParty`,
+  sellerTaxRepresentative: `${AGREEMENT}/ram:SellerTaxRepresentativeTradeParty`,
+  payee:                   `${SETTLEMENT}/ram:PayeeTradeParty`,
+  shipTo:                  `${DELIVERY}/ram:ShipToTradeParty`,
+};
+
+const PARTY_FIELDS: Record<string, string> = {
+  'name':                'ram:Name',
+  'id':                  'ram:ID',
+  'locationId':          'ram:ID',
+  'legalId':             'ram:SpecifiedLegalOrganization/ram:ID',
+  'vatNumber':           'ram:SpecifiedTaxRegistration/ram:ID',
+  'address':             'ram:PostalTradeAddress',
+  'address.street':      'ram:PostalTradeAddress/ram:LineOne',
+  'address.city':        'ram:PostalTradeAddress/ram:CityName',
+  'address.postalCode':  'ram:PostalTradeAddress/ram:PostcodeCode',
+  'address.countryCode': 'ram:PostalTradeAddress/ram:CountryID',
+};
+
+const PERIOD_FIELDS: Record<string, string> = {
+  'billingPeriod':           'ram:BillingSpecifiedPeriod',
+  'billingPeriod.startDate': 'ram:BillingSpecifiedPeriod/ram:StartDateTime/udt:DateTimeString',
+  'billingPeriod.endDate':   'ram:BillingSpecifiedPeriod/ram:EndDateTime/udt:DateTimeString',
+};
+
+const ALLOWANCE_CHARGE_FIELDS: Record<string, string> = {
+  amount:      'ram:ActualAmount',
+  baseAmount:  'ram:BasisAmount',
+  percentage:  'ram:CalculationPercent',
+  reason:      'ram:Reason',
+  reasonCode:  'ram:ReasonCode',
+  vatCategory: 'ram:CategoryTradeTax/ram:CategoryCode',
+  vatRate:     'ram:CategoryTradeTax/ram:RateApplicablePercent',
+};
+
+const LINE_FIELDS: Record<string, string> = {
+  id:                'ram:AssociatedDocumentLineDocument/ram:LineID',
+  description:       'ram:SpecifiedTradeProduct/ram:Name',
+  productId:         'ram:SpecifiedTradeProduct/ram:SellerAssignedID',
+  note:              'ram:SpecifiedTradeProduct/ram:Description',
+  grossPrice:        'ram:SpecifiedLineTradeAgreement/ram:GrossPriceProductTradePrice/ram:ChargeAmount',
+  priceDiscount:     'ram:SpecifiedLineTradeAgreement/ram:GrossPriceProductTradePrice/ram:AppliedTradeAllowanceCharge',
+  unitPrice:         'ram:SpecifiedLineTradeAgreement/ram:NetPriceProductTradePrice/ram:ChargeAmount',
+  priceBaseQuantity: 'ram:SpecifiedLineTradeAgreement/ram:NetPriceProductTradePrice/ram:BasisQuantity',
+  quantity:          'ram:SpecifiedLineTradeDelivery/ram:BilledQuantity',
+  unitCode:          'ram:SpecifiedLineTradeDelivery/ram:BilledQuantity/@unitCode',
+  vatCategory:       'ram:SpecifiedLineTradeSettlement/ram:ApplicableTradeTax/ram:CategoryCode',
+  vatRate:           'ram:SpecifiedLineTradeSettlement/ram:ApplicableTradeTax/ram:RateApplicablePercent',
+  totalAmount:       'ram:SpecifiedLineTradeSettlement/ram:SpecifiedTradeSettlementLineMonetarySummation/ram:LineTotalAmount',
+  ...Object.fromEntries(Object.entries(PERIOD_FIELDS).map(([k, v]) => [k, `ram:SpecifiedLineTradeSettlement/${v}`])),
+};
+
+const VAT_SUMMARY_FIELDS: Record<string, string> = {
+  taxAmount:           'ram:CalculatedAmount',
+  taxableAmount:       'ram:BasisAmount',
+  categoryCode:        'ram:CategoryCode',
+  rate:                'ram:RateApplicablePercent',
+  exemptionReason:     'ram:ExemptionReason',
+  exemptionReasonCode: 'ram:ExemptionReasonCode',
+};
+
+const TOTAL_FIELDS: Record<string, string> = {
+  lineTotalAmount:      'ram:LineTotalAmount',
+  allowanceTotalAmount: 'ram:AllowanceTotalAmount',
+  chargeTotalAmount:    'ram:ChargeTotalAmount',
+  taxBasisTotalAmount:  'ram:TaxBasisTotalAmount',
+  taxTotalAmount:       'ram:TaxTotalAmount',
+  grandTotalAmount:     'ram:GrandTotalAmount',
+  prepaidAmount:        'ram:TotalPrepaidAmount',
+  roundingAmount:       'ram:RoundingAmount',
+  duePayableAmount:     'ram:DuePayableAmount',
+};
+
+const HEADER_FIELDS: Record<string, string> = {
+  number:                `${DOCUMENT}/ram:ID`,
+  typeCode:              `${DOCUMENT}/ram:TypeCode`,
+  date:                  `${DOCUMENT}/ram:IssueDateTime/udt:DateTimeString`,
+  notes:                 `${DOCUMENT}/ram:IncludedNote`,
+  profile:               GUIDELINE,
+  currency:              `${SETTLEMENT}/ram:InvoiceCurrencyCode`,
+  taxCurrency:           `${SETTLEMENT}/ram:TaxCurrencyCode`,
+  taxTotalInTaxCurrency: `${SUMMATION}/ram:TaxTotalAmount`,
+  prepaidAmount:         `${SUMMATION}/ram:TotalPrepaidAmount`,
+  roundingAmount:        `${SUMMATION}/ram:RoundingAmount`,
+  dueDate:               `${SETTLEMENT}/ram:SpecifiedTradePaymentTerms/ram:DueDateDateTime/udt:DateTimeString`,
+  deliveryDate:          `${DELIVERY}/ram:ActualDeliverySupplyChainEvent/ram:OccurrenceDateTime/udt:DateTimeString`,
+  payment:               `${SETTLEMENT}/ram:SpecifiedTradeSettlementPaymentMeans`,
+  'payment.meansCode':   `${SETTLEMENT}/ram:SpecifiedTradeSettlementPaymentMeans/ram:TypeCode`,
+  'payment.iban':        `${SETTLEMENT}/ram:SpecifiedTradeSettlementPaymentMeans/ram:PayeePartyCreditorFinancialAccount/ram:IBANID`,
+  'payment.terms':       `${SETTLEMENT}/ram:SpecifiedTradePaymentTerms/ram:Description`,
+  vatSummaries:          `${SETTLEMENT}/ram:ApplicableTradeTax`,
+  vatExemptions:         `${SETTLEMENT}/ram:ApplicableTradeTax/ram:ExemptionReason`,
+  ...Object.fromEntries(Object.entries(PERIOD_FIELDS).map(([k, v]) => [k, `${SETTLEMENT}/${v}`])),
+};
+
+// Remise (false) ou charge (true) de rang `index` parmi celles de même nature
+function allowanceChargeStep(charge: boolean, index: number): string {
+  return `ram:SpecifiedTradeAllowanceCharge[ram:ChargeIndicator/udt:Indicator='${charge}'][${index + 1}]`;
+}
+
+function withField(base: string, fields: Record<string, string>, field: string | undefined): string {
+  if (!field) return base;
+  return fields[field] ? `${base}/${fields[field]}` : base;
+}
+
+/** XPath de l'élément désigné par un chemin du modèle Invoice (ex: "lines[0].vatRate"). */
+function toXPath(path: string): string {
+  const m = /^(\w+)(?:\[(\d+)\])?(?:\.(.+))?$/.exec(path);
+  if (!m) return path;
+  const [, head, index, rest] = m;
+  const i = Number(index ?? 0);
+
+  if (head in PARTIES) return withField(PARTIES[head], PARTY_FIELDS, rest);
+  switch (head) {
+    case 'lines': {
+      if (index === undefined) return LINE;
+      const line = `${LINE}[${i + 1}]`;
+      const nested = /^(allowances|charges)\[(\d+)\](?:\.(.+))?$/.exec(rest ?? '');
+      if (!nested) return withField(line, LINE_FIELDS, rest);
+      const step = allowanceChargeStep(nested[1] === 'charges', Number(nested[2]));
+      return withField(`${line}/ram:SpecifiedLineTradeSettlement/${step}`, ALLOWANCE_CHARGE_FIELDS, nested[3]);
+    }
+    case 'allowances':
+    case 'charges':
+      return withField(`${SETTLEMENT}/${allowanceChargeStep(head === 'charges', i)}`, ALLOWANCE_CHARGE_FIELDS, rest);
+    case 'vatSummaries':
+      return index === undefined ? HEADER_FIELDS.vatSummaries
+        : withField(`${SETTLEMENT}/ram:ApplicableTradeTax[${i + 1}]`, VAT_SUMMARY_FIELDS, rest);
+    case 'totals':
+      return withField(SUMMATION, TOTAL_FIELDS, rest);
+    case 'notes':
+      return index === undefined ? HEADER_FIELDS.notes
+        : withField(`${DOCUMENT}/ram:IncludedNote[${i + 1}]`, { content: 'ram:Content', subjectCode: 'ram:SubjectCode' }, rest);
+    case 'precedingInvoices':
+      return withField(`${SETTLEMENT}/ram:InvoiceReferencedDocument[${i + 1}]`,
+        { number: 'ram:IssuerAssignedID', issueDate: 'ram:FormattedIssueDateTime/qdt:DateTimeString' }, rest);
+    case 'supportingDocuments':
+      return withField(`${AGREEMENT}/ram:AdditionalReferencedDocument[ram:TypeCode='916'][${i + 1}]`, {
+        'id':                  'ram:IssuerAssignedID',
+        'uri':                 'ram:URIID',
+        'attachment':          'ram:AttachmentBinaryObject',
+        'attachment.content':  'ram:AttachmentBinaryObject',
+        'attachment.mimeCode': 'ram:AttachmentBinaryObject/@mimeCode',
+        'attachment.filename': 'ram:AttachmentBinaryObject/@filename',
+      }, rest);
+  }
+  const key = rest ? `${head}.${rest}` : head;
+  return HEADER_FIELDS[key] ?? HEADER_FIELDS[head] ?? path;
+}
+
+// ── Contrôles du document brut ─────────────────────────────────────────────
+
+const AMOUNT_RE = /^[+-]?\d+(\.\d+)?$/;
+
+/** Accès aux éléments du document analysé, avec relevé des constats localisés. */
+interface DocumentChecker {
+  profile: FacturXProfile;
+  findings: ValidationFinding[];
+  invalid: Set<string>; // Éléments présents mais mal formés ou hors liste de codes
+}
+
+function reject(checker: DocumentChecker, path: string, message: string): void {
+  checker.findings.push({ severity: 'error', path, message });
+  checker.invalid.add(path);
+}
+
+// Premier élément `name` (préfixe d'espace de noms ignoré) sous `node`
+function child(node: XmlRecord | undefined, name: string): XmlRecord | undefined {
+  const value = xmlList(node?.[name.slice(name.indexOf(':') + 1)])[0];
+  return value === undefined ? undefined : (typeof value === 'object' ? value : { '#text': value }) as XmlRecord;
+}
+
+function children(node: XmlRecord | undefined, name: string): XmlRecord[] {
+  return xmlList(node?.[name.slice(name.indexOf(':') + 1)])
+    .map(value => (typeof value === 'object' ? value : { '#text': value }) as XmlRecord);
+}
+
+/**
+ * Élément obligatoire à partir de `minProfile` : retourne son texte, ou signale son absence.
+ */
+function required(
+  checker: DocumentChecker,
+  node: XmlRecord | undefined,
+  xpath: string,
+  name: string,
+  label: string,
+  minProfile: FacturXProfile = 'MINIMUM',
+): string | undefined {
+  const text = xmlText(child(node, name)).trim();
+  if (text) return text;
+  if (node && profileAllows(checker.profile, minProfile))
+    checker.findings.push({ severity: 'error', path: `${xpath}/${name}`, message: `${label} manquant` });
+  return undefined;
+}
+
+function checkCode(checker: DocumentChecker, value: string | undefined, xpath: string, valid: (code: string) => boolean, label: string): void {
+  if (value && !valid(value))
+    reject(checker, xpath, `${label} : code "${value}" absent de la liste de codes`);
+}
+
+function checkAmount(checker: DocumentChecker, node: XmlRecord | undefined, xpath: string, name: string, label: string): void {
+  const text = xmlText(child(node, name)).trim();
+  if (text && !AMOUNT_RE.test(text))
+    reject(checker, `${xpath}/${name}`, `${label} : "${text}" n'est pas un nombre décimal (séparateur ".")`);
+}
+
+// Date au format 102 (AAAAMMJJ)
+function checkDate(checker: DocumentChecker, node: XmlRecord | undefined, xpath: string, label: string): void {
+  if (!node) return;
+  const dateTime = child(node, 'udt:DateTimeString');
+  const path = `${xpath}/udt:DateTimeString`;
+  if (!dateTime) {
+    checker.findings.push({ severity: 'error', path, message: `${label} : date manquante` });
+    return;
+  }
+  const text = xmlText(dateTime).trim();
+  const format = xmlText(dateTime['@_format']);
+  if (format !== '102')
+    reject(checker, `${path}/@format`, `${label} : format de date "${format}" — 102 (AAAAMMJJ) attendu`);
+  const m = /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  const date = m ? new Date(Date.UTC(+m[1], +m[2] - 1, +m[3])) : undefined;
+  if (!m || date!.getUTCMonth() !== +m[2] - 1 || date!.getUTCDate() !== +m[3])
+    reject(checker, path, `${label} : date "${text}" invalide (AAAAMMJJ attendu)`);
+}
+
+function checkParty(
+  checker: DocumentChecker,
+  party: XmlRecord | undefined,
+  xpath: string,
+  label: string,
+  countryMinProfile: FacturXProfile,
+): void {
+  if (!party) return;
+  required(checker, party, xpath, 'ram:Name', `Nom ${label}`);
+  const address = child(party, 'ram:PostalTradeAddress');
+  if (!address && profileAllows(checker.profile, countryMinProfile))
+    checker.findings.push({ severity: 'error', path: `${xpath}/ram:PostalTradeAddress`, message: `Adresse ${label} manquante` });
+  const country = required(checker, address, `${xpath}/ram:PostalTradeAddress`, 'ram:CountryID', `Code pays ${label}`, countryMinProfile);
+  checkCode(checker, country, `${xpath}/ram:PostalTradeAddress/ram:CountryID`, c => COUNTRY_CODES.has(c), `Code pays ${label}`);
+  for (const [i, registration] of children(party, 'ram:SpecifiedTaxRegistration').entries()) {
+    const scheme = xmlText(child(registration, 'ram:ID')?.['@_schemeID']);
+    if (scheme !== 'VA' && scheme !== 'FC')
+      reject(checker, `${xpath}/ram:SpecifiedTaxRegistration[${i + 1}]/ram:ID/@schemeID`,
+        `Identifiant fiscal ${label} : schemeID "${scheme}" — VA (TVA) ou FC (numéro fiscal) attendu`);
+  }
+}
+
+function checkAllowanceCharge(checker: DocumentChecker, ac: XmlRecord, xpath: string, withCategory: boolean): void {
+  const charge = isChargeNode(ac);
+  const label = charge ? 'Charge' : 'Remise';
+  required(checker, child(ac, 'ram:ChargeIndicator'), `${xpath}/ram:ChargeIndicator`, 'udt:Indicator', `${label} : indicateur charge/remise`);
+  required(checker, ac, xpath, 'ram:ActualAmount', `${label} : montant`);
+  for (const name of ['ram:ActualAmount', 'ram:BasisAmount', 'ram:CalculationPercent'])
+    checkAmount(checker, ac, xpath, name, label);
+  const reasonCode = xmlText(child(ac, 'ram:ReasonCode')).trim();
+  checkCode(checker, reasonCode, `${xpath}/ram:ReasonCode`,
+    c => charge ? CHARGE_REASON_CODE_RE.test(c) : ALLOWANCE_REASON_CODES.has(c), `${label} : code motif`);
+  if (!withCategory) return;
+  const category = required(checker, child(ac, 'ram:CategoryTradeTax'), `${xpath}/ram:CategoryTradeTax`, 'ram:CategoryCode', `${label} : catégorie TVA`);
+  checkCode(checker, category, `${xpath}/ram:CategoryTradeTax/ram:CategoryCode`, c => VAT_CATEGORY_CODES.has(c), `${label} : catégorie TVA`);
+}
+
+function checkLine(checker: DocumentChecker, line: XmlRecord, xpath: string): void {
+  required(checker, child(line, 'ram:AssociatedDocumentLineDocument'), `${xpath}/ram:AssociatedDocumentLineDocument`, 'ram:LineID', 'Identifiant de ligne (BT-126)');
+  required(checker, child(line, 'ram:SpecifiedTradeProduct'), `${xpath}/ram:SpecifiedTradeProduct`, 'ram:Name', 'Désignation de l\'article (BT-153)');
+
+  const agreement = child(line, 'ram:SpecifiedLineTradeAgreement');
+  const netPrice = child(agreement, 'ram:NetPriceProductTradePrice');
+  const netPath = `${xpath}/ram:SpecifiedLineTradeAgreement/ram:NetPriceProductTradePrice`;
+  if (!netPrice)
+    checker.findings.push({ severity: 'error', path: netPath, message: 'Prix net de l\'article (BT-146) manquant' });
+  required(checker, netPrice, netPath, 'ram:ChargeAmount', 'Prix net de l\'article (BT-146)');
+  checkAmount(checker, netPrice, netPath, 'ram:ChargeAmount', 'Prix net');
+  checkAmount(checker, netPrice, netPath, 'ram:BasisQuantity', 'Quantité de base du prix');
+
+  const deliveryPath = `${xpath}/ram:SpecifiedLineTradeDelivery`;
+  const delivery = child(line, 'ram:SpecifiedLineTradeDelivery');
+  const quantity = required(checker, delivery ?? {}, deliveryPath, 'ram:BilledQuantity', 'Quantité facturée (BT-129)');
+  checkAmount(checker, delivery, deliveryPath, 'ram:BilledQuantity', 'Quantité facturée');
+  if (quantity && !xmlText(child(delivery, 'ram:BilledQuantity')?.['@_unitCode']).trim())
+    checker.findings.push({ severity: 'error', path: `${deliveryPath}/ram:BilledQuantity/@unitCode`, message: 'Unité de mesure (BT-130) manquante' });
+
+  const settlementPath = `${xpath}/ram:SpecifiedLineTradeSettlement`;
+  const settlement = child(line, 'ram:SpecifiedLineTradeSettlement');
+  const tax = child(settlement, 'ram:ApplicableTradeTax');
+  const taxPath = `${settlementPath}/ram:ApplicableTradeTax`;
+  if (!tax) {
+    checker.findings.push({ severity: 'error', path: taxPath, message: 'TVA de la ligne (BG-30) manquante' });
+  } else {
+    const type = required(checker, tax, taxPath, 'ram:TypeCode', 'Type de taxe de la ligne');
+    if (type && type !== 'VAT')
+      checker.findings.push({ severity: 'error', path: `${taxPath}/ram:TypeCode`, message: `Type de taxe "${type}" — VAT attendu` });
+    const category = required(checker, tax, taxPath, 'ram:CategoryCode', 'Catégorie TVA de la ligne (BT-151)');
+    checkCode(checker, category, `${taxPath}/ram:CategoryCode`, c => VAT_CATEGORY_CODES.has(c), 'Catégorie TVA de la ligne (BT-151)');
+    checkAmount(checker, tax, taxPath, 'ram:RateApplicablePercent', 'Taux de TVA de la ligne');
+  }
+  const lineSummationPath = `${settlementPath}/ram:SpecifiedTradeSettlementLineMonetarySummation`;
+  const lineSummation = child(settlement, 'ram:SpecifiedTradeSettlementLineMonetarySummation');
+  required(checker, lineSummation ?? {}, lineSummationPath, 'ram:LineTotalAmount', 'Montant net de ligne (BT-131)');
+  checkAmount(checker, lineSummation, lineSummationPath, 'ram:LineTotalAmount', 'Montant net de ligne');
+
+  const counts = { false: 0, true: 0 };
+  for (const ac of children(settlement, 'ram:SpecifiedTradeAllowanceCharge')) {
+    const charge = isChargeNode(ac);
+    checkAllowanceCharge(checker, ac, `${settlementPath}/${allowanceChargeStep(charge, counts[`${charge}`]++)}`, false);
+  }
+}
+
+/** Contrôles structurels : éléments obligatoires, formats et listes de codes. */
+function checkDocument(checker: DocumentChecker, root: XmlRecord): void {
+  const { findings } = checker;
+  const context = child(root, 'rsm:ExchangedDocumentContext');
+  const document = child(root, 'rsm:ExchangedDocument');
+  const transaction = child(root, 'rsm:SupplyChainTradeTransaction');
+  if (!context)     findings.push({ severity: 'error', path: CONTEXT, message: 'Contexte du document (BG-2) manquant' });
+  if (!document)    findings.push({ severity: 'error', path: DOCUMENT, message: 'En-tête du document manquant' });
+  if (!transaction) findings.push({ severity: 'error', path: TRANSACTION, message: 'Transaction commerciale manquante' });
+
+  // ── En-tête ──
+  const typeCode = required(checker, document, DOCUMENT, 'ram:TypeCode', 'Code type de facture (BT-3)');
+  checkCode(checker, typeCode, `${DOCUMENT}/ram:TypeCode`, c => INVOICE_TYPE_CODES.has(c), 'Code type de facture (BT-3)');
+  required(checker, document, DOCUMENT, 'ram:ID', 'Numéro de facture (BT-1)');
+  const issueDate = child(document, 'ram:IssueDateTime');
+  if (document && !issueDate)
+    findings.push({ severity: 'error', path: `${DOCUMENT}/ram:IssueDateTime`, message: 'Date d\'émission (BT-2) manquante' });
+  checkDate(checker, issueDate, `${DOCUMENT}/ram:IssueDateTime`, 'Date d\'émission (BT-2)');
+  children(document, 'ram:IncludedNote').forEach((note, i) =>
+    required(checker, note, `${DOCUMENT}/ram:IncludedNote[${i + 1}]`, 'ram:Content', 'Contenu de la note (BT-22)'));
+  if (!transaction) return;
+
+  // ── Acteurs ──
+  const agreement = child(transaction, 'ram:ApplicableHeaderTradeAgreement');
+  const delivery = child(transaction, 'ram:ApplicableHeaderTradeDelivery');
+  const settlement = child(transaction, 'ram:ApplicableHeaderTradeSettlement');
+  if (!agreement)  findings.push({ severity: 'error', path: AGREEMENT, message: 'Accord commercial (vendeur, acheteur) manquant' });
+  if (!settlement) findings.push({ severity: 'error', path: SETTLEMENT, message: 'Règlement (devise, TVA, totaux) manquant' });
+
+  for (const [name, label] of [['ram:SellerTradeParty', 'du vendeur (BG-4)'], ['ram:BuyerTradeParty', 'de l\'acheteur (BG-7)']]) {
+    if (agreement && !child(agreement, name))
+      findings.push({ severity: 'error', path: `${AGREEMENT}/${name}`, message: `Partie ${label} manquante` });
+  }
+  checkParty(checker, child(agreement, 'ram:SellerTradeParty'), PARTIES.seller, 'du vendeur', 'MINIMUM');
+  checkParty(checker, child(agreement, 'ram:BuyerTradeParty'), PARTIES.buyer, 'de l\'acheteur', 'BASIC_WL');
+  checkParty(checker, child(agreement, 'ram:SellerTaxRepresentativeTradeParty'), PARTIES.sellerTaxRepresentative, 'du représentant fiscal', 'MINIMUM');
+  const shipTo = child(delivery, 'ram:ShipToTradeParty');
+  const shipToCountry = xmlText(child(child(shipTo, 'ram:PostalTradeAddress'), 'ram:CountryID')).trim();
+  checkCode(checker, shipToCountry, `${PARTIES.shipTo}/ram:PostalTradeAddress/ram:CountryID`, c => COUNTRY_CODES.has(c), 'Code pays de livraison (BT-80)');
+  checkDate(checker, child(child(delivery, 'ram:ActualDeliverySupplyChainEvent'), 'ram:OccurrenceDateTime'),
+    `${DELIVERY}/ram:ActualDeliverySupplyChainEvent/ram:OccurrenceDateTime`, 'Date de livraison (BT-72)');
+  if (!settlement) return;
+
+  // ── Devises, paiement ──
+  const currency = required(checker, settlement, SETTLEMENT, 'ram:InvoiceCurrencyCode', 'Code devise (BT-5)');
+  checkCode(checker, currency, `${SETTLEMENT}/ram:InvoiceCurrencyCode`, c => CURRENCY_CODES.has(c), 'Code devise (BT-5)');
+  const taxCurrency = xmlText(child(settlement, 'ram:TaxCurrencyCode')).trim();
+  checkCode(checker, taxCurrency, `${SETTLEMENT}/ram:TaxCurrencyCode`, c => CURRENCY_CODES.has(c), 'Devise de comptabilisation TVA (BT-6)');
+  children(settlement, 'ram:SpecifiedTradeSettlementPaymentMeans').forEach((means, i) => {
+    const path = `${SETTLEMENT}/ram:SpecifiedTradeSettlementPaymentMeans[${i + 1}]`;
+    const code = required(checker, means, path, 'ram:TypeCode', 'Code moyen de paiement (BT-81)');
+    checkCode(checker, code, `${path}/ram:TypeCode`, c => PAYMENT_MEANS_CODES.has(c), 'Code moyen de paiement (BT-81)');
+  });
+  const terms = child(settlement, 'ram:SpecifiedTradePaymentTerms');
+  checkDate(checker, child(terms, 'ram:DueDateDateTime'),
+    `${SETTLEMENT}/ram:SpecifiedTradePaymentTerms/ram:DueDateDateTime`, 'Date d\'échéance (BT-9)');
+
+  // ── Ventilation TVA ──
+  const taxes = children(settlement, 'ram:ApplicableTradeTax');
+  if (!taxes.length && profileAllows(checker.profile, 'BASIC_WL'))
+    findings.push({ severity: 'error', path: `${SETTLEMENT}/ram:ApplicableTradeTax`, message: 'Ventilation TVA (BG-23) manquante' });
+  taxes.forEach((tax, i) => {
+    const path = `${SETTLEMENT}/ram:ApplicableTradeTax[${i + 1}]`;
+    required(checker, tax, path, 'ram:CalculatedAmount', 'Montant de TVA (BT-117)');
+    required(checker, tax, path, 'ram:BasisAmount', 'Assiette de TVA (BT-116)');
+    const type = required(checker, tax, path, 'ram:TypeCode', 'Type de taxe');
+    if (type && type !== 'VAT')
+      findings.push({ severity: 'error', path: `${path}/ram:TypeCode`, message: `Type de taxe "${type}" — VAT attendu` });
+    const category = required(checker, tax, path, 'ram:CategoryCode', 'Catégorie de TVA (BT-118)');
+    checkCode(checker, category, `${path}/ram:CategoryCode`, c => VAT_CATEGORY_CODES.has(c), 'Catégorie de TVA (BT-118)');
+    if (category && category !== 'O') required(checker, tax, path, 'ram:RateApplicablePercent', 'Taux de TVA (BT-119)');
+    for (const name of ['ram:CalculatedAmount', 'ram:BasisAmount', 'ram:RateApplicablePercent'])
+      checkAmount(checker, tax, path, name, 'Ventilation TVA');
+    const exemptionCode = xmlText(child(tax, 'ram:ExemptionReasonCode')).trim();
+    checkCode(checker, exemptionCode, `${path}/ram:ExemptionReasonCode`, c => VATEX_CODE_RE.test(c), 'Code d\'exonération (BT-121)');
+  });
+
+  // ── Remises et charges globales ──
+  const counts = { false: 0, true: 0 };
+  for (const ac of children(settlement, 'ram:SpecifiedTradeAllowanceCharge')) {
+    const charge = isChargeNode(ac);
+    checkAllowanceCharge(checker, ac, `${SETTLEMENT}/${allowanceChargeStep(charge, counts[`${charge}`]++)}`, true);
+  }
+
+  // ── Totaux ──
+  const summation = child(settlement, 'ram:SpecifiedTradeSettlementHeaderMonetarySummation');
+  if (!summation) {
+    findings.push({ severity: 'error', path: SUMMATION, message: 'Totaux du document (BG-22) manquants' });
+  } else {
+    required(checker, summation, SUMMATION, 'ram:LineTotalAmount', 'Total des lignes (BT-106)', 'BASIC_WL');
+    required(checker, summation, SUMMATION, 'ram:TaxBasisTotalAmount', 'Total HT (BT-109)');
+    required(checker, summation, SUMMATION, 'ram:GrandTotalAmount', 'Total TTC (BT-112)');
+    required(checker, summation, SUMMATION, 'ram:DuePayableAmount', 'Montant à payer (BT-115)');
+    for (const name of Object.values(TOTAL_FIELDS)) checkAmount(checker, summation, SUMMATION, name, 'Totaux');
+  }
+
+  // ── Lignes ──
+  const lines = children(transaction, 'ram:IncludedSupplyChainTradeLineItem');
+  lines.forEach((line, i) => checkLine(checker, line, `${LINE}[${i + 1}]`));
+}
+
+// ── Totaux déclarés ────────────────────────────────────────────────────────
+
+/**
+ * Totaux tels qu'indiqués dans le document. Un montant absent reprend la valeur recalculée :
+ * son absence est signalée par les contrôles structurels, pas par les règles de calcul.
+ */
+function readDeclaredTotals(root: XmlRecord, invoice: Invoice, computed: InvoiceTotals): InvoiceTotals {
+  const settlement = child(child(root, 'rsm:SupplyChainTradeTransaction'), 'ram:ApplicableHeaderTradeSettlement');
+  const summation = child(settlement, 'ram:SpecifiedTradeSettlementHeaderMonetarySummation');
+  const amount = (node: XmlRecord | undefined, fallback: number) => {
+    const text = xmlText(node).trim();
+    return AMOUNT_RE.test(text) ? parseFloat(text) : fallback;
+  };
+  const total = (field: keyof typeof TOTAL_FIELDS & keyof InvoiceTotals) =>
+    amount(child(summation, TOTAL_FIELDS[field]), computed[field] as number);
+
+  // TaxTotalAmount peut figurer deux fois : devise de facture et devise de comptabilisation
+  const taxTotals = children(summation, 'ram:TaxTotalAmount');
+  const taxTotal = taxTotals.find(t => !t['@_currencyID'] || xmlText(t['@_currencyID']) === invoice.currency) ?? taxTotals[0];
+  // BT-111 : seul un montant explicitement exprimé dans la devise de comptabilisation compte (BR-53)
+  const taxCurrencyTotal = invoice.taxCurrency && invoice.taxCurrency !== invoice.currency
+    ? taxTotals.find(t => xmlText(t['@_currencyID']) === invoice.taxCurrency)
+    : undefined;
+
+  return {
+    lineTotalAmount:      total('lineTotalAmount'),
+    allowanceTotalAmount: total('allowanceTotalAmount'),
+    chargeTotalAmount:    total('chargeTotalAmount'),
+    taxBasisTotalAmount:  total('taxBasisTotalAmount'),
+    taxTotalAmount:       amount(taxTotal, computed.taxTotalAmount),
+    taxTotalAmountInTaxCurrency: taxCurrencyTotal ? amount(taxCurrencyTotal, 0) : undefined,
+    grandTotalAmount:     total('grandTotalAmount'),
+    prepaidAmount:        total('prepaidAmount'),
+    roundingAmount:       total('roundingAmount'),
+    duePayableAmount:     total('duePayableAmount'),
+    vatSummaries: children(settlement, 'ram:ApplicableTradeTax').map(tax => ({
+      categoryCode:        xmlText(child(tax, 'ram:CategoryCode')) as VatCategoryCode,
+      rate:                amount(child(tax, 'ram:RateApplicablePercent'), 0),
+      taxableAmount:       amount(child(tax, 'ram:BasisAmount'), 0),
+      taxAmount:           amount(child(tax, 'ram:CalculatedAmount'), 0),
+      exemptionReason:     xmlText(child(tax, 'ram:ExemptionReason')) || undefined,
+      exemptionReasonCode: xmlText(child(tax, 'ram:ExemptionReasonCode')) || undefined,
+    })),
+  };
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+/**
+ * Valide un XML Factur-X (CII) tel que reçu.
+ * Un élément mal formé ou hors liste de codes n'est signalé que par le contrôle structurel ;
+ * ailleurs, les constats issus du modèle (règles EN 16931, contrôles de format) priment
+ * sur un constat structurel visant le même élément.
+ */
+export function validateFacturXXml(xmlContent: string): ValidationResult {
+  const wellFormed = XMLValidator.validate(xmlContent);
+  if (wellFormed !== true) {
+    const { msg, line, col } = wellFormed.err;
+    return toValidationResult([{ severity: 'error', path: `ligne ${line}, colonne ${col}`, message: `XML mal formé : ${msg}` }]);
+  }
+
+  let root: XmlRecord;
+  let invoice: Invoice;
+  try {
+    root = readCrossIndustryInvoice(xmlContent);
+    invoice = parseFacturXXml(xmlContent);
+  } catch (e) {
+    return toValidationResult([{ severity: 'error', path: ROOT, message: (e as Error).message }]);
+  }
+
+  // Profil : identifiant de guideline reconnu, sinon celui retenu par l'analyse
+  const guideline = xmlText(child(child(child(root, 'rsm:ExchangedDocumentContext'),
+    'ram:GuidelineSpecifiedDocumentContextParameter'), 'ram:ID')).trim();
+  const profile = profileFromGuideline(guideline);
+  const structural: ValidationFinding[] = [];
+  if (!guideline)
+    structural.push({ severity: 'error', path: GUIDELINE, message: 'Identifiant de guideline (BT-24) manquant' });
+  else if (!profile)
+    structural.push({ severity: 'error', path: GUIDELINE, message: `Identifiant de guideline "${guideline}" non reconnu — contrôles appliqués au profil ${invoice.profile}` });
+  if (profile) invoice = { ...invoice, profile };
+
+  const checker: DocumentChecker = { profile: invoice.profile, findings: structural, invalid: new Set() };
+  checkDocument(checker, root);
+
+  // Règles EN 16931 sur les montants déclarés, contrôles de format du modèle
+  let model: ValidationFinding[];
+  try {
+    const declared = readDeclaredTotals(root, invoice, calculateTotals(invoice));
+    model = [
+      ...runBusinessRules(invoice, declared),
+      ...validateInvoice(invoice).findings.filter(f => !f.rule),
+    ];
+  } catch {
+    // Montants illisibles : déjà signalés par les contrôles structurels
+    model = validateInvoice(invoice).findings.filter(f => !f.rule);
+  }
+  const located = model
+    .map(f => ({ ...f, path: toXPath(f.path) }))
+    .filter(f => !checker.invalid.has(f.path));
+  const paths = new Set(located.map(f => f.path));
+
+  return toValidationResult([
+    ...structural.filter(f => checker.invalid.has(f.path) || !paths.has(f.path)),
+    ...located,
+  ]);
+}
@@ -0,0 +1,145 @@
+import { readdir, readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { XMLValidator } from 'fast-xml-parser';
+import { validateXML, type XMLFileInfo } from 'xmllint-wasm';
+import { readCrossIndustryInvoice, xmlList, xmlText, type XmlRecord } from './parser.js';
+import { profileFromGuideline } from './profiles.js';
+import type { FacturXProfile } from './types.js';
+
+// Schémas structurels CII D16B embarqués, un jeu par profil, sans listes de codes (voir schemas/cii/README.md)
+const SCHEMA_DIR = fileURLToPath(new URL('../../schemas/cii/', import.meta.url));
+const XML_FILENAME = 'factur-x.xml';
+
+// Suffixe des fichiers XSD de chaque profil
+const SCHEMA_KEYS: Record<FacturXProfile, string> = {
+  MINIMUM:  'MINIMUM',
+  BASIC_WL: 'BASICWL',
+  BASIC:    'BASIC',
+  EN_16931: 'EN16931',
+  EXTENDED: 'EXTENDED',
+  // Les CIUS restreignent l'EN 16931 : le schéma EN 16931 s'applique
+  XRECHNUNG:  'EN16931',
+  PEPPOL_BIS: 'EN16931',
+};
+
+// Espaces de noms CII, réécrits avec leur préfixe usuel dans les messages
+const NAMESPACE_PREFIXES: Record<string, string> = {
+  'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100':                       'rsm',
+  'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100': 'ram',
+  'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100':                        'udt',
+  'urn:un:unece:uncefact:data:standard:QualifiedDataType:100':                          'qdt',
+};
+
+/** Violation du schéma XSD, localisée dans le document validé. */
+export interface SchemaViolation {
+  line?: number;   // Absente si libxml2 ne localise pas l'erreur
+  column?: number;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  profile: FacturXProfile;
+  violations: SchemaViolation[];
+}
+
+interface ProfileSchema {
+  schema: XMLFileInfo;
+  preload: XMLFileInfo[];
+}
+
+const schemaCache = new Map<FacturXProfile, Promise<ProfileSchema>>();
+
+// Schéma principal du profil et schémas importés (types de données, agrégats)
+async function loadProfileSchema(profile: FacturXProfile): Promise<ProfileSchema> {
+  const main = `CII_${SCHEMA_KEYS[profile]}.xsd`;
+  const imports = new RegExp(`^CII_${SCHEMA_KEYS[profile]}_urn_.+\\.xsd$`);
+
+  const read = async (fileName: string): Promise<XMLFileInfo> =>
+    ({ fileName, contents: await readFile(SCHEMA_DIR + fileName, 'utf-8') });
+
+  const files = await readdir(SCHEMA_DIR);
+  return {
+    schema:  await read(main),
+    preload: await Promise.all(files.filter(f => imports.test(f)).map(read)),
+  };
+}
+
+function profileSchema(profile: FacturXProfile): Promise<ProfileSchema> {
+  let schema = schemaCache.get(profile);
+  if (!schema) {
+    schema = loadProfileSchema(profile);
+    schema.catch(() => schemaCache.delete(profile));
+    schemaCache.set(profile, schema);
+  }
+  return schema;
+}
+
+// Profil désigné par l'identifiant de guideline (BT-24) du document
+function documentProfile(xmlContent: string): FacturXProfile {
+  const root = readCrossIndustryInvoice(xmlContent);
+  const context = xmlList(root['ExchangedDocumentContext'])[0] as XmlRecord | undefined;
+  const guideline = xmlList(context?.['GuidelineSpecifiedDocumentContextParameter'])[0] as XmlRecord | undefined;
+  const id = xmlText(guideline?.['ID']).trim();
+
+  const profile = profileFromGuideline(id);
+  if (!profile) {
+    throw new Error(
+      id ? `Identifiant de guideline "${id}" non reconnu : précisez le profil à valider`
+         : 'Identifiant de guideline (BT-24) manquant : précisez le profil à valider'
+    );
+  }
+  return profile;
+}
+
+// Colonne de la balise visée par le message libxml2 sur la ligne signalée
+function locateColumn(lines: string[], line: number, message: string): number | undefined {
+  const text = lines[line - 1];
+  if (text === undefined) return undefined;
+  const element = /^Element '(?:\{[^}]*\})?([^']+)'/.exec(message)?.[1];
+  const match = element ? new RegExp(`<(?:[\\w.-]+:)?${element}[\\s/>]`).exec(text) : null;
+  return (match?.index ?? text.search(/\S|$/)) + 1;
+}
+
+function readableMessage(message: string): string {
+  return message
+    .replace(/^Schemas validity error : /, '')
+    .replace(/\{([^}]+)\}/g, (ns, uri: string) => NAMESPACE_PREFIXES[uri] ? `${NAMESPACE_PREFIXES[uri]}:` : ns)
+    .trim();
+}
+
+/**
+ * Valide la structure d'un XML Factur-X contre le schéma XSD CII du profil.
+ * Les listes de codes ne sont pas contrôlées ici.
+ * Sans profil explicite, celui-ci est déduit de l'identifiant de guideline du document.
+ */
+export async function validateXmlSchema(xmlContent: string, profile?: FacturXProfile): Promise<SchemaValidationResult> {
+  const wellFormed = XMLValidator.validate(xmlContent);
+  if (wellFormed !== true) {
+    const { msg, line, col } = wellFormed.err;
+    return {
+      valid: false,
+      profile: profile ?? 'EN_16931',
+      violations: [{ line, column: col, message: `XML mal formé : ${msg}` }],
+    };
+  }
+
+  const target = profile ?? documentProfile(xmlContent);
+  const { schema, preload } = await profileSchema(target);
+  const result = await validateXML({
+    xml: { fileName: XML_FILENAME, contents: xmlContent },
+    schema,
+    preload,
+  });
+
+  const lines = xmlContent.split(/\r?\n/);
+  const violations = result.errors.map(({ message, loc }): SchemaViolation => {
+    const line = loc?.fileName === XML_FILENAME ? loc.lineNumber : undefined;
+    return {
+      line,
+      column: line ? locateColumn(lines, line, message) : undefined,
+      message: readableMessage(message),
+    };
+  });
+  return { valid: result.valid, profile: target, violations };
+}
@@ -0,0 +1,53 @@
+import type { XmlRecord } from './parser.js';
+
+/** Espace de noms de la racine CrossIndustryDocument ZUGFeRD 1.0. */
+export const ZUGFERD1_NAMESPACE = 'urn:ferd:CrossIndustryDocument:invoice:1p0';
+
+// Éléments ZUGFeRD 1.0 → équivalents CII D16B
+const ELEMENT_NAMES: Record<string, string> = {
+  SpecifiedExchangedDocumentContext:    'ExchangedDocumentContext',
+  HeaderExchangedDocument:              'ExchangedDocument',
+  SpecifiedSupplyChainTradeTransaction: 'SupplyChainTradeTransaction',
+  ApplicableSupplyChainTradeAgreement:  'ApplicableHeaderTradeAgreement',
+  ApplicableSupplyChainTradeDelivery:   'ApplicableHeaderTradeDelivery',
+  ApplicableSupplyChainTradeSettlement: 'ApplicableHeaderTradeSettlement',
+  SpecifiedSupplyChainTradeAgreement:   'SpecifiedLineTradeAgreement',
+  SpecifiedSupplyChainTradeDelivery:    'SpecifiedLineTradeDelivery',
+  SpecifiedSupplyChainTradeSettlement:  'SpecifiedLineTradeSettlement',
+  ApplicablePercent:                    'RateApplicablePercent',
+};
+
+// Nom D16B d'un élément, selon l'élément parent (déjà renommé)
+function renamed(name: string, parent: string): string {
+  if (name === 'SpecifiedTradeSettlementMonetarySummation') {
+    return parent === 'SpecifiedLineTradeSettlement'
+      ? 'SpecifiedTradeSettlementLineMonetarySummation'
+      : 'SpecifiedTradeSettlementHeaderMonetarySummation';
+  }
+  // Documents référencés (commande, contrat, justificatifs) : ID → IssuerAssignedID
+  if (name === 'ID' && parent.endsWith('ReferencedDocument')) return 'IssuerAssignedID';
+  return ELEMENT_NAMES[name] ?? name;
+}
+
+function convert(node: unknown, parent: string): unknown {
+  if (Array.isArray(node)) return node.map(item => convert(item, parent));
+  if (!node || typeof node !== 'object') return node;
+  const converted: XmlRecord = {};
+  for (const [key, value] of Object.entries(node as XmlRecord)) {
+    if (key.startsWith('@_') || key === '#text') {
+      converted[key] = value;
+      continue;
+    }
+    const name = renamed(key, parent);
+    converted[name] = convert(value, name);
+  }
+  return converted;
+}
+
+/**
+ * Racine CrossIndustryDocument ZUGFeRD 1.0 (CII D13B) analysée, renommée en CrossIndustryInvoice D16B :
+ * la structure est la même, seuls les noms d'éléments diffèrent.
+ */
+export function fromZugferd1(document: XmlRecord): XmlRecord {
+  return convert(document, 'CrossIndustryInvoice') as XmlRecord;
+}
@@ -6,15 +6,26 @@ import {
   ListToolsRequestSchema,
   type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { writeFile } from 'fs/promises';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
 
-import { generateFacturX, calculateTotals } from './facturx/generator.js';
+import { generateFacturX, calculateTotals, withLineNetAmounts } from './facturx/generator.js';
 import { validateInvoice } from './facturx/validator.js';
+import { validateFacturXXml } from './facturx/xml-validator.js';
+import { detectSyntax, generateUbl, type InvoiceSyntax } from './facturx/ubl.js';
+import { validateXmlSchema, type SchemaValidationResult } from './facturx/xsd.js';
+import { identifyDocument } from './facturx/standards.js';
 import { parseFacturXXml } from './facturx/parser.js';
+import { parseInvoiceTotals, parseInvoiceXml } from './facturx/ubl-parser.js';
 import { createFacturXPdf, extractXmlFromPdf } from './facturx/pdf.js';
+import { createCreditNote } from './facturx/credit-note.js';
+import { PROFILES, getDroppedFields } from './facturx/profiles.js';
+import { checkVatNumber } from './facturx/vat-number.js';
+import { convertTtcPrices, type TtcConversion } from './facturx/ttc.js';
+import { completeInvoice, type CompletedInvoice, type InvoiceInputOptions } from './facturx/input.js';
 import { ChorusClient } from './chorus/client.js';
-import type { Invoice } from './facturx/types.js';
-import type { ChorusConfig } from './chorus/types.js';
+import type { BillingPeriod, FacturXProfile, Invoice, SupportingDocument, ValidationFinding, ValidationResult } from './facturx/types.js';
+import { CHORUS_SYNTAX_CODES, type ChorusConfig } from './chorus/types.js';
 import {
   validateLicenseKey,
   PRO_TOOLS,
@@ -46,6 +57,124 @@ function getChorusClient(): ChorusClient {
   return new ChorusClient(config);
 }
 
+// ── Justificatifs (BG-24) ──────────────────────────────────────────────────
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  '.pdf':  'application/pdf',
+  '.png':  'image/png',
+  '.jpg':  'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.csv':  'text/csv',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ods':  'application/vnd.oasis.opendocument.spreadsheet',
+};
+
+type SupportingDocumentInput = SupportingDocument & {
+  attachment?: Partial<NonNullable<SupportingDocument['attachment']>> & { filePath?: string };
+};
+
+// Charge en Base64 les justificatifs fournis par chemin de fichier
+async function loadSupportingDocuments(invoice: Invoice): Promise<void> {
+  const docs = (invoice.supportingDocuments ?? []) as SupportingDocumentInput[];
+  for (const doc of docs) {
+    const file = doc.attachment;
+    if (!file?.filePath || file.content) continue;
+    const bytes = await readFile(file.filePath);
+    doc.attachment = {
+      content:  bytes.toString('base64'),
+      mimeCode: file.mimeCode ?? ATTACHMENT_MIME_TYPES[extname(file.filePath).toLowerCase()] ?? '',
+      filename: file.filename ?? basename(file.filePath),
+    };
+  }
+}
+
+// ── Préparation des factures saisies ───────────────────────────────────────
+/**
+ * Complète une facture saisie avant génération (voir completeInvoice), après chargement de ses justificatifs.
+ * Lève une erreur si la facture est invalide.
+ */
+async function prepareInvoice(input: Invoice, options: InvoiceInputOptions): Promise<CompletedInvoice> {
+  if (options.priceMode === 'TTC' && !input.lines?.length) throw new Error('Au moins une ligne de facture est requise');
+  await loadSupportingDocuments(input);
+  const prepared = completeInvoice(input, options);
+  const { validation } = prepared;
+  if (!validation.valid) {
+    throw new Error(
+      'Facture invalide :\n' +
+      validation.errors.map(e => `  • ${e}`).join('\n') +
+      (validation.warnings.length
+        ? '\n\nAvertissements :\n' + validation.warnings.map(w => `  ⚠ ${w}`).join('\n')
+        : '')
+    );
+  }
+  return prepared;
+}
+
+// Description d'un justificatif, sans son contenu
+function describeSupportingDocument(doc: SupportingDocument): string {
+  const file = doc.attachment;
+  return `  [${doc.id}]${doc.description ? ` ${doc.description}` : ''}` +
+    (doc.uri ? ` — ${doc.uri}` : '') +
+    (file ? ` — 📎 ${file.filename} (${file.mimeCode}, ${(Buffer.byteLength(file.content, 'base64') / 1024).toFixed(1)} Ko)` : '');
+}
+
+// Constat de validation : règle EN 16931 et chemin de l'élément fautif
+function describeFinding({ rule, path, message }: ValidationFinding): string {
+  return `${rule ? `[${rule}] ` : ''}${message} (${path})`;
+}
+
+// Compte rendu de validation : erreurs bloquantes puis avertissements
+function describeValidation(result: ValidationResult, validMessage: string): string {
+  const errors   = result.findings.filter(f => f.severity === 'error');
+  const warnings = result.findings.filter(f => f.severity === 'warning');
+
+  const lines: string[] = [];
+  if (result.valid) {
+    lines.push(validMessage);
+  } else {
+    lines.push(`❌ ${errors.length} erreur(s) bloquante(s) :`);
+    errors.forEach(f => lines.push(`  • ${describeFinding(f)}`));
+  }
+  if (warnings.length) {
+    lines.push('');
+    lines.push(`⚠ ${warnings.length} avertissement(s) :`);
+    warnings.forEach(f => lines.push(`  ⚠ ${describeFinding(f)}`));
+  }
+  return lines.join('\n');
+}
+
+// Violations du schéma XSD, localisées par ligne et colonne
+function describeSchemaViolations(result: SchemaValidationResult): string {
+  return [
+    `❌ ${result.violations.length} violation(s) du schéma XSD CII du profil ${result.profile} :`,
+    ...result.violations.map(v =>
+      `  • ${v.line ? `ligne ${v.line}${v.column ? `, colonne ${v.column}` : ''} : ` : ''}${v.message}`
+    ),
+  ].join('\n');
+}
+
+function describeBillingPeriod({ startDate, endDate }: BillingPeriod): string {
+  return startDate && endDate ? `du ${startDate} au ${endDate}` : startDate ? `à partir du ${startDate}` : `jusqu'au ${endDate}`;
+}
+
+// Résumé de la conversion des prix TTC en HT
+function describeTtcConversion(conversion: TtcConversion, currency: string): string[] {
+  const lines = [
+    `🧾 Saisie TTC convertie en HT :`,
+    ...conversion.invoice.lines.map(l =>
+      `  [${l.id}] prix unitaire HT ${l.unitPrice} → montant HT ${l.totalAmount.toFixed(2)} ${currency}`
+    ),
+    `  TTC saisi     : ${conversion.enteredTotal.toFixed(2)} ${currency}`,
+    `  TTC recalculé : ${conversion.computedTotal.toFixed(2)} ${currency}`,
+  ];
+  if (conversion.adjustment) {
+    lines.push(
+      `  Écart d'arrondi : ${conversion.adjustment.toFixed(2)} ${currency}` +
+      (conversion.roundingApplied ? ' — reporté en arrondi (BT-114) sur le montant à payer' : ' — non reporté')
+    );
+  }
+  return lines;
+}
+
 function ok(text: string) {
   return { content: [{ type: 'text' as const, text }] };
 }
@@ -54,24 +183,30 @@ function err(message: string) {
 }
 
 // ── Définitions des outils ────────────────────────────────────────────────
+const addressSchema = {
+  type: 'object' as const,
+  required: ['street', 'city', 'postalCode', 'countryCode'],
+  properties: {
+    street:      { type: 'string' },
+    city:        { type: 'string' },
+    postalCode:  { type: 'string' },
+    countryCode: { type: 'string', description: 'ISO 3166-1 alpha-2 (ex: FR)' },
+  },
+};
+
 const partySchema = {
   type: 'object' as const,
   required: ['name', 'address'],
   properties: {
     name:       { type: 'string', description: 'Raison sociale' },
-    id:         { type: 'string', description: 'SIRET (14 chiffres)' },
-    vatNumber:  { type: 'string', description: 'Numéro TVA intracommunautaire (ex: FR12345678901)' },
-    legalId:    { type: 'string', description: 'Identifiant légal (SIREN, RCS…)' },
-    address: {
-      type: 'object',
-      required: ['street', 'city', 'postalCode', 'countryCode'],
-      properties: {
-        street:      { type: 'string' },
-        city:        { type: 'string' },
-        postalCode:  { type: 'string' },
-        countryCode: { type: 'string', description: 'ISO 3166-1 alpha-2 (ex: FR)' },
-      },
-    },
+    id:         { type: 'string', description: 'SIRET (14 chiffres) — émis avec le schéma 0009 pour un acteur français' },
+    idScheme:   { type: 'string', description: 'Optionnel : schéma ISO 6523 de id pour un identifiant non français (ex: 0088 = GLN)' },
+    vatNumber:  { type: 'string', description: 'Numéro TVA intracommunautaire (ex: FR44732829320)' },
+    legalId:    { type: 'string', description: 'Identifiant légal (SIREN, RCS…) — SIREN émis avec le schéma 0002' },
+    legalIdScheme: { type: 'string', description: 'Optionnel : schéma ISO 6523 de legalId' },
+    electronicAddress:       { type: 'string', description: 'Adresse électronique (BT-34 / BT-49), ex : identifiant Peppol, Leitweg-ID — à défaut, contact.email (schéma EM)' },
+    electronicAddressScheme: { type: 'string', description: 'Schéma EAS de electronicAddress (ex: 0009 SIRET, 0088 GLN, 0204 Leitweg-ID, 9930 TVA DE)' },
+    address:    addressSchema,
     contact: {
       type: 'object',
       properties: {
@@ -83,21 +218,56 @@ const partySchema = {
   },
 };
 
+const lineAllowanceChargeSchema = {
+  type: 'object' as const,
+  properties: {
+    amount:      { type: 'number', description: 'Montant HT (sinon calculé : baseAmount × percentage / 100)' },
+    baseAmount:  { type: 'number', description: 'Assiette HT du pourcentage' },
+    percentage:  { type: 'number', description: 'Pourcentage appliqué à l\'assiette (ex: 5 pour 5 %)' },
+    reason:      { type: 'string', description: 'Motif (ex: "Remise commerciale", "Frais de port")' },
+    reasonCode:  { type: 'string', description: 'Code motif (UNTDID 5189 pour les remises, 7161 pour les charges)' },
+  },
+};
+
+const allowanceChargeSchema = {
+  type: 'object' as const,
+  required: ['vatCategory', 'vatRate'],
+  properties: {
+    ...lineAllowanceChargeSchema.properties,
+    vatCategory: { type: 'string', enum: ['S', 'Z', 'E', 'AE', 'K', 'G', 'O'], description: 'Catégorie TVA de la remise/charge' },
+    vatRate:     { type: 'number', description: 'Taux TVA en %' },
+  },
+};
+
+const billingPeriodSchema = {
+  type: 'object' as const,
+  properties: {
+    startDate: { type: 'string', description: 'Début de période (YYYY-MM-DD)' },
+    endDate:   { type: 'string', description: 'Fin de période (YYYY-MM-DD)' },
+  },
+};
+
 const lineSchema = {
   type: 'object' as const,
-  required: ['id', 'description', 'quantity', 'unitCode', 'unitPrice', 'totalAmount', 'vatRate', 'vatCategory'],
+  required: ['id', 'description', 'quantity', 'unitCode', 'unitPrice', 'vatRate', 'vatCategory'],
   properties: {
     id:             { type: 'string', description: 'Identifiant ligne (ex: "1", "2")' },
     description:    { type: 'string', description: 'Désignation du produit/service' },
     quantity:       { type: 'number' },
     unitCode:       { type: 'string', description: 'Code unité UN/ECE (C62=pièce, HUR=heure, KGM=kg, MTR=mètre, DAY=jour)' },
-    unitPrice:      { type: 'number', description: 'Prix unitaire HT' },
-    totalAmount:    { type: 'number', description: 'Montant total ligne HT (quantity × unitPrice)' },
+    unitPrice:      { type: 'number', description: 'Prix unitaire net HT (TTC si priceMode = "TTC")' },
+    grossPrice:     { type: 'number', description: 'Prix unitaire brut HT (prix catalogue avant remise)' },
+    priceDiscount:  { type: 'number', description: 'Remise unitaire sur le prix brut (unitPrice = grossPrice − priceDiscount)' },
+    priceBaseQuantity: { type: 'number', description: 'Quantité de base du prix (ex: 100 pour un prix au cent), défaut 1' },
+    totalAmount:    { type: 'number', description: 'Montant net ligne HT (quantity × unitPrice / priceBaseQuantity − remises + charges) — calculé s\'il est absent' },
     vatRate:        { type: 'number', description: 'Taux TVA en % (ex: 20, 10, 5.5, 0)' },
-    vatCategory:    { type: 'string', enum: ['S', 'Z', 'E', 'K', 'G', 'O'], description: 'S=standard, Z=zéro, E=exonéré, K=intracommunautaire' },
+    vatCategory:    { type: 'string', enum: ['S', 'Z', 'E', 'AE', 'K', 'G', 'O'], description: 'S=standard, Z=zéro, E=exonéré, AE=autoliquidation, K=intracommunautaire, G=export hors UE, O=hors champ' },
     productId:      { type: 'string', description: 'Référence article fournisseur' },
     buyerProductId: { type: 'string', description: 'Référence article acheteur' },
     note:           { type: 'string', description: 'Note/description complémentaire' },
+    billingPeriod:  { ...billingPeriodSchema, description: 'Période facturée sur la ligne, incluse dans celle de la facture (BG-26)' },
+    allowances:     { type: 'array', items: lineAllowanceChargeSchema, description: 'Remises sur la ligne (BG-27)' },
+    charges:        { type: 'array', items: lineAllowanceChargeSchema, description: 'Charges sur la ligne (BG-28)' },
   },
 };
 
@@ -110,15 +280,134 @@ const invoiceInputSchema = {
     date:             { type: 'string', description: 'Date d\'émission (YYYY-MM-DD)' },
     dueDate:          { type: 'string', description: 'Date d\'échéance (YYYY-MM-DD)' },
     deliveryDate:     { type: 'string', description: 'Date de livraison (YYYY-MM-DD)' },
+    billingPeriod:    { ...billingPeriodSchema, description: 'Période de facturation, ex : prestations du 01/09 au 30/09 (BG-14)' },
     currency:         { type: 'string', description: 'Code devise ISO 4217', default: 'EUR' },
-    profile:          { type: 'string', enum: ['MINIMUM', 'BASIC_WL', 'BASIC', 'EN_16931', 'EXTENDED'], description: 'Profil Factur-X', default: 'EN_16931' },
-    seller:           partySchema,
+    taxCurrency:      { type: 'string', description: 'Devise de comptabilisation de la TVA si différente (ex: EUR pour une facture en GBP/CHF)' },
+    exchangeRate:     { type: 'number', description: 'Taux de change : 1 unité de currency = exchangeRate unités de taxCurrency' },
+    taxTotalInTaxCurrency: { type: 'number', description: 'Total TVA en taxCurrency (sinon calculé avec exchangeRate)' },
+    vatRoundingMode:  { type: 'string', enum: ['category', 'line'], description: 'Arrondi de la TVA : par catégorie/taux (défaut, EN 16931) ou ligne par ligne (comme certains ERP)', default: 'category' },
+    profile:          { type: 'string', enum: PROFILES, description: 'Profil Factur-X (MINIMUM et BASIC_WL : totaux d\'en-tête sans détail des lignes), ou CIUS XRECHNUNG / PEPPOL_BIS (contenu EN 16931 et règles nationales)', default: 'EN_16931' },
+    seller: {
+      ...partySchema,
+      properties: {
+        ...partySchema.properties,
+        legalMentions: {
+          type: 'object',
+          description: 'Textes des mentions légales du vendeur, repris en notes codifiées (valeurs légales par défaut sinon)',
+          properties: {
+            latePaymentPenalty:   { type: 'string', description: 'Pénalités de retard (PMD)' },
+            recoveryIndemnity:    { type: 'string', description: 'Indemnité forfaitaire de recouvrement (PMT)' },
+            earlyPaymentDiscount: { type: 'string', description: 'Escompte pour paiement anticipé (AAB)' },
+            companyDetails:       { type: 'string', description: 'Forme juridique, capital, RCS (REG)' },
+          },
+        },
+      },
+    },
     buyer:            partySchema,
+    payee: {
+      type: 'object',
+      required: ['name'],
+      description: 'Bénéficiaire du paiement s\'il diffère du vendeur, ex : factor (BG-10)',
+      properties: {
+        name:          { type: 'string', description: 'Raison sociale du bénéficiaire' },
+        id:            { type: 'string', description: 'Identifiant du bénéficiaire' },
+        idScheme:      { type: 'string', description: 'Optionnel : schéma ISO 6523 de id (ex: 0009 = SIRET, 0088 = GLN)' },
+        legalId:       { type: 'string', description: 'Identifiant légal (SIREN…)' },
+        legalIdScheme: { type: 'string', description: 'Optionnel : schéma ISO 6523 de legalId (ex: 0002 = SIREN)' },
+      },
+    },
+    sellerTaxRepresentative: {
+      type: 'object',
+      required: ['name', 'vatNumber', 'address'],
+      description: 'Représentant fiscal du vendeur (BG-11)',
+      properties: {
+        name:      { type: 'string', description: 'Raison sociale du représentant fiscal' },
+        vatNumber: { type: 'string', description: 'Numéro TVA du représentant fiscal' },
+        address:   addressSchema,
+      },
+    },
+    shipTo: {
+      type: 'object',
+      description: 'Lieu de livraison s\'il diffère de l\'adresse de facturation (BG-13)',
+      properties: {
+        name:       { type: 'string', description: 'Nom du destinataire / du site' },
+        locationId: { type: 'string', description: 'Identifiant du lieu de livraison' },
+        address:    addressSchema,
+      },
+    },
     lines:            { type: 'array', items: lineSchema, minItems: 1 },
+    allowances:       { type: 'array', items: allowanceChargeSchema, description: 'Remises globales (BG-20)' },
+    charges:          { type: 'array', items: allowanceChargeSchema, description: 'Frais globaux : port, emballage… (BG-21)' },
+    vatExemptions: {
+      type: 'array',
+      description: 'Motifs d\'exonération par catégorie TVA — obligatoires pour E, AE, K, G et O',
+      items: {
+        type: 'object',
+        required: ['categoryCode'],
+        properties: {
+          categoryCode: { type: 'string', enum: ['E', 'AE', 'K', 'G', 'O'], description: 'Catégorie TVA concernée' },
+          reason:       { type: 'string', description: 'Motif (ex: "Autoliquidation - art. 283-2 nonies du CGI", "Exonération de TVA, art. 262 ter I du CGI")' },
+          reasonCode:   { type: 'string', description: 'Code VATEX (ex: VATEX-EU-AE, VATEX-EU-IC, VATEX-EU-G, VATEX-FR-FRANCHISE)' },
+        },
+      },
+    },
+    prepaidAmount:    { type: 'number', description: 'Montant TTC déjà payé (acomptes) à déduire du montant à payer' },
+    roundingAmount:   { type: 'number', description: 'Arrondi ajouté au montant à payer (ex: 0.01 ou -0.02)' },
     purchaseOrderRef: { type: 'string', description: 'Référence bon de commande' },
     contractRef:      { type: 'string', description: 'Référence contrat' },
+    precedingInvoices: {
+      type: 'array',
+      description: 'Factures d\'origine corrigées par cet avoir (BG-3)',
+      items: {
+        type: 'object',
+        required: ['number'],
+        properties: {
+          number:    { type: 'string', description: 'Numéro de la facture d\'origine' },
+          issueDate: { type: 'string', description: 'Date d\'émission de la facture d\'origine (YYYY-MM-DD)' },
+        },
+      },
+    },
+    supportingDocuments: {
+      type: 'array',
+      description: 'Justificatifs (feuille de temps, bon de livraison…) référencés ou embarqués dans le XML (BG-24, profil EN 16931)',
+      items: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id:          { type: 'string', description: 'Référence du justificatif' },
+          description: { type: 'string', description: 'Description du justificatif' },
+          uri:         { type: 'string', description: 'URL du document externe' },
+          attachment: {
+            type: 'object',
+            description: 'Document embarqué : contenu Base64 ou chemin de fichier local',
+            properties: {
+              content:  { type: 'string', description: 'Contenu encodé en Base64' },
+              filePath: { type: 'string', description: 'Chemin du fichier à embarquer (alternative à content)' },
+              mimeCode: { type: 'string', enum: [...new Set(Object.values(ATTACHMENT_MIME_TYPES))], description: 'Type MIME (déduit de l\'extension si filePath)' },
+              filename: { type: 'string', description: 'Nom du fichier (défaut : nom de filePath)' },
+            },
+          },
+        },
+      },
+    },
     buyerRef:         { type: 'string', description: 'Référence interne acheteur' },
-    notes:            { type: 'string', description: 'Notes libres sur la facture' },
+    notes: {
+      description: 'Notes sur la facture : texte libre, ou liste de notes avec code sujet UNTDID 4451',
+      oneOf: [
+        { type: 'string' },
+        {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['content'],
+            properties: {
+              content:     { type: 'string', description: 'Texte de la note' },
+              subjectCode: { type: 'string', description: 'PMD=pénalités de retard, PMT=indemnité forfaitaire, AAB=escompte, REG=mentions réglementaires, AAI=information générale' },
+            },
+          },
+        },
+      ],
+    },
     payment: {
       type: 'object',
       properties: {
@@ -132,32 +421,151 @@ const invoiceInputSchema = {
   },
 };
 
+const priceModeSchema = {
+  type: 'string',
+  enum: ['HT', 'TTC'],
+  description:
+    'HT (défaut) : prix et montants hors taxes. TTC : prix unitaires, remises et charges saisis TVA comprise — ' +
+    'le serveur en déduit les prix HT, les montants de ligne et la TVA',
+  default: 'HT',
+};
+
+const addLegalMentionsSchema = {
+  type: 'boolean',
+  description: 'Facture B2B France : ajoute les mentions obligatoires absentes (pénalités, indemnité de 40 €, escompte)',
+  default: true,
+};
+
 const TOOLS: Tool[] = [
   {
     name: 'facturx_generate',
     description:
       'Génère un fichier XML Factur-X valide (norme EN 16931 / UE) à partir des données de facturation. ' +
-      'Calcule automatiquement les totaux HT, TVA et TTC. Retourne le XML et un résumé des montants.',
-    inputSchema: invoiceInputSchema,
+      'Calcule automatiquement les totaux HT, TVA et TTC. Retourne le XML et un résumé des montants. ' +
+      'Accepte des prix TTC avec priceMode = "TTC". Produit au choix du CII (Factur-X) ou de l\'UBL 2.1 avec outputSyntax.',
+    inputSchema: {
+      ...invoiceInputSchema,
+      properties: {
+        ...invoiceInputSchema.properties,
+        priceMode: priceModeSchema,
+        addLegalMentions: addLegalMentionsSchema,
+        outputSyntax: {
+          type: 'string',
+          enum: ['CII', 'UBL'],
+          description: 'CII (défaut) : XML Factur-X. UBL : facture ou avoir UBL 2.1 (EN 16931), sans notion de profil',
+          default: 'CII',
+        },
+        strict: {
+          type: 'boolean',
+          description: 'Syntaxe CII : valide le XML produit contre le schéma XSD du profil et refuse de le retourner s\'il n\'est pas conforme',
+          default: false,
+        },
+      },
+    },
   },
   {
     name: 'facturx_validate',
     description:
       'Valide les données d\'une facture avant génération : vérifie les champs obligatoires, ' +
-      'les formats (dates, codes pays, TVA), la cohérence des montants lignes. ' +
-      'Retourne les erreurs bloquantes et les avertissements.',
-    inputSchema: invoiceInputSchema,
+      'les formats (dates, codes pays, TVA) et les règles métier EN 16931 (BR-*, BR-CO-*, règles par catégorie de TVA). ' +
+      'Retourne les erreurs bloquantes et les avertissements, avec l\'identifiant de la règle et le chemin du champ en cause. ' +
+      'Les données sont complétées comme par facturx_generate (montants de ligne, prix TTC, mentions légales).',
+    inputSchema: {
+      ...invoiceInputSchema,
+      properties: {
+        ...invoiceInputSchema.properties,
+        priceMode: priceModeSchema,
+        addLegalMentions: addLegalMentionsSchema,
+      },
+    },
+  },
+  {
+    name: 'facturx_validate_xml',
+    description:
+      'Valide un XML Factur-X (CII) tel que reçu, sans conversion préalable : éléments obligatoires, ' +
+      'listes de codes (devises, pays, types de document, catégories de TVA…), et cohérence des montants déclarés ' +
+      'entre lignes, ventilation TVA et totaux (règles EN 16931). Chaque constat est localisé par son XPath.',
+    inputSchema: {
+      type: 'object',
+      required: ['xmlContent'],
+      properties: {
+        xmlContent: { type: 'string', description: 'Contenu XML Factur-X à valider' },
+      },
+    },
+  },
+  {
+    name: 'facturx_validate_pdf',
+    description:
+      'Extrait le XML Factur-X embarqué dans un PDF et le valide comme facturx_validate_xml.',
+    inputSchema: {
+      type: 'object',
+      required: ['pdfPath'],
+      properties: {
+        pdfPath: { type: 'string', description: 'Chemin vers le fichier PDF Factur-X' },
+      },
+    },
+  },
+  {
+    name: 'facturx_validate_schema',
+    description:
+      'Valide hors ligne la structure d\'un XML Factur-X contre le schéma XSD CII D16B de son profil (éléments, ordre, types ; listes de codes non contrôlées, voir facturx_validate_xml). ' +
+      'Chaque violation est localisée par sa ligne et sa colonne. Le profil est déduit de l\'identifiant de guideline (BT-24) à défaut d\'être précisé.',
+    inputSchema: {
+      type: 'object',
+      required: ['xmlContent'],
+      properties: {
+        xmlContent: { type: 'string', description: 'Contenu XML Factur-X à valider' },
+        profile:    { type: 'string', enum: PROFILES, description: 'Optionnel : profil dont le schéma s\'applique' },
+      },
+    },
   },
   {
     name: 'facturx_parse',
     description:
-      'Parse un fichier XML Factur-X et extrait toutes les données de facturation sous forme JSON structuré. ' +
-      'Compatible avec les profils MINIMUM, BASIC, EN 16931 et EXTENDED.',
+      'Parse un fichier XML Factur-X (CII) ou UBL 2.1 et extrait toutes les données de facturation sous forme JSON structuré. ' +
+      'La syntaxe est détectée automatiquement. Compatible avec les profils MINIMUM, BASIC, EN 16931 et EXTENDED, XRechnung et Peppol BIS, ' +
+      'ainsi qu\'avec ZUGFeRD 1.0 et 2.x. Les commandes Order-X sont identifiées mais non analysées.',
+    inputSchema: {
+      type: 'object',
+      required: ['xmlContent'],
+      properties: {
+        xmlContent: { type: 'string', description: 'Contenu XML Factur-X (CII) ou UBL à parser' },
+        extractDir: { type: 'string', description: 'Optionnel : dossier où enregistrer les justificatifs embarqués' },
+      },
+    },
+  },
+  {
+    name: 'facturx_convert',
+    description:
+      'Convertit une facture ou un avoir entre les syntaxes UBL 2.1 et CII (Factur-X). ' +
+      'La syntaxe source est détectée automatiquement ; la cible est par défaut l\'autre syntaxe. ' +
+      'Un document ZUGFeRD 1.0 est converti par défaut en Factur-X (CII). ' +
+      'Les documents sans lignes (MINIMUM, BASIC WL) ne sont pas convertis.',
     inputSchema: {
       type: 'object',
       required: ['xmlContent'],
       properties: {
-        xmlContent: { type: 'string', description: 'Contenu XML Factur-X à parser' },
+        xmlContent:   { type: 'string', description: 'Contenu XML CII ou UBL à convertir' },
+        targetSyntax: { type: 'string', enum: ['CII', 'UBL'], description: 'Syntaxe cible (défaut : l\'autre syntaxe que la source, CII depuis ZUGFeRD 1.0)' },
+        profile:      { type: 'string', enum: PROFILES, description: 'Cible CII : profil Factur-X (défaut : profil de la source — EN_16931 depuis UBL, sauf XRechnung ou Peppol BIS)' },
+      },
+    },
+  },
+  {
+    name: 'facturx_create_credit_note',
+    description:
+      'Crée un avoir Factur-X (type 381) à partir du XML d\'une facture précédemment générée. ' +
+      'Avoir total par défaut, ou partiel en sélectionnant les lignes à créditer. ' +
+      'L\'avoir référence automatiquement la facture d\'origine (numéro et date).',
+    inputSchema: {
+      type: 'object',
+      required: ['xmlContent', 'number', 'date'],
+      properties: {
+        xmlContent: { type: 'string', description: 'Contenu XML Factur-X de la facture d\'origine' },
+        number:     { type: 'string', description: 'Numéro de l\'avoir' },
+        date:       { type: 'string', description: 'Date d\'émission de l\'avoir (YYYY-MM-DD)' },
+        lineIds:    { type: 'array', items: { type: 'string' }, description: 'Identifiants des lignes à créditer (toutes si absent)' },
+        reason:     { type: 'string', description: 'Motif de l\'avoir (ajouté en note)' },
       },
     },
   },
@@ -165,35 +573,58 @@ const TOOLS: Tool[] = [
     name: 'facturx_compute_totals',
     description:
       'Calcule les totaux d\'une facture (HT par ligne, sous-total HT, TVA ventilée par taux, TTC, montant à payer). ' +
-      'Utile pour vérifier les montants avant génération.',
+      'Utile pour vérifier les montants avant génération. Accepte des prix TTC avec priceMode = "TTC".',
     inputSchema: {
       type: 'object',
       required: ['lines', 'currency'],
       properties: {
         currency: { type: 'string', description: 'Code devise (ex: EUR)', default: 'EUR' },
         lines: { type: 'array', items: lineSchema },
+        vatRoundingMode: { type: 'string', enum: ['category', 'line'], description: 'Arrondi de la TVA : par catégorie/taux (défaut) ou ligne par ligne', default: 'category' },
+        priceMode: priceModeSchema,
+      },
+    },
+  },
+  {
+    name: 'facturx_check_vat_number',
+    description:
+      'Vérifie hors ligne un numéro de TVA intracommunautaire (27 États membres) : format national et clé de contrôle. ' +
+      'Retourne le numéro normalisé et le pays. Ne vérifie pas l\'existence du numéro auprès de VIES.',
+    inputSchema: {
+      type: 'object',
+      required: ['vatNumber'],
+      properties: {
+        vatNumber: { type: 'string', description: 'Numéro de TVA avec préfixe pays (ex: FR44732829320, DE136695976)' },
       },
     },
   },
   {
     name: 'facturx_create_pdf',
     description:
-      'Crée un PDF avec le XML Factur-X embarqué en pièce jointe (format requis par la norme). ' +
-      'Optionnellement, peut intégrer le XML dans un PDF existant. Sauvegarde le résultat sur disque.',
+      'Crée un PDF/A-3b avec le XML Factur-X embarqué en pièce jointe (format requis par la norme) : ' +
+      'métadonnées XMP du profil, OutputIntent sRGB, polices incorporées. ' +
+      'Accepte le XML ou les données de la facture (invoice, XML généré) ; sans PDF source, la facture est mise en page ' +
+      '(vendeur, acheteur, lignes, TVA, totaux, paiement, mentions). ' +
+      'Optionnellement, peut convertir un PDF existant et signale ce qui l\'empêche d\'être conforme PDF/A. Sauvegarde le résultat sur disque.',
     inputSchema: {
       type: 'object',
-      required: ['xmlContent', 'outputPath'],
+      required: ['outputPath'],
       properties: {
-        xmlContent:    { type: 'string', description: 'Contenu XML Factur-X' },
+        xmlContent:    { type: 'string', description: 'Contenu XML Factur-X (ou invoice)' },
+        invoice:       { ...invoiceInputSchema, description: 'Données de la facture, comme pour facturx_generate (ou xmlContent)' },
+        priceMode:     { ...priceModeSchema, description: `Avec invoice : ${priceModeSchema.description}` },
+        addLegalMentions: { ...addLegalMentionsSchema, description: `Avec invoice : ${addLegalMentionsSchema.description}` },
         outputPath:    { type: 'string', description: 'Chemin de sortie du PDF (ex: /tmp/facture.pdf)' },
-        sourcePdfPath: { type: 'string', description: 'Optionnel : chemin d\'un PDF existant à enrichir avec le XML' },
+        sourcePdfPath: { type: 'string', description: 'Optionnel : chemin d\'un PDF existant à convertir en PDF/A-3b avec le XML' },
+        embedAttachments: { type: 'boolean', description: 'Joindre aussi au PDF les justificatifs embarqués dans le XML (BG-24)', default: false },
+        strict:        { type: 'boolean', description: 'Refuse de créer le PDF si le XML n\'est pas conforme au schéma XSD de son profil ou si le PDF source empêche la conformité PDF/A-3b', default: false },
       },
     },
   },
   {
     name: 'facturx_extract_from_pdf',
     description:
-      'Extrait le XML Factur-X embarqué dans un PDF. Retourne le contenu XML.',
+      'Extrait le XML Factur-X embarqué dans un PDF (ainsi que ZUGFeRD 1.0 / 2.x ou Order-X). Retourne la norme reconnue et le contenu XML.',
     inputSchema: {
       type: 'object',
       required: ['pdfPath'],
@@ -213,7 +644,11 @@ const TOOLS: Tool[] = [
       properties: {
         xmlContent: { type: 'string', description: 'Contenu XML de la facture' },
         filename:   { type: 'string', description: 'Nom du fichier (ex: facture-2024-001.xml)' },
-        syntax:     { type: 'string', description: 'Syntaxe du flux (défaut: EN16931)', default: 'EN16931' },
+        syntax:     {
+          type: 'string',
+          description:
+            `Code syntaxe Chorus Pro du flux. Déduit du XML à défaut : ${CHORUS_SYNTAX_CODES.CII} (CII) ou ${CHORUS_SYNTAX_CODES.UBL} (UBL)`,
+        },
       },
     },
   },
@@ -301,47 +736,65 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
-        const invoice = args as unknown as Invoice;
-        if (!invoice.typeCode) invoice.typeCode = '380';
-        if (!invoice.profile)  invoice.profile  = 'EN_16931';
+        const { priceMode, addLegalMentions, outputSyntax = 'CII', strict = false, ...invoiceArgs } = args as unknown as Invoice & InvoiceInputOptions & {
+          outputSyntax?: InvoiceSyntax;
+          strict?: boolean;
+        };
+        if (outputSyntax !== 'CII' && outputSyntax !== 'UBL') return err(`outputSyntax inconnue : ${outputSyntax} (CII ou UBL)`);
+        const ubl = outputSyntax === 'UBL';
+        const { invoice, validation, ttc, addedMentions } = await prepareInvoice(invoiceArgs, { priceMode, addLegalMentions });
 
-        const validation = validateInvoice(invoice);
-        if (!validation.valid) {
-          return err(
-            'Facture invalide :\n' +
-            validation.errors.map(e => `  • ${e}`).join('\n') +
-            (validation.warnings.length
-              ? '\n\nAvertissements :\n' + validation.warnings.map(w => `  ⚠ ${w}`).join('\n')
-              : '')
-          );
+        const xml = ubl ? generateUbl(invoice) : generateFacturX(invoice);
+        if (strict && !ubl) {
+          const schema = await validateXmlSchema(xml, invoice.profile);
+          if (!schema.valid) return err('XML généré non conforme au schéma XSD :\n' + describeSchemaViolations(schema));
         }
-
-        const xml = generateFacturX(invoice);
         const totals = calculateTotals(invoice);
+        const dropped = ubl ? [] : getDroppedFields(invoice);
 
         // Incrémenter le compteur journalier (tier gratuit uniquement)
         if (!currentLicense.valid) await incrementFreeUsage();
 
         const summary = [
-          `✅ Facture Factur-X générée avec succès`,
+          !ubl ? `✅ Facture Factur-X générée avec succès`
+            : invoice.typeCode === '381' ? `✅ Avoir UBL 2.1 généré avec succès` : `✅ Facture UBL 2.1 générée avec succès`,
           ``,
           `📄 Référence : ${invoice.number}`,
           `📅 Date      : ${invoice.date}${invoice.dueDate ? ` → échéance ${invoice.dueDate}` : ''}`,
+          ...(invoice.billingPeriod ? [`🗓 Période   : ${describeBillingPeriod(invoice.billingPeriod)}`] : []),
           `🏢 Vendeur   : ${invoice.seller.name}`,
           `🏢 Acheteur  : ${invoice.buyer.name}`,
           ``,
+          ...(ttc ? [...describeTtcConversion(ttc, invoice.currency), ``] : []),
+          ...(addedMentions.length
+            ? [`⚖ Mentions légales ajoutées :`, ...addedMentions.map(n => `  [${n.subjectCode}] ${n.content}`), ``]
+            : []),
           `💰 Totaux :`,
           `  Sous-total HT   : ${totals.lineTotalAmount.toFixed(2)} ${invoice.currency}`,
+          ...(totals.allowanceTotalAmount ? [`  Remises         : -${totals.allowanceTotalAmount.toFixed(2)} ${invoice.currency}`] : []),
+          ...(totals.chargeTotalAmount ? [`  Frais           : +${totals.chargeTotalAmount.toFixed(2)} ${invoice.currency}`] : []),
+          ...(totals.allowanceTotalAmount || totals.chargeTotalAmount
+            ? [`  Total HT        : ${totals.taxBasisTotalAmount.toFixed(2)} ${invoice.currency}`]
+            : []),
           ...totals.vatSummaries.map(v =>
             `  TVA ${v.rate}%         : ${v.taxAmount.toFixed(2)} ${invoice.currency} (base ${v.taxableAmount.toFixed(2)})`
           ),
+          ...(totals.taxTotalAmountInTaxCurrency !== undefined
+            ? [`  TVA en ${invoice.taxCurrency}      : ${totals.taxTotalAmountInTaxCurrency.toFixed(2)} ${invoice.taxCurrency}`]
+            : []),
           `  Total TTC       : ${totals.grandTotalAmount.toFixed(2)} ${invoice.currency}`,
+          ...(totals.prepaidAmount ? [`  Déjà payé       : -${totals.prepaidAmount.toFixed(2)} ${invoice.currency}`] : []),
+          ...(totals.roundingAmount ? [`  Arrondi         : ${totals.roundingAmount.toFixed(2)} ${invoice.currency}`] : []),
           `  Montant à payer : ${totals.duePayableAmount.toFixed(2)} ${invoice.currency}`,
           ``,
           validation.warnings.length
             ? `⚠ Avertissements :\n${validation.warnings.map(w => `  ${w}`).join('\n')}\n`
             : '',
-          `--- XML Factur-X ---`,
+          strict && !ubl ? `✅ Conforme au schéma XSD CII du profil ${invoice.profile}\n` : '',
+          dropped.length
+            ? `ℹ Champs non émis (hors périmètre du profil ${invoice.profile}) :\n${dropped.map(d => `  • ${d}`).join('\n')}\n`
+            : '',
+          ubl ? `--- XML UBL 2.1 ---` : `--- XML Factur-X ---`,
           xml,
         ].join('\n');
 
@@ -350,38 +803,76 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       // ── facturx_validate ───────────────────────────────────────────────
       case 'facturx_validate': {
-        const invoice = args as unknown as Invoice;
-        const result = validateInvoice(invoice);
+        const { priceMode, addLegalMentions, ...invoice } = args as unknown as Invoice & InvoiceInputOptions;
+        await loadSupportingDocuments(invoice);
+        // Facture complétée comme par facturx_generate : les mêmes données y sont acceptées
+        const { validation: result } = completeInvoice(invoice, { priceMode, addLegalMentions });
+        return ok(describeValidation(result, '✅ Facture valide — prête pour la génération Factur-X'));
+      }
 
-        const lines: string[] = [];
-        if (result.valid) {
-          lines.push('✅ Facture valide — prête pour la génération Factur-X');
-        } else {
-          lines.push(`❌ ${result.errors.length} erreur(s) bloquante(s) :`);
-          result.errors.forEach(e => lines.push(`  • ${e}`));
-        }
-        if (result.warnings.length) {
-          lines.push('');
-          lines.push(`⚠ ${result.warnings.length} avertissement(s) :`);
-          result.warnings.forEach(w => lines.push(`  ⚠ ${w}`));
-        }
+      // ── facturx_validate_xml ───────────────────────────────────────────
+      case 'facturx_validate_xml': {
+        const { xmlContent } = args as { xmlContent: string };
+        if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
 
-        return ok(lines.join('\n'));
+        const result = validateFacturXXml(xmlContent);
+        return ok(describeValidation(result, '✅ XML Factur-X conforme aux contrôles EN 16931'));
+      }
+
+      // ── facturx_validate_pdf ───────────────────────────────────────────
+      case 'facturx_validate_pdf': {
+        const { pdfPath } = args as { pdfPath: string };
+        if (!pdfPath?.trim()) return err('pdfPath est requis');
+
+        const xml = await extractXmlFromPdf(pdfPath);
+        if (!xml) return err('Aucun XML Factur-X trouvé dans ce PDF.');
+
+        const result = validateFacturXXml(xml);
+        return ok(`📄 ${basename(pdfPath)}\n\n` + describeValidation(result, '✅ XML Factur-X embarqué conforme aux contrôles EN 16931'));
+      }
+
+      // ── facturx_validate_schema ────────────────────────────────────────
+      case 'facturx_validate_schema': {
+        const { xmlContent, profile } = args as { xmlContent: string; profile?: FacturXProfile };
+        if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
+
+        const result = await validateXmlSchema(xmlContent, profile);
+        return ok(result.valid
+          ? `✅ XML conforme au schéma XSD CII du profil ${result.profile}`
+          : describeSchemaViolations(result));
       }
 
       // ── facturx_parse ──────────────────────────────────────────────────
       case 'facturx_parse': {
-        const { xmlContent } = args as { xmlContent: string };
+        const { xmlContent, extractDir } = args as { xmlContent: string; extractDir?: string };
         if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
 
-        const invoice = parseFacturXXml(xmlContent);
-        const totals  = calculateTotals(invoice);
+        const document = identifyDocument(xmlContent);
+        if (document.order) {
+          return err(`Document ${document.standard} : ce n'est pas une facture. facturx_parse n'analyse que les factures et avoirs.`);
+        }
+        const invoice = parseInvoiceXml(xmlContent);
+        // Totaux déclarés par le document : seuls connus en MINIMUM / BASIC WL, sans détail des lignes
+        const totals  = parseInvoiceTotals(xmlContent);
+        const documents = invoice.supportingDocuments ?? [];
+
+        const extracted: string[] = [];
+        if (extractDir) {
+          await mkdir(extractDir, { recursive: true });
+          for (const doc of documents) {
+            if (!doc.attachment) continue;
+            const path = join(extractDir, basename(doc.attachment.filename || doc.id));
+            await writeFile(path, Buffer.from(doc.attachment.content, 'base64'));
+            extracted.push(path);
+          }
+        }
 
         const lines = [
-          `✅ XML Factur-X parsé avec succès`,
+          `✅ XML ${document.standard} parsé avec succès`,
           ``,
           `📄 Numéro    : ${invoice.number}`,
           `📅 Date      : ${invoice.date}${invoice.dueDate ? ` (échéance: ${invoice.dueDate})` : ''}`,
+          ...(invoice.billingPeriod ? [`🗓 Période   : ${describeBillingPeriod(invoice.billingPeriod)}`] : []),
           `💱 Devise    : ${invoice.currency}`,
           `📋 Profil    : ${invoice.profile}`,
           ``,
@@ -394,32 +885,165 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           ),
           ``,
           `💰 Totaux :`,
-          `  HT  : ${totals.lineTotalAmount.toFixed(2)} ${invoice.currency}`,
-          `  TVA : ${totals.taxTotalAmount.toFixed(2)} ${invoice.currency}`,
+          `  HT  : ${totals.taxBasisTotalAmount.toFixed(2)} ${invoice.currency}`,
+          `  TVA : ${totals.taxTotalAmount.toFixed(2)} ${invoice.currency}` +
+            (totals.taxTotalAmountInTaxCurrency !== undefined
+              ? ` (${totals.taxTotalAmountInTaxCurrency.toFixed(2)} ${invoice.taxCurrency})`
+              : ''),
           `  TTC : ${totals.grandTotalAmount.toFixed(2)} ${invoice.currency}`,
+          ...(totals.prepaidAmount ? [`  Déjà payé : ${totals.prepaidAmount.toFixed(2)} ${invoice.currency}`] : []),
+          `  À payer   : ${totals.duePayableAmount.toFixed(2)} ${invoice.currency}`,
           ``,
+          ...(documents.length
+            ? [`📎 ${documents.length} justificatif(s) :`, ...documents.map(describeSupportingDocument), ``]
+            : []),
+          ...(extracted.length
+            ? [`💾 Justificatifs extraits :`, ...extracted.map(p => `  ${p}`), ``]
+            : []),
           `--- Données JSON ---`,
-          JSON.stringify(invoice, null, 2),
+          // Contenu Base64 des justificatifs omis (pas celui des notes) : utiliser extractDir pour les récupérer
+          JSON.stringify(invoice, function (key, value) {
+            return key === 'content' && typeof value === 'string' && 'mimeCode' in this
+              ? `[Base64, ${value.length} caractères]` : value;
+          }, 2),
         ];
 
         return ok(lines.join('\n'));
       }
 
+      // ── facturx_convert ────────────────────────────────────────────────
+      case 'facturx_convert': {
+        const { xmlContent, targetSyntax, profile } = args as {
+          xmlContent: string;
+          targetSyntax?: InvoiceSyntax;
+          profile?: FacturXProfile;
+        };
+        if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
+
+        const source = detectSyntax(xmlContent);
+        const document = identifyDocument(xmlContent);
+        if (document.order) return err(`Document ${document.standard} : seules les factures et avoirs peuvent être convertis`);
+        // ZUGFeRD 1.0 : converti par défaut en Factur-X (CII D16B)
+        const target = targetSyntax ?? (source === 'UBL' || document.standard === 'ZUGFeRD 1.0' ? 'CII' : 'UBL');
+        if (target !== 'CII' && target !== 'UBL') return err(`targetSyntax inconnue : ${target} (CII ou UBL)`);
+
+        if (!currentLicense.valid) {
+          const quota = await checkFreeQuota();
+          if (!quota.allowed) {
+            return {
+              content: [{ type: 'text' as const, text: buildQuotaMessage(quota.used, quota.limit) }],
+              isError: true,
+            };
+          }
+        }
+
+        let invoice = parseInvoiceXml(xmlContent);
+        // MINIMUM / BASIC WL : sans lignes, les montants du document cible ne pourraient être recalculés
+        if (!invoice.lines.length) {
+          return err(
+            `Document ${invoice.number} (profil ${invoice.profile}) sans lignes de facture : conversion impossible sans perdre ses montants, ` +
+            'fournir un document BASIC ou supérieur'
+          );
+        }
+        if (profile) invoice = { ...invoice, profile };
+        const validation = validateInvoice(invoice);
+        const xml = target === 'UBL' ? generateUbl(invoice) : generateFacturX(invoice);
+        const dropped = target === 'CII' ? getDroppedFields(invoice) : [];
+
+        if (!currentLicense.valid) await incrementFreeUsage();
+
+        const summary = [
+          `✅ Document ${invoice.number} converti : ${document.standard} → ${target}${target === 'CII' ? ` (profil ${invoice.profile})` : ''}`,
+          ``,
+          ...(validation.valid ? [] : [`⚠ Document source non conforme EN 16931 :`, ...validation.errors.map(e => `  • ${e}`), ``]),
+          ...(dropped.length
+            ? [`ℹ Champs non émis (hors périmètre du profil ${invoice.profile}) :`, ...dropped.map(d => `  • ${d}`), ``]
+            : []),
+          target === 'UBL' ? `--- XML UBL 2.1 ---` : `--- XML Factur-X ---`,
+          xml,
+        ].join('\n');
+
+        return ok(summary);
+      }
+
+      // ── facturx_create_credit_note ─────────────────────────────────────
+      case 'facturx_create_credit_note': {
+        const { xmlContent, number, date, lineIds, reason } = args as {
+          xmlContent: string;
+          number: string;
+          date: string;
+          lineIds?: string[];
+          reason?: string;
+        };
+        if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
+
+        if (!currentLicense.valid) {
+          const quota = await checkFreeQuota();
+          if (!quota.allowed) {
+            return {
+              content: [{ type: 'text' as const, text: buildQuotaMessage(quota.used, quota.limit) }],
+              isError: true,
+            };
+          }
+        }
+
+        const original = parseFacturXXml(xmlContent);
+        const creditNote = createCreditNote(original, { number, date, lineIds, reason });
+
+        const validation = validateInvoice(creditNote);
+        if (!validation.valid) {
+          return err('Avoir invalide :\n' + validation.errors.map(e => `  • ${e}`).join('\n'));
+        }
+
+        const xml = generateFacturX(creditNote);
+        const totals = calculateTotals(creditNote);
+
+        if (!currentLicense.valid) await incrementFreeUsage();
+
+        const summary = [
+          `✅ Avoir Factur-X généré avec succès`,
+          ``,
+          `📄 Avoir     : ${creditNote.number} du ${creditNote.date}`,
+          `🔗 Facture   : ${original.number} du ${original.date}`,
+          `📦 Lignes    : ${creditNote.lines.length}/${original.lines.length} (${lineIds?.length ? 'avoir partiel' : 'avoir total'})`,
+          ``,
+          `💰 Totaux :`,
+          `  Total HT        : ${totals.taxBasisTotalAmount.toFixed(2)} ${creditNote.currency}`,
+          `  Total TVA       : ${totals.taxTotalAmount.toFixed(2)} ${creditNote.currency}`,
+          `  Total TTC       : ${totals.grandTotalAmount.toFixed(2)} ${creditNote.currency}`,
+          ``,
+          validation.warnings.length
+            ? `⚠ Avertissements :\n${validation.warnings.map(w => `  ${w}`).join('\n')}\n`
+            : '',
+          `--- XML Factur-X ---`,
+          xml,
+        ].join('\n');
+
+        return ok(summary);
+      }
+
       // ── facturx_compute_totals ─────────────────────────────────────────
       case 'facturx_compute_totals': {
-        const { lines, currency = 'EUR' } = args as {
+        const { lines: inputLines, currency = 'EUR', vatRoundingMode, priceMode } = args as {
           lines: Invoice['lines'];
           currency: string;
+          vatRoundingMode?: Invoice['vatRoundingMode'];
+          priceMode?: 'HT' | 'TTC';
         };
-        if (!lines?.length) return err('Au moins une ligne est requise');
+        if (!inputLines?.length) return err('Au moins une ligne est requise');
 
-        const fakeInvoice: Invoice = {
+        let fakeInvoice: Invoice = {
           number: 'PREVIEW', typeCode: '380', date: '2024-01-01',
-          currency, profile: 'EN_16931',
+          currency, profile: 'EN_16931', vatRoundingMode,
           seller: { name: '-', address: { street: '-', city: '-', postalCode: '-', countryCode: 'FR' } },
           buyer:  { name: '-', address: { street: '-', city: '-', postalCode: '-', countryCode: 'FR' } },
-          lines,
+          lines: inputLines,
         };
+        const ttc = priceMode === 'TTC' ? convertTtcPrices(fakeInvoice) : undefined;
+        fakeInvoice = ttc ? ttc.invoice : withLineNetAmounts(fakeInvoice);
+        const { lines } = fakeInvoice;
+        const incomplete = lines.find(l => typeof l.totalAmount !== 'number' || typeof l.vatRate !== 'number');
+        if (incomplete) return err(`Ligne ${incomplete.id ?? '?'} : quantité, prix unitaire et taux de TVA requis`);
         const totals = calculateTotals(fakeInvoice);
 
         const result = [
@@ -439,29 +1063,87 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           `  Total TVA       : ${totals.taxTotalAmount.toFixed(2)} ${currency}`,
           `  ─────────────────────────────`,
           `  Total TTC       : ${totals.grandTotalAmount.toFixed(2)} ${currency}`,
+          ...(totals.roundingAmount
+            ? [
+                `  Arrondi         : ${totals.roundingAmount.toFixed(2)} ${currency}`,
+                `  Montant à payer : ${totals.duePayableAmount.toFixed(2)} ${currency}`,
+              ]
+            : []),
+          ...(ttc ? [``, ...describeTtcConversion(ttc, currency)] : []),
         ];
 
         return ok(result.join('\n'));
       }
 
+      // ── facturx_check_vat_number ───────────────────────────────────────
+      case 'facturx_check_vat_number': {
+        const { vatNumber } = args as { vatNumber: string };
+        if (!vatNumber?.trim()) return err('vatNumber est requis');
+
+        const check = checkVatNumber(vatNumber);
+        const checksum =
+          check.checksumValid === undefined ? (check.formatValid ? 'non vérifiable pour ce format' : '—')
+          : check.checksumValid ? 'valide' : 'invalide';
+
+        return ok([
+          check.valid ? `✅ Numéro de TVA valide` : `❌ Numéro de TVA invalide : ${check.error}`,
+          ``,
+          `🔢 Numéro normalisé : ${check.normalized}`,
+          `🌍 Pays             : ${check.country ?? '—'} (${check.countryCode})`,
+          `📐 Format           : ${check.formatValid ? 'valide' : 'invalide'}`,
+          `🔑 Clé de contrôle  : ${checksum}`,
+          ``,
+          `ℹ Vérification algorithmique uniquement : l'existence du numéro n'est pas contrôlée (VIES).`,
+        ].join('\n'));
+      }
+
       // ── facturx_create_pdf ─────────────────────────────────────────────
       case 'facturx_create_pdf': {
-        const { xmlContent, outputPath, sourcePdfPath } = args as {
-          xmlContent: string;
+        const { outputPath, sourcePdfPath, embedAttachments, strict, priceMode, addLegalMentions, ...input } = args as {
+          xmlContent?: string;
+          invoice?: Invoice;
           outputPath: string;
           sourcePdfPath?: string;
+          embedAttachments?: boolean;
+          strict?: boolean;
+          priceMode?: InvoiceInputOptions['priceMode'];
+          addLegalMentions?: boolean;
         };
-        if (!xmlContent?.trim()) return err('xmlContent ne peut pas être vide');
+        let { xmlContent, invoice } = input;
         if (!outputPath?.trim()) return err('outputPath est requis');
+        if (xmlContent?.trim() && invoice) return err('Fournir xmlContent ou invoice, pas les deux');
+
+        // Données de facture : complétées et validées comme pour facturx_generate, puis converties en XML
+        if (invoice) {
+          ({ invoice } = await prepareInvoice(invoice, { priceMode, addLegalMentions }));
+          xmlContent = generateFacturX(invoice);
+        }
+        if (!xmlContent?.trim()) return err('xmlContent ou invoice est requis');
 
-        const pdfBytes = await createFacturXPdf(xmlContent, sourcePdfPath);
-        await writeFile(outputPath, pdfBytes);
+        if (strict) {
+          const schema = await validateXmlSchema(xmlContent);
+          if (!schema.valid) return err('PDF non créé, XML non conforme au schéma XSD :\n' + describeSchemaViolations(schema));
+        }
+
+        const attachments = embedAttachments
+          ? (parseFacturXXml(xmlContent).supportingDocuments ?? []).flatMap(d => d.attachment ? [d.attachment] : [])
+          : [];
+        const { pdf, conformanceLevel, pdfaBlockers } = await createFacturXPdf(xmlContent, sourcePdfPath, attachments, invoice);
+        const blockers = pdfaBlockers.map(b => `  • ${b}`).join('\n');
+        if (strict && pdfaBlockers.length) {
+          return err(`PDF non créé, le PDF source empêche la conformité PDF/A-3b :\n${blockers}`);
+        }
+        await writeFile(outputPath, pdf);
 
         return ok(
           `✅ PDF Factur-X créé avec succès\n` +
           `📄 Fichier : ${outputPath}\n` +
-          `📎 XML Factur-X embarqué : factur-x.xml\n` +
-          `📦 Taille : ${(pdfBytes.length / 1024).toFixed(1)} Ko`
+          `📎 XML Factur-X embarqué : factur-x.xml (niveau ${conformanceLevel})\n` +
+          (attachments.length ? `📎 Justificatifs joints : ${attachments.map(a => a.filename).join(', ')}\n` : '') +
+          `📦 Taille : ${(pdf.length / 1024).toFixed(1)} Ko\n` +
+          (pdfaBlockers.length
+            ? `⚠ PDF/A-3b non conforme (identification PDF/A non déclarée), le PDF source contient :\n${blockers}`
+            : `🗄 PDF/A-3b : métadonnées XMP Factur-X, OutputIntent sRGB, polices incorporées`)
         );
       }
 
@@ -478,7 +1160,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           );
         }
 
-        return ok(`✅ XML Factur-X extrait avec succès\n\n${xml}`);
+        const document = identifyDocument(xml);
+        const lines = [
+          `✅ XML ${document.standard} extrait avec succès`,
+          ...(document.guidelineId
+            ? [`📋 Spécification : ${document.guidelineId}${document.profile ? ` (profil ${document.profile})` : ''}`]
+            : []),
+          ...(document.order ? [`ℹ Document de commande : ce n'est pas une facture`] : []),
+          ...(document.standard === 'ZUGFeRD 1.0' ? [`ℹ Format ZUGFeRD 1.0 : facturx_convert le convertit en Factur-X`] : []),
+          ``,
+          xml,
+        ];
+        return ok(lines.join('\n'));
       }
 
       // ── chorus_submit ──────────────────────────────────────────────────
@@ -492,7 +1185,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         if (!filename?.trim())   return err('filename est requis');
 
         const chorus = getChorusClient();
-        const result = await chorus.uploadInvoice(xmlContent, filename, syntax);
+        const result = await chorus.uploadInvoice(xmlContent, filename, syntax ?? CHORUS_SYNTAX_CODES[detectSyntax(xmlContent)]);
 
         const lines = [
           `✅ Facture soumise sur Chorus Pro`,
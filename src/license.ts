@@ -35,6 +35,7 @@ export interface LicenseResult {
 export const PRO_TOOLS = new Set([
   'facturx_create_pdf',
   'facturx_extract_from_pdf',
+  'facturx_validate_pdf',
   'chorus_submit',
   'chorus_get_status',
   'chorus_list_invoices',
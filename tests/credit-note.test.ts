@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createCreditNote } from '../src/facturx/credit-note.js';
+import { calculateTotals } from '../src/facturx/generator.js';
+import { validateInvoice } from '../src/facturx/validator.js';
+import { invoice } from './fixtures.js';
+
+const options = { number: 'AV-2026-001', date: '2026-10-15' };
+
+describe('createCreditNote', () => {
+  it('avoir total : reprend lignes, remises et charges, avec conditions de paiement', () => {
+    const credit = createCreditNote(invoice(), options);
+    assert.equal(credit.typeCode, '381');
+    assert.equal(credit.number, 'AV-2026-001');
+    assert.equal(credit.date, '2026-10-15');
+    assert.equal(credit.dueDate, undefined);
+    assert.equal(credit.payment?.terms, 'Avoir à imputer sur la facture F-2026-001 ou à rembourser');
+    assert.deepEqual(credit.precedingInvoices, [{ number: 'F-2026-001', issueDate: '2026-10-01' }]);
+    assert.equal(calculateTotals(credit).grandTotalAmount, calculateTotals(invoice()).grandTotalAmount);
+    assert.deepEqual(validateInvoice(credit).errors, []);
+  });
+
+  it('avoir partiel : seulement les lignes choisies, sans remises ni charges globales', () => {
+    const credit = createCreditNote(invoice(), { ...options, lineIds: ['2'], reason: 'Livre endommagé' });
+    assert.deepEqual(credit.lines.map(l => l.id), ['2']);
+    assert.equal(credit.allowances, undefined);
+    assert.equal(credit.charges, undefined);
+    assert.equal(calculateTotals(credit).grandTotalAmount, 39.56);
+    assert.deepEqual(credit.notes, [{ content: 'Livre endommagé' }]);
+    assert.deepEqual(validateInvoice(credit).errors, []);
+  });
+
+  it('échoit à sa date sans moyen de paiement pour porter des conditions (BR-CO-25)', () => {
+    for (const lineIds of [undefined, ['1']]) {
+      const credit = createCreditNote(invoice({ payment: undefined }), { ...options, lineIds });
+      assert.equal(credit.payment, undefined);
+      assert.equal(credit.dueDate, '2026-10-15');
+      assert.deepEqual(validateInvoice(credit).errors, []);
+    }
+  });
+
+  it('conserve les conditions de paiement de la facture', () => {
+    const payment = { ...invoice().payment!, terms: 'Remboursement par virement sous 15 jours' };
+    assert.equal(createCreditNote(invoice({ payment }), options).payment?.terms, payment.terms);
+  });
+
+  it('refuse une ligne inconnue ou une facture sans lignes', () => {
+    assert.throws(() => createCreditNote(invoice(), { ...options, lineIds: ['9'] }), /Ligne\(s\) introuvable\(s\).*: 9/);
+    assert.throws(() => createCreditNote(invoice({ profile: 'BASIC_WL', lines: [] }), options), /ne détaille pas ses lignes/);
+  });
+});
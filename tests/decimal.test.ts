@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Decimal, money } from '../src/facturx/decimal.js';
+import { calculateTotals, computeLineNetAmount } from '../src/facturx/generator.js';
+import { invoice, line } from './fixtures.js';
+
+const dec = (value: number | string) => Decimal.from(value);
+
+describe('Decimal', () => {
+  it('lit les nombres et chaînes sans erreur de flottant', () => {
+    assert.equal(dec(0.1).plus(0.2).toString(), '0.3');
+    assert.equal(dec('1.2e3').toString(), '1200');
+    assert.equal(dec('-.5').toString(), '-0.5');
+    assert.throws(() => dec(NaN), /Valeur décimale invalide/);
+    assert.throws(() => dec('1,5'), /Valeur décimale invalide/);
+  });
+
+  it('arrondit la demi-unité en s\'éloignant de zéro, y compris en négatif', () => {
+    assert.equal(dec(1.005).round(2).toString(), '1.01');
+    assert.equal(dec(0.125).round(2).toString(), '0.13');
+    assert.equal(dec(-0.125).round(2).toString(), '-0.13');
+    assert.equal(dec(-0.124).round(2).toString(), '-0.12');
+    assert.equal(dec(-2.5).round(0).toString(), '-3');
+    assert.equal(money(-1.005).toNumber(), -1.01);
+  });
+
+  it('divise avec arrondi, y compris quand l\'échelle du dividende dépasse celle du résultat', () => {
+    assert.equal(dec(10).dividedBy(3, 4).toString(), '3.3333');
+    assert.equal(dec(-2).dividedBy(3, 2).toString(), '-0.67');
+    // Décalage négatif : 1.23456 / 2 = 0.61728 → 0.62
+    assert.equal(dec('1.23456').dividedBy(2, 2).toString(), '0.62');
+    assert.equal(dec('1.23456').dividedBy(dec('0.5'), 1).toString(), '2.5');
+    assert.throws(() => dec(1).dividedBy(0), /Division par zéro/);
+  });
+
+  it('applique un pourcentage sans perte', () => {
+    assert.equal(dec(1477.5).percent(5.5).toString(), '81.2625');
+    assert.equal(dec(37.5).percent(5.5).toString(), '2.0625');
+    assert.equal(dec(-100).percent(20).toString(), '-20');
+  });
+
+  it('écrit à échelle fixe (toFixed) ou sans zéros de fin (toString)', () => {
+    assert.equal(dec(2).toFixed(2), '2.00');
+    assert.equal(dec(2.345).toFixed(2), '2.35');
+    assert.equal(dec(-0.005).toFixed(2), '-0.01');
+    assert.equal(dec('1.2000').toString(), '1.2');
+    assert.equal(dec(1.5).toString(2), '1.50');
+    assert.equal(dec('0.12345').toString(2), '0.12345');
+    assert.equal(dec('1.2000').decimalPlaces(), 1);
+  });
+
+  it('compare indépendamment de l\'échelle', () => {
+    assert.ok(dec('1.50').equals(1.5));
+    assert.equal(dec(-1).compare(0), -1);
+    assert.equal(Decimal.sum([0.1, 0.2, dec(0.3)]).toString(), '0.6');
+  });
+});
+
+describe('montants calculés en décimal exact', () => {
+  it('arrondit 1,005 au centime supérieur dans un montant de ligne', () => {
+    // 3 × 0,335 = 1,005 : 1,00 en flottant binaire, 1,01 en décimal
+    assert.equal(computeLineNetAmount(line({ quantity: 3, unitPrice: 0.335 })).toNumber(), 1.01);
+    assert.equal(computeLineNetAmount(line({ quantity: 1.5, unitPrice: 0.67 })).toNumber(), 1.01);
+    assert.equal(computeLineNetAmount(line({ quantity: 2.3333, unitPrice: 12.3456 })).toNumber(), 28.81);
+  });
+
+  // Trois lignes de 10,10 € à 5,5 % : TVA 0,5555 € par ligne
+  const multiLine = (vatRoundingMode?: 'category' | 'line') => invoice({
+    lines: ['1', '2', '3'].map(id => line({ id, quantity: 1, unitPrice: 10.1, totalAmount: 10.1, vatRate: 5.5 })),
+    allowances: undefined,
+    charges: undefined,
+    vatRoundingMode,
+  });
+
+  it('arrondit la TVA par catégorie par défaut (BR-CO-17)', () => {
+    for (const totals of [calculateTotals(multiLine()), calculateTotals(multiLine('category'))]) {
+      assert.equal(totals.taxBasisTotalAmount, 30.3);
+      assert.equal(totals.taxTotalAmount, 1.67);
+      assert.equal(totals.grandTotalAmount, 31.97);
+    }
+  });
+
+  it('arrondit la TVA ligne par ligne en mode \'line\'', () => {
+    const totals = calculateTotals(multiLine('line'));
+    assert.equal(totals.vatSummaries[0].taxAmount, 1.68);
+    assert.equal(totals.taxTotalAmount, 1.68);
+    assert.equal(totals.grandTotalAmount, 31.98);
+  });
+
+  it('totalise 400 lignes à 5,5 % sans écart d\'un centime', () => {
+    const lines = Array.from({ length: 400 }, (_, i) => line({ id: String(i + 1), quantity: 1, unitPrice: 0.1, totalAmount: 0.1, vatRate: 5.5 }));
+    const totals = calculateTotals(invoice({ lines, allowances: undefined, charges: undefined }));
+    assert.equal(totals.lineTotalAmount, 40);
+    assert.equal(totals.taxTotalAmount, 2.2);
+    assert.equal(totals.grandTotalAmount, 42.2);
+  });
+});
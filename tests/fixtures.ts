@@ -0,0 +1,50 @@
+import type { Invoice, InvoiceLine } from '../src/facturx/types.js';
+
+/** Ligne de facture au taux normal de 20 %, surchargée par `overrides`. */
+export function line(overrides: Partial<InvoiceLine> = {}): InvoiceLine {
+  return {
+    id:          '1',
+    description: 'Développement',
+    quantity:    10,
+    unitCode:    'HUR',
+    unitPrice:   150,
+    totalAmount: 1500,
+    vatRate:     20,
+    vatCategory: 'S',
+    ...overrides,
+  };
+}
+
+/** Facture EN 16931 conforme (vendeur et acheteur français), surchargée par `overrides`. */
+export function invoice(overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    number:   'F-2026-001',
+    typeCode: '380',
+    date:     '2026-10-01',
+    dueDate:  '2026-10-31',
+    currency: 'EUR',
+    profile:  'EN_16931',
+    seller: {
+      name:      'ACME SAS',
+      id:        '73282932000074',
+      legalId:   '732829320',
+      vatNumber: 'FR44732829320',
+      address:   { street: '10 rue de la Paix', city: 'Paris', postalCode: '75001', countryCode: 'FR' },
+      contact:   { name: 'Jean Martin', phone: '+33 1 23 45 67 89', email: 'facturation@acme.fr' },
+    },
+    buyer: {
+      name:      'CLIENT SA',
+      legalId:   '356000000',
+      vatNumber: 'FR39356000000',
+      address:   { street: '5 avenue des Champs', city: 'Lyon', postalCode: '69001', countryCode: 'FR' },
+    },
+    lines: [
+      line(),
+      line({ id: '2', description: 'Livre', quantity: 3, unitCode: 'C62', unitPrice: 12.5, totalAmount: 37.5, vatRate: 5.5 }),
+    ],
+    allowances: [{ baseAmount: 1500, percentage: 5, reason: 'Remise commerciale', reasonCode: '95', vatCategory: 'S', vatRate: 20 }],
+    charges:    [{ amount: 15, reason: 'Frais de port', vatCategory: 'S', vatRate: 20 }],
+    payment:    { meansCode: '58', iban: 'FR7630006000011234567890189', bic: 'AGRIFRPP' },
+    ...overrides,
+  };
+}
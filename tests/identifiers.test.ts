@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { frenchIdentifierScheme, frenchVatKey, isValidSiren, isValidSiret, luhn } from '../src/facturx/identifiers.js';
+import type { TradeParty } from '../src/facturx/types.js';
+import { validateInvoice } from '../src/facturx/validator.js';
+import { invoice } from './fixtures.js';
+
+// Erreurs de validation d'une facture dont le vendeur est modifié par `overrides`
+function sellerErrors(overrides: Partial<TradeParty>): string[] {
+  return validateInvoice(invoice({ seller: { ...invoice().seller, ...overrides } })).errors;
+}
+
+describe('identifiants français', () => {
+  it('SIREN : 9 chiffres et clé de Luhn, mise en forme ignorée', () => {
+    assert.ok(isValidSiren('732829320'));
+    assert.ok(isValidSiren('732 829 320'));
+    assert.ok(!isValidSiren('732829321'));
+    assert.ok(!isValidSiren('73282932'));
+  });
+
+  it('SIRET : 14 chiffres et clé de Luhn', () => {
+    assert.ok(isValidSiret('73282932000074'));
+    assert.ok(isValidSiret('732 829 320 00074'));
+    assert.ok(!isValidSiret('73282932000075'));
+    assert.ok(!isValidSiret('7328293200007'));
+  });
+
+  it('SIRET La Poste : somme des chiffres multiple de 5 au lieu de la clé de Luhn', () => {
+    assert.ok(!luhn('35600000000001'));
+    assert.ok(isValidSiret('35600000000001'));
+    assert.ok(!isValidSiret('35600000000002'));
+    // Siège : clé de Luhn ordinaire
+    assert.ok(isValidSiret('35600000000048'));
+    assert.ok(!isValidSiret('35600000000049'));
+  });
+
+  it('clé du numéro de TVA et schéma déduit de la forme', () => {
+    assert.equal(frenchVatKey('732829320'), '44');
+    assert.equal(frenchVatKey('356000000'), '39');
+    assert.equal(frenchIdentifierScheme('732829320'), '0002');
+    assert.equal(frenchIdentifierScheme('73282932000074'), '0009');
+    assert.equal(frenchIdentifierScheme('RCS Paris B 732 829 320'), undefined);
+  });
+});
+
+describe('cohérence des identifiants du vendeur français', () => {
+  it('accepte un SIRET, un SIREN et un numéro de TVA cohérents', () => {
+    assert.deepEqual(sellerErrors({}), []);
+  });
+
+  it('refuse un SIRET à la clé de Luhn erronée', () => {
+    assert.deepEqual(sellerErrors({ id: '73282932000075' }), ['BT-29 : SIRET du vendeur invalide (14 chiffres, clé de Luhn)']);
+  });
+
+  it('refuse un SIRET qui ne commence pas par le SIREN', () => {
+    assert.ok(sellerErrors({ id: '35600000000048' }).includes('BT-29 : SIRET du vendeur (35600000000048) ne commence pas par son SIREN (732829320)'));
+  });
+
+  it('refuse un numéro de TVA dont le SIREN diffère', () => {
+    const errors = sellerErrors({ id: undefined, legalId: '356000000' });
+    assert.deepEqual(errors, ['BT-31 : Numéro de TVA du vendeur (FR44732829320) incohérent avec son SIREN 356000000 — attendu FR39356000000']);
+  });
+
+  it('refuse un identifiant numérique qui n\'est ni un SIREN ni un SIRET', () => {
+    assert.ok(sellerErrors({ legalId: '1234567' }).some(e => e.startsWith('BT-30 : Identifiant du vendeur "1234567"')));
+  });
+});
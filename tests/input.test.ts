@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { completeInvoice } from '../src/facturx/input.js';
+import type { Invoice, InvoiceLine } from '../src/facturx/types.js';
+import { validateInvoice } from '../src/facturx/validator.js';
+import { validateFacturXXml } from '../src/facturx/xml-validator.js';
+import { invoice, line } from './fixtures.js';
+
+// Facture telle que saisie : montants nets de ligne (BT-131) omis, calculés à la génération
+function withoutLineAmounts(inv: Invoice): Invoice {
+  return { ...inv, lines: inv.lines.map(({ totalAmount: _, ...rest }) => rest as InvoiceLine) };
+}
+
+describe('completeInvoice', () => {
+  it('rend valide une saisie acceptée par la génération, sans montants de ligne', () => {
+    const input = withoutLineAmounts(invoice());
+    assert.ok(validateInvoice(input).errors.some(e => e.includes('BR-24')));
+
+    // facturx_validate et facturx_generate complètent tous deux la saisie par completeInvoice
+    const { invoice: completed, validation } = completeInvoice(input);
+    assert.deepEqual(validation.errors, []);
+    assert.deepEqual(completed.lines.map(l => l.totalAmount), [1500, 37.5]);
+    assert.deepEqual(validateFacturXXml(generateFacturX(completed)).errors, []);
+  });
+
+  it('convertit une saisie TTC avant validation', () => {
+    const input = invoice({ lines: [line({ unitPrice: 180, totalAmount: undefined as unknown as number })], allowances: undefined, charges: undefined });
+    const { invoice: completed, validation, ttc } = completeInvoice(input, { priceMode: 'TTC' });
+    assert.ok(ttc);
+    assert.deepEqual(validation.errors, []);
+    assert.equal(completed.lines[0].unitPrice, 150);
+    assert.equal(completed.lines[0].totalAmount, 1500);
+  });
+
+  it('applique les valeurs par défaut et les mentions légales, sauf refus', () => {
+    const input = { ...invoice(), typeCode: undefined, profile: undefined } as unknown as Invoice;
+    const { invoice: completed, addedMentions } = completeInvoice(input);
+    assert.equal(completed.typeCode, '380');
+    assert.equal(completed.profile, 'EN_16931');
+    assert.deepEqual(addedMentions.map(n => n.subjectCode), ['PMD', 'PMT', 'AAB']);
+    assert.deepEqual(completeInvoice(input, { addLegalMentions: false }).addedMentions, []);
+  });
+
+  it('ne convertit pas une saisie TTC sans lignes et la signale invalide', () => {
+    const { validation, ttc } = completeInvoice(invoice({ lines: [] }), { priceMode: 'TTC' });
+    assert.equal(ttc, undefined);
+    assert.ok(validation.errors.some(e => e.includes('BR-16')));
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it, mock } from 'node:test';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFPage, PDFRawStream, PDFString, decodePDFRawStream } from 'pdf-lib';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { createFacturXPdf } from '../src/facturx/pdf.js';
+import { invoice } from './fixtures.js';
+
+const SRGB_ICC = new URL('../assets/icc/sRGB2014.icc', import.meta.url);
+
+// Contenu décompressé d'un flux du catalogue
+function streamBytes(stream: unknown): Uint8Array {
+  assert.ok(stream instanceof PDFRawStream);
+  return decodePDFRawStream(stream).decode();
+}
+
+function xmpOf(pdfDoc: PDFDocument): string {
+  return Buffer.from(streamBytes(pdfDoc.catalog.lookup(PDFName.of('Metadata')))).toString('utf-8');
+}
+
+describe('createFacturXPdf', () => {
+  const xml = generateFacturX(invoice());
+  let dir: string;
+
+  before(async () => { dir = await mkdtemp(join(tmpdir(), 'facturx-pdf-')); });
+  after(async () => { await rm(dir, { recursive: true, force: true }); });
+
+  it('déclare le XML dans /AF, les métadonnées XMP PDF/A-3b et l\'OutputIntent sRGB', async () => {
+    const { pdf, pdfaBlockers } = await createFacturXPdf(xml, undefined, [], invoice());
+    assert.deepEqual(pdfaBlockers, []);
+    const pdfDoc = await PDFDocument.load(pdf);
+    const { catalog } = pdfDoc;
+
+    const af = catalog.lookup(PDFName.of('AF'), PDFArray);
+    assert.equal(af.size(), 1);
+    const spec = af.lookup(0, PDFDict);
+    assert.equal(spec.lookup(PDFName.of('F'), PDFString).decodeText(), 'factur-x.xml');
+    assert.equal(spec.get(PDFName.of('AFRelationship')), PDFName.of('Alternative'));
+
+    const xmp = xmpOf(pdfDoc);
+    assert.match(xmp, /<pdfaid:part>3<\/pdfaid:part>/);
+    assert.match(xmp, /<pdfaid:conformance>B<\/pdfaid:conformance>/);
+    assert.match(xmp, /<fx:ConformanceLevel>EN 16931<\/fx:ConformanceLevel>/);
+
+    const intent = catalog.lookup(PDFName.of('OutputIntents'), PDFArray).lookup(0, PDFDict);
+    assert.equal(intent.get(PDFName.of('S')), PDFName.of('GTS_PDFA1'));
+    const profile = intent.lookup(PDFName.of('DestOutputProfile'));
+    assert.ok(profile instanceof PDFRawStream);
+    assert.equal(profile.dict.lookup(PDFName.of('N'), PDFNumber).asNumber(), 3);
+    assert.deepEqual(Buffer.from(streamBytes(profile)), await readFile(SRGB_ICC));
+  });
+
+  it('met en page les totaux déclarés par le XML', async () => {
+    // TVA arrondie par l'émetteur : 2,07 € au lieu de 2,06 € sur la base à 5,5 %
+    const declared = xml
+      .replace('<ram:CalculatedAmount>2.06</ram:CalculatedAmount>', '<ram:CalculatedAmount>2.07</ram:CalculatedAmount>')
+      .replace('>290.06</ram:TaxTotalAmount>', '>290.07</ram:TaxTotalAmount>')
+      .replace('<ram:GrandTotalAmount>1767.56', '<ram:GrandTotalAmount>1767.57')
+      .replace('<ram:DuePayableAmount>1767.56', '<ram:DuePayableAmount>1767.57');
+    const drawText = mock.method(PDFPage.prototype, 'drawText');
+    try {
+      await createFacturXPdf(declared);
+      const texts = drawText.mock.calls.map(call => call.arguments[0].replace(/\u00a0/g, ' '));
+      for (const amount of ['2,07 €', '290,07 €', '1 767,57 €']) assert.ok(texts.includes(amount), amount);
+    } finally {
+      drawText.mock.restore();
+    }
+  });
+
+  it('ne déclare pas PDF/A quand le PDF source embarque un fichier sans AFRelationship', async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    await source.attach(Buffer.from('notes'), 'notes.txt', { mimeType: 'text/plain' });
+    const sourcePath = join(dir, 'source.pdf');
+    await writeFile(sourcePath, await source.save());
+
+    const { pdf, pdfaBlockers } = await createFacturXPdf(xml, sourcePath);
+    assert.deepEqual(pdfaBlockers, ['Fichier embarqué sans AFRelationship : notes.txt']);
+    const xmp = xmpOf(await PDFDocument.load(pdf));
+    assert.doesNotMatch(xmp, /pdfaid:/);
+    assert.match(xmp, /<fx:DocumentFileName>factur-x.xml<\/fx:DocumentFileName>/);
+  });
+});
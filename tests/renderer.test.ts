@@ -0,0 +1,57 @@
+import fontkit from '@pdf-lib/fontkit';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { afterEach, describe, it, mock } from 'node:test';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { calculateTotals } from '../src/facturx/generator.js';
+import { renderInvoice } from '../src/facturx/renderer.js';
+import type { Invoice, InvoiceTotals } from '../src/facturx/types.js';
+import { invoice } from './fixtures.js';
+
+const require = createRequire(import.meta.url);
+
+// Textes dessinés par le rendu de la facture, dans l'ordre, espaces insécables ramenées à des espaces
+async function renderedTexts(inv: Invoice, totals?: InvoiceTotals): Promise<string[]> {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  const font = async (file: string) => doc.embedFont(await readFile(require.resolve(`dejavu-fonts-ttf/ttf/${file}`)), { subset: true });
+  const drawText = mock.method(PDFPage.prototype, 'drawText');
+  renderInvoice(doc, inv, { regular: await font('DejaVuSans.ttf'), bold: await font('DejaVuSans-Bold.ttf') }, totals);
+  return drawText.mock.calls.map(call => call.arguments[0].replace(/\u00a0/g, ' '));
+}
+
+describe('renderInvoice', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('recalcule les totaux à partir des lignes par défaut', async () => {
+    const texts = await renderedTexts(invoice());
+    assert.ok(texts.includes('290,06 €'));
+    assert.ok(texts.includes('1 767,56 €'));
+  });
+
+  it('reprend les totaux et la ventilation TVA déclarés', async () => {
+    // TVA arrondie par l'émetteur : 2,07 € au lieu de 2,06 € sur la base à 5,5 %
+    const computed = calculateTotals(invoice());
+    const declared: InvoiceTotals = {
+      ...computed,
+      taxTotalAmount:   290.07,
+      grandTotalAmount: 1767.57,
+      duePayableAmount: 1767.57,
+      vatSummaries:     computed.vatSummaries.map(v => v.rate === 5.5 ? { ...v, taxAmount: 2.07 } : v),
+    };
+    const texts = await renderedTexts(invoice(), declared);
+    for (const amount of ['2,07 €', '290,07 €', '1 767,57 €']) assert.ok(texts.includes(amount), amount);
+    for (const amount of ['2,06 €', '290,06 €', '1 767,56 €']) assert.ok(!texts.includes(amount), amount);
+  });
+
+  it('libelle les identifiants du bénéficiaire d\'après leur schéma', async () => {
+    const payee = { name: 'ACME Affacturage', id: '44229377500031', idScheme: '0009', legalId: '442293775', legalIdScheme: '0002' };
+    const texts = await renderedTexts(invoice({ payee }));
+    assert.ok(texts.includes('SIRET : 44229377500031'));
+    assert.ok(texts.includes('SIREN : 442293775'));
+
+    const unqualified = await renderedTexts(invoice({ payee: { name: 'ACME Affacturage', id: 'AF-77' } }));
+    assert.ok(unqualified.includes('Identifiant : AF-77'));
+  });
+});
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateTotals } from '../src/facturx/generator.js';
+import { runBusinessRules } from '../src/facturx/rules.js';
+import type { Invoice, InvoiceTotals, VatCategoryCode } from '../src/facturx/types.js';
+import { invoice, line } from './fixtures.js';
+
+// Identifiants des règles en échec
+function failedRules(inv: Invoice, declaredTotals?: InvoiceTotals): string[] {
+  return runBusinessRules(inv, declaredTotals).map(f => f.rule ?? '');
+}
+
+function assertPasses(inv: Invoice, declaredTotals?: InvoiceTotals): void {
+  assert.deepEqual(failedRules(inv, declaredTotals), []);
+}
+
+function assertFails(inv: Invoice, rule: string, declaredTotals?: InvoiceTotals): void {
+  assert.ok(failedRules(inv, declaredTotals).includes(rule), `${rule} attendue, obtenu : ${failedRules(inv, declaredTotals).join(', ') || 'aucune'}`);
+}
+
+// Facture d'une seule ligne dans une catégorie de TVA à taux zéro, avec son motif d'exonération
+function zeroRated(category: VatCategoryCode, overrides: Partial<Invoice> = {}): Invoice {
+  return invoice({
+    lines:         [line({ vatCategory: category, vatRate: 0 })],
+    allowances:    undefined,
+    charges:       undefined,
+    vatExemptions: [{ categoryCode: category, reason: 'Exonération de TVA' }],
+    ...overrides,
+  });
+}
+
+describe('règles de base (BR-*)', () => {
+  it('acceptent une facture complète', () => {
+    assertPasses(invoice());
+  });
+
+  it('BR-02 : numéro de facture requis', () => {
+    assertFails(invoice({ number: ' ' }), 'BR-02');
+  });
+
+  it('BR-16 : au moins une ligne', () => {
+    assertFails(invoice({ lines: [] }), 'BR-16');
+  });
+
+  it('BR-27 : prix net négatif interdit à partir de BASIC', () => {
+    const negative = [line({ unitPrice: -1, totalAmount: -10, quantity: 10 })];
+    assertFails(invoice({ lines: negative, allowances: undefined, charges: undefined }), 'BR-27');
+    assert.ok(!failedRules(invoice({ profile: 'BASIC_WL', lines: negative, allowances: undefined, charges: undefined })).includes('BR-27'));
+  });
+
+  it('BR-61 : IBAN requis pour un virement', () => {
+    assertFails(invoice({ payment: { meansCode: '58' } }), 'BR-61');
+  });
+});
+
+describe('règles de calcul (BR-CO-*)', () => {
+  it('acceptent des totaux déclarés cohérents', () => {
+    const inv = invoice();
+    assertPasses(inv, calculateTotals(inv));
+  });
+
+  it('BR-CO-10 : total des lignes égal à la somme des lignes', () => {
+    const inv = invoice();
+    const totals = calculateTotals(inv);
+    assertFails(inv, 'BR-CO-10', { ...totals, lineTotalAmount: totals.lineTotalAmount + 1 });
+  });
+
+  it('BR-CO-15 : total TTC égal au total HT + TVA', () => {
+    const inv = invoice();
+    const totals = calculateTotals(inv);
+    assertFails(inv, 'BR-CO-15', { ...totals, grandTotalAmount: totals.grandTotalAmount + 1 });
+  });
+
+  it('BR-CO-21 : motif de remise requis', () => {
+    assertFails(invoice({ allowances: [{ amount: 10, vatCategory: 'S', vatRate: 20 }] }), 'BR-CO-21');
+  });
+
+  it('BR-CO-25 : échéance ou conditions de paiement requises', () => {
+    assertFails(invoice({ dueDate: undefined }), 'BR-CO-25');
+    assertPasses(invoice({ dueDate: undefined, payment: { meansCode: '58', iban: 'FR7630006000011234567890189', terms: '30 jours' } }));
+  });
+
+  it('BR-CO-26 : identifiant du vendeur requis', () => {
+    const seller = { ...invoice().seller, id: undefined, legalId: undefined, vatNumber: undefined };
+    assertFails(invoice({ seller }), 'BR-CO-26');
+  });
+
+  it('ne confrontent pas aux lignes les totaux d\'un document BASIC WL', () => {
+    const inv = invoice({ profile: 'BASIC_WL', lines: [] });
+    const totals = calculateTotals(invoice({ profile: 'BASIC_WL' }));
+    assert.ok(!failedRules(inv, totals).includes('BR-CO-10'));
+    assert.ok(!failedRules(inv, totals).includes('BR-16'));
+  });
+});
+
+describe('règles par catégorie de TVA', () => {
+  it('BR-S : taux strictement positif', () => {
+    assertPasses(invoice());
+    assertFails(invoice({ lines: [line({ vatRate: 0 })], allowances: undefined, charges: undefined }), 'BR-S-05');
+  });
+
+  it('BR-S : aucun motif d\'exonération', () => {
+    assertFails(invoice({ vatExemptions: [{ categoryCode: 'S', reason: 'Exonéré' }] }), 'BR-S-10');
+  });
+
+  it('BR-Z : taux zéro', () => {
+    assertPasses(invoice({ lines: [line({ vatCategory: 'Z', vatRate: 0 })], allowances: undefined, charges: undefined }));
+    assertFails(invoice({ lines: [line({ vatCategory: 'Z', vatRate: 5.5 })], allowances: undefined, charges: undefined }), 'BR-Z-05');
+  });
+
+  it('BR-E : motif d\'exonération requis', () => {
+    assertPasses(zeroRated('E'));
+    assertFails(zeroRated('E', { vatExemptions: undefined }), 'BR-E-10');
+  });
+
+  it('BR-AE : numéro de TVA ou identifiant légal de l\'acheteur requis', () => {
+    assertPasses(zeroRated('AE'));
+    const buyer = { ...invoice().buyer, vatNumber: undefined, legalId: undefined };
+    assertFails(zeroRated('AE', { buyer }), 'BR-AE-02');
+  });
+
+  it('BR-IC : date de livraison et pays de livraison requis', () => {
+    const intraEu = { deliveryDate: '2026-09-30', shipTo: { address: { street: 'Hauptstraße 1', city: 'Berlin', postalCode: '10115', countryCode: 'DE' } } };
+    assertPasses(zeroRated('K', intraEu));
+    assertFails(zeroRated('K', { ...intraEu, deliveryDate: undefined }), 'BR-IC-11');
+    assertFails(zeroRated('K', { ...intraEu, shipTo: undefined }), 'BR-IC-12');
+  });
+
+  it('BR-G : taux zéro pour un export', () => {
+    assertPasses(zeroRated('G'));
+    assertFails(zeroRated('G', { lines: [line({ vatCategory: 'G', vatRate: 20 })] }), 'BR-G-05');
+  });
+
+  it('BR-O : aucun numéro de TVA ni autre catégorie', () => {
+    const seller = { ...invoice().seller, vatNumber: undefined };
+    const buyer = { ...invoice().buyer, vatNumber: undefined };
+    assertPasses(zeroRated('O', { seller, buyer }));
+    assertFails(zeroRated('O'), 'BR-O-02');
+    assertFails(zeroRated('O', { seller, buyer, lines: [line({ vatCategory: 'O', vatRate: 0 }), line({ id: '2' })] }), 'BR-O-11');
+  });
+});
+
+describe('XRechnung (BR-DE-*)', () => {
+  const xrechnung = (overrides: Partial<Invoice> = {}) => invoice({
+    profile:  'XRECHNUNG',
+    buyerRef: '04011000-12345-34',
+    seller:   { ...invoice().seller, electronicAddress: 'facturation@acme.fr', electronicAddressScheme: 'EM' },
+    buyer:    { ...invoice().buyer, electronicAddress: 'compta@client.fr', electronicAddressScheme: 'EM' },
+    ...overrides,
+  });
+
+  it('acceptent une facture XRechnung complète', () => {
+    assertPasses(xrechnung());
+  });
+
+  it('BR-DE-15 : référence acheteur (Leitweg-ID) requise', () => {
+    assertFails(xrechnung({ buyerRef: undefined }), 'BR-DE-15');
+  });
+
+  it('BR-DE-17 : code type de facture autorisé', () => {
+    assertFails(xrechnung({ typeCode: '71' as Invoice['typeCode'] }), 'BR-DE-17');
+  });
+
+  it('ne s\'appliquent pas au profil EN 16931', () => {
+    assert.ok(!failedRules(invoice({ buyerRef: undefined })).some(rule => rule.startsWith('BR-DE-')));
+  });
+});
+
+describe('Peppol BIS Billing 3.0 (PEPPOL-EN16931-*)', () => {
+  const peppol = (overrides: Partial<Invoice> = {}) => invoice({
+    profile:          'PEPPOL_BIS',
+    purchaseOrderRef: 'PO-4521',
+    seller:           { ...invoice().seller, electronicAddress: '732829320', electronicAddressScheme: '0002' },
+    buyer:            { ...invoice().buyer, electronicAddress: '356000000', electronicAddressScheme: '0002' },
+    ...overrides,
+  });
+
+  it('acceptent une facture Peppol complète', () => {
+    assertPasses(peppol());
+  });
+
+  it('PEPPOL-EN16931-R003 : référence acheteur ou commande requise', () => {
+    assertFails(peppol({ purchaseOrderRef: undefined }), 'PEPPOL-EN16931-R003');
+  });
+
+  it('PEPPOL-EN16931-R010 : adresse électronique de l\'acheteur requise', () => {
+    assertFails(peppol({ buyer: invoice().buyer }), 'PEPPOL-EN16931-R010');
+  });
+});
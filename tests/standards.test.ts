@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { parseFacturXTotals } from '../src/facturx/parser.js';
+import { identifyDocument } from '../src/facturx/standards.js';
+import { generateUbl } from '../src/facturx/ubl.js';
+import { parseInvoiceXml } from '../src/facturx/ubl-parser.js';
+import { invoice } from './fixtures.js';
+
+const data = (name: string) => readFileSync(new URL(`./data/${name}`, import.meta.url), 'utf-8');
+
+describe('identifyDocument', () => {
+  it('identifie les documents Factur-X, XRechnung et Peppol générés', () => {
+    const facturX = identifyDocument(generateFacturX(invoice({ profile: 'BASIC' })));
+    assert.equal(facturX.standard, 'Factur-X');
+    assert.equal(facturX.profile, 'BASIC');
+    assert.equal(facturX.order, false);
+    assert.equal(identifyDocument(generateFacturX(invoice({ profile: 'XRECHNUNG' }))).standard, 'XRechnung');
+    assert.equal(identifyDocument(generateUbl(invoice({ profile: 'PEPPOL_BIS' }))).standard, 'Peppol BIS (UBL 2.1)');
+  });
+
+  it('reconnaît un document ZUGFeRD 2.0 et son profil', () => {
+    const xml = generateFacturX(invoice({ profile: 'EXTENDED' }))
+      .replace(/urn:cen\.eu:en16931:2017#conformant#urn:factur-x\.eu:1p0:extended/, 'urn:cen.eu:en16931:2017#conformant#urn:zugferd.de:2p0:extended');
+    const document = identifyDocument(xml);
+    assert.equal(document.standard, 'ZUGFeRD 2.0');
+    assert.equal(document.profile, 'EXTENDED');
+    assert.equal(parseInvoiceXml(xml).profile, 'EXTENDED');
+  });
+
+  it('reconnaît un document ZUGFeRD 1.0', () => {
+    const document = identifyDocument(data('zugferd1-comfort.xml'));
+    assert.equal(document.standard, 'ZUGFeRD 1.0');
+    assert.equal(document.order, false);
+    assert.equal(document.guidelineId, 'urn:ferd:CrossIndustryDocument:invoice:1p0:comfort');
+  });
+
+  it('identifie une commande Order-X', () => {
+    assert.deepEqual(identifyDocument(data('order-x.xml')), { standard: 'Order-X (commande)', order: true, guidelineId: 'urn:order-x.eu:1p0:basic' });
+  });
+});
+
+describe('lecture des documents hérités', () => {
+  it('convertit une facture ZUGFeRD 1.0 en modèle Factur-X', () => {
+    const xml = data('zugferd1-comfort.xml');
+    const parsed = parseInvoiceXml(xml);
+    assert.equal(parsed.number, '471102');
+    assert.equal(parsed.date, '2013-03-05');
+    assert.equal(parsed.seller.vatNumber, 'DE123456789');
+    assert.equal(parsed.purchaseOrderRef, 'PO-42');
+    assert.equal(parsed.lines.length, 1);
+    assert.equal(parsed.lines[0].totalAmount, 200);
+    assert.equal(parsed.lines[0].vatRate, 19);
+    assert.equal(parseFacturXTotals(xml).duePayableAmount, 238);
+  });
+
+  it('refuse de lire une commande Order-X comme une facture', () => {
+    assert.throws(() => parseInvoiceXml(data('order-x.xml')), /Order-X/);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateTotals } from '../src/facturx/generator.js';
+import { convertTtcPrices } from '../src/facturx/ttc.js';
+import type { Invoice, InvoiceLine } from '../src/facturx/types.js';
+import { invoice, line } from './fixtures.js';
+
+// Facture d'une seule ligne saisie TTC, sans remise ni charge de document
+function ttcInvoice(overrides: Partial<InvoiceLine>, invoiceOverrides: Partial<Invoice> = {}): Invoice {
+  return invoice({ lines: [line({ totalAmount: 0, ...overrides })], allowances: undefined, charges: undefined, ...invoiceOverrides });
+}
+
+describe('convertTtcPrices', () => {
+  it('déduit le prix unitaire et le montant de ligne HT', () => {
+    const result = convertTtcPrices(ttcInvoice({ quantity: 10, unitPrice: 180 }));
+    assert.equal(result.invoice.lines[0].unitPrice, 150);
+    assert.equal(result.invoice.lines[0].totalAmount, 1500);
+    assert.equal(result.enteredTotal, 1800);
+    assert.equal(result.computedTotal, 1800);
+    assert.equal(result.adjustment, 0);
+    assert.equal(result.roundingApplied, false);
+    assert.equal(result.invoice.roundingAmount, undefined);
+  });
+
+  it('arrondit le prix unitaire HT à 4 décimales', () => {
+    const result = convertTtcPrices(ttcInvoice({ quantity: 3, unitPrice: 9.99 }));
+    assert.equal(result.invoice.lines[0].unitPrice, 8.325);
+    assert.equal(result.invoice.lines[0].totalAmount, 24.98);
+  });
+
+  it('reporte l\'écart d\'arrondi en arrondi (BT-114) à partir du profil EN 16931', () => {
+    // 3 × 9,99 € TTC = 29,97 € saisis ; 24,98 € HT + 5,00 € de TVA = 29,98 € recalculés
+    const result = convertTtcPrices(ttcInvoice({ quantity: 3, unitPrice: 9.99 }));
+    assert.equal(result.enteredTotal, 29.97);
+    assert.equal(result.computedTotal, 29.98);
+    assert.equal(result.adjustment, -0.01);
+    assert.equal(result.roundingApplied, true);
+    assert.equal(result.invoice.roundingAmount, -0.01);
+    assert.equal(calculateTotals(result.invoice).duePayableAmount, 29.97);
+  });
+
+  it('ne reporte pas l\'écart en deçà du profil EN 16931 ni sur un arrondi fourni', () => {
+    const basic = convertTtcPrices(ttcInvoice({ quantity: 3, unitPrice: 9.99 }, { profile: 'BASIC' }));
+    assert.equal(basic.adjustment, -0.01);
+    assert.equal(basic.roundingApplied, false);
+    assert.equal(basic.invoice.roundingAmount, undefined);
+
+    const provided = convertTtcPrices(ttcInvoice({ quantity: 3, unitPrice: 9.99 }, { roundingAmount: 0 }));
+    assert.equal(provided.roundingApplied, false);
+    assert.equal(provided.invoice.roundingAmount, 0);
+  });
+
+  it('recalcule la remise unitaire pour que prix net = prix brut − remise', () => {
+    const result = convertTtcPrices(ttcInvoice({ quantity: 2, unitPrice: 94.95, grossPrice: 105.5, priceDiscount: 10.55, vatRate: 5.5 }));
+    const converted = result.invoice.lines[0];
+    assert.equal(converted.grossPrice, 100);
+    assert.equal(converted.unitPrice, 90);
+    assert.equal(converted.priceDiscount, 10);
+    assert.equal(converted.totalAmount, 180);
+  });
+
+  it('convertit les remises et charges de document au taux de leur catégorie', () => {
+    const result = convertTtcPrices(invoice({
+      lines:      [line({ unitPrice: 180, totalAmount: 0 })],
+      allowances: [{ amount: 24, reason: 'Remise', vatCategory: 'S', vatRate: 20 }],
+      charges:    [{ amount: 10.55, reason: 'Frais de port', vatCategory: 'S', vatRate: 5.5 }],
+    }));
+    assert.equal(result.invoice.allowances?.[0].amount, 20);
+    assert.equal(result.invoice.charges?.[0].amount, 10);
+    assert.equal(result.enteredTotal, 1786.55);
+    assert.equal(result.adjustment, 0);
+  });
+});
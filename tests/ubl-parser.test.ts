@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { calculateTotals, generateFacturX } from '../src/facturx/generator.js';
+import { generateUbl } from '../src/facturx/ubl.js';
+import { parseInvoiceTotals, parseInvoiceXml, parseUblXml } from '../src/facturx/ubl-parser.js';
+import { invoice } from './fixtures.js';
+
+// Valeur sans ses propriétés undefined, comme une fois sérialisée
+const plain = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe('parseUblXml', () => {
+  it('relit une facture UBL générée', () => {
+    const source = invoice();
+    const parsed = parseUblXml(generateUbl(source));
+    assert.equal(parsed.number, source.number);
+    assert.equal(parsed.typeCode, '380');
+    assert.equal(parsed.profile, 'EN_16931');
+    assert.equal(parsed.seller.vatNumber, source.seller.vatNumber);
+    assert.equal(parsed.seller.idScheme, '0009');
+    assert.equal(parsed.buyer.legalId, source.buyer.legalId);
+    assert.deepEqual(plain(parsed.lines), source.lines);
+    assert.deepEqual(plain(parsed.charges), source.charges);
+    assert.equal(parsed.allowances?.[0].amount, 75);
+    assert.deepEqual(plain(parsed.payment), source.payment);
+  });
+
+  it('relit un avoir et son profil Peppol', () => {
+    const parsed = parseUblXml(generateUbl(invoice({ typeCode: '381', profile: 'PEPPOL_BIS' })));
+    assert.equal(parsed.typeCode, '381');
+    assert.equal(parsed.profile, 'PEPPOL_BIS');
+    assert.equal(parsed.lines.length, 2);
+  });
+});
+
+describe('parseInvoiceXml / parseInvoiceTotals', () => {
+  it('détectent la syntaxe et lisent les totaux déclarés', () => {
+    const source = invoice();
+    const expected = calculateTotals(source);
+    for (const xml of [generateUbl(source), generateFacturX(source)]) {
+      assert.equal(parseInvoiceXml(xml).number, source.number);
+      assert.deepEqual(plain(parseInvoiceTotals(xml)), plain(expected));
+    }
+  });
+
+  it('restituent les totaux d\'un document MINIMUM, sans lignes', () => {
+    const xml = generateFacturX(invoice({ profile: 'MINIMUM' }));
+    assert.deepEqual(parseInvoiceXml(xml).lines, []);
+    assert.equal(parseInvoiceTotals(xml).duePayableAmount, 1767.56);
+  });
+});
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { detectSyntax, generateUbl } from '../src/facturx/ubl.js';
+import { invoice } from './fixtures.js';
+
+// Contenu du premier élément `tag` (préfixe compris)
+function text(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`).exec(xml)?.[1];
+}
+
+describe('generateUbl', () => {
+  it('produit une facture UBL 2.1 EN 16931', () => {
+    const xml = generateUbl(invoice());
+    assert.match(xml, /<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"/);
+    assert.equal(text(xml, 'cbc:CustomizationID'), 'urn:cen.eu:en16931:2017');
+    assert.equal(text(xml, 'cbc:InvoiceTypeCode'), '380');
+    assert.equal(text(xml, 'cbc:TaxAmount'), '290.06');
+    assert.equal(text(xml, 'cbc:PayableAmount'), '1767.56');
+    assert.equal(xml.match(/<cac:InvoiceLine>/g)?.length, 2);
+  });
+
+  it('produit un avoir CreditNote pour le type 381', () => {
+    const xml = generateUbl(invoice({ typeCode: '381', profile: 'PEPPOL_BIS' }));
+    assert.match(xml, /<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"/);
+    assert.equal(text(xml, 'cbc:CreditNoteTypeCode'), '381');
+    assert.equal(text(xml, 'cbc:ProfileID'), 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0');
+    assert.equal(xml.match(/<cac:CreditNoteLine>/g)?.length, 2);
+    assert.doesNotMatch(xml, /InvoicedQuantity/);
+  });
+
+  it('qualifie les identifiants français (SIRET 0009, SIREN 0002)', () => {
+    const xml = generateUbl(invoice());
+    assert.match(xml, /<cbc:ID schemeID="0009">73282932000074<\/cbc:ID>/);
+    assert.match(xml, /<cbc:CompanyID schemeID="0002">732829320<\/cbc:CompanyID>/);
+  });
+});
+
+describe('detectSyntax', () => {
+  it('distingue UBL et CII', () => {
+    assert.equal(detectSyntax(generateUbl(invoice())), 'UBL');
+    assert.equal(detectSyntax(generateUbl(invoice({ typeCode: '381' }))), 'UBL');
+    assert.equal(detectSyntax(generateFacturX(invoice())), 'CII');
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkVatNumber, EU_VAT_PREFIXES, isEuVatNumber, normalizeVatNumber } from '../src/facturx/vat-number.js';
+
+// Numéro valide et numéro au format correct mais à la clé altérée, par État membre
+const NUMBERS: Record<string, [valid: string, corrupted: string]> = {
+  AT: ['ATU13585627',    'ATU13585628'],
+  BE: ['BE0403019261',   'BE0403019262'],
+  BG: ['BG175074752',    'BG175074753'],
+  CY: ['CY10259033P',    'CY10259034P'],
+  CZ: ['CZ25123891',     'CZ25123892'],
+  DE: ['DE136695976',    'DE136695977'],
+  DK: ['DK13585628',     'DK13585629'],
+  EE: ['EE100931558',    'EE100931559'],
+  EL: ['EL094259216',    'EL094259217'],
+  ES: ['ESA13585625',    'ESA13585626'],
+  FI: ['FI20774740',     'FI20774741'],
+  FR: ['FR44732829320',  'FR45732829320'],
+  HR: ['HR33392005961',  'HR33392005962'],
+  HU: ['HU12892312',     'HU12892313'],
+  IE: ['IE6433435F',     'IE6433436F'],
+  IT: ['IT00743110157',  'IT00743110158'],
+  LT: ['LT119511515',    'LT119511516'],
+  LU: ['LU10000356',     'LU10000357'],
+  LV: ['LV40003521600',  'LV40003521601'],
+  MT: ['MT11679112',     'MT11679113'],
+  NL: ['NL004495445B01', 'NL004495446B01'],
+  PL: ['PL8567346215',   'PL8567346216'],
+  PT: ['PT501964843',    'PT501964844'],
+  RO: ['RO18547290',     'RO18547291'],
+  SE: ['SE556188840401', 'SE556188841401'],
+  SI: ['SI50223054',     'SI50223055'],
+  SK: ['SK4030000007',   'SK4030000008'],
+};
+
+describe('checkVatNumber', () => {
+  it('couvre chaque État membre', () => {
+    assert.deepEqual(Object.keys(NUMBERS), EU_VAT_PREFIXES);
+  });
+
+  for (const [prefix, [valid, corrupted]] of Object.entries(NUMBERS)) {
+    it(`${prefix} : accepte ${valid}, refuse la clé de ${corrupted}`, () => {
+      const ok = checkVatNumber(valid);
+      assert.equal(ok.valid, true, ok.error);
+      assert.equal(ok.checksumValid, true);
+      assert.equal(ok.countryCode, prefix);
+
+      const bad = checkVatNumber(corrupted);
+      assert.equal(bad.formatValid, true);
+      assert.equal(bad.checksumValid, false);
+      assert.equal(bad.valid, false);
+      assert.match(bad.error ?? '', /^Clé de contrôle invalide pour /);
+    });
+  }
+
+  it('refuse un format invalide ou un préfixe hors UE', () => {
+    assert.equal(checkVatNumber('ATU1358562').error, 'Format invalide pour Autriche');
+    const foreign = checkVatNumber('CHE123456789');
+    assert.equal(foreign.valid, false);
+    assert.match(foreign.error ?? '', /^Préfixe pays "CH" inconnu/);
+  });
+});
+
+describe('normalizeVatNumber', () => {
+  it('retire espaces, points, tirets et barres et met le préfixe en majuscules', () => {
+    assert.equal(normalizeVatNumber('fr 44 732.829-320'), 'FR44732829320');
+    assert.equal(normalizeVatNumber('DE 136/695/976'), 'DE136695976');
+  });
+
+  it('remplace le préfixe GR par EL', () => {
+    assert.equal(normalizeVatNumber('gr 094 259 216'), 'EL094259216');
+    assert.equal(checkVatNumber('GR094259216').valid, true);
+    assert.ok(isEuVatNumber('GR094259216'));
+    assert.ok(!isEuVatNumber('GB123456789'));
+  });
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { validateFacturXXml } from '../src/facturx/xml-validator.js';
+import { invoice } from './fixtures.js';
+
+// Facture en dollars dont la TVA est aussi déclarée en euros (BT-6 / BT-111)
+const usdInvoice = invoice({ currency: 'USD', taxCurrency: 'EUR', exchangeRate: 0.9 });
+
+describe('validateFacturXXml', () => {
+  it('accepte une facture générée', () => {
+    const result = validateFacturXXml(generateFacturX(invoice()));
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('lit le total TVA en devise de comptabilisation (BT-111)', () => {
+    const xml = generateFacturX(usdInvoice);
+    assert.match(xml, /<ram:TaxTotalAmount currencyID="EUR">/);
+    assert.ok(!validateFacturXXml(xml).errors.some(e => e.startsWith('BR-53')));
+  });
+
+  it('BR-53 : signale un total TVA absent dans la devise de comptabilisation', () => {
+    const xml = generateFacturX(usdInvoice).replace(/<ram:TaxTotalAmount currencyID="EUR">[^<]*<\/ram:TaxTotalAmount>\s*/, '');
+    assert.ok(validateFacturXXml(xml).errors.some(e => e.startsWith('BR-53')));
+  });
+});
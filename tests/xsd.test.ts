@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { generateFacturX } from '../src/facturx/generator.js';
+import { validateXmlSchema } from '../src/facturx/xsd.js';
+import { invoice } from './fixtures.js';
+
+describe('validateXmlSchema', () => {
+  it('accepte le XML généré pour chaque profil', async () => {
+    for (const profile of ['MINIMUM', 'BASIC_WL', 'BASIC', 'EN_16931', 'EXTENDED'] as const) {
+      const result = await validateXmlSchema(generateFacturX(invoice({ profile })));
+      assert.equal(result.profile, profile);
+      assert.deepEqual(result.violations, [], profile);
+    }
+  });
+
+  it('localise un élément inattendu', async () => {
+    const xml = generateFacturX(invoice()).replace('<ram:LineTotalAmount>', '<ram:Inconnu>0</ram:Inconnu><ram:LineTotalAmount>');
+    const result = await validateXmlSchema(xml);
+    assert.equal(result.valid, false);
+    assert.ok(result.violations.some(v => v.line && /ram:Inconnu/.test(v.message)));
+  });
+});